@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -39,6 +40,9 @@ export async function DELETE(
       return Response.json({ error: 'Unauthorized' }, { status: 403 });
     }
 
+    // Saldos iniciais calculados incluíam esta conta
+    await invalidateMonthlyBalances(params.id);
+
     await prisma.binanceAccount.delete({
       where: { id: params.id },
     });
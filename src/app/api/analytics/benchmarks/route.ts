@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { getBenchmarkComparison } from '@/lib/analytics/benchmarks';
+import { getTradesWhere, TradesQueryError } from '@/lib/trades';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Retorno acumulado da carteira x BTC buy-and-hold x CDI no período
+// (month ou startDate/endDate, como em /api/trades)
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+
+  try {
+    // Mesmo período que /api/trades resolveria para esses parâmetros
+    const { start, end } = await getTradesWhere({
+      month: searchParams.get('month') || '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+    const data = await getBenchmarkComparison(userId, start, end);
+    return Response.json(data, { status: 200 });
+  } catch (err) {
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[ANALYTICS] Erro em /api/analytics/benchmarks:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getGoalProgress } from '@/lib/analytics/goals';
+import { parseTradesQuery, TradesQueryError } from '@/lib/trades';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Progresso das metas e limites de risco do usuário no período (normalmente ?month= corrente)
+// Mesmos filtros de /api/analytics/stats: month ou startDate/endDate, market, symbol, tag, accountIds
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const query = await parseTradesQuery(req, userId);
+    if (query.accountIds.length === 0) {
+      return Response.json({ error: 'No accounts found' }, { status: 404 });
+    }
+    const data = await getGoalProgress(query);
+    return Response.json(data, { status: 200 });
+  } catch (err) {
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[ANALYTICS] Erro em /api/analytics/goals:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
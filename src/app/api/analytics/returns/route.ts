@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { getReportingCurrency } from '@/lib/fx';
+import { getReturns } from '@/lib/returns';
+import { getTradesWhere, TradesQueryError } from '@/lib/trades';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// TWR e XIRR da carteira inteira no período (month ou startDate/endDate, como em /api/trades)
+// Retorno é sobre o patrimônio de todas as contas: filtros de conta, mercado, símbolo e tag não se aplicam
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+
+  try {
+    const { start, end } = await getTradesWhere({
+      month: searchParams.get('month') || '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+    const returns = await getReturns(userId, start, end);
+    return Response.json({
+      currency: await getReportingCurrency(userId),
+      scope: 'portfolio',
+      startDate: start.toISOString().slice(0, 10),
+      endDate: end.toISOString().slice(0, 10),
+      ...returns,
+    }, { status: 200 });
+  } catch (err) {
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[ANALYTICS] Erro em /api/analytics/returns:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { getSlippageAnalysis, isSlippageReference } from '@/lib/analytics/slippage';
+import { parseTradesQuery, TradesQueryError } from '@/lib/trades';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Slippage das ordens a mercado contra a candle de 1m da execução, por símbolo e tipo de ordem
+// ?reference=open|mid (padrão open) e os mesmos filtros de /api/analytics/stats
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const reference = searchParams.get('reference') || 'open';
+  if (!isSlippageReference(reference)) {
+    return Response.json({ error: 'Invalid reference' }, { status: 400 });
+  }
+
+  try {
+    const query = await parseTradesQuery(req, userId);
+    if (query.accountIds.length === 0) {
+      return Response.json({ error: 'No accounts found' }, { status: 404 });
+    }
+    const data = await getSlippageAnalysis({ ...query, reference });
+    return Response.json(data, { status: 200 });
+  } catch (err) {
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[ANALYTICS] Erro em /api/analytics/slippage:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getTradeStats } from '@/lib/analytics/stats';
+import { parseTradesQuery, TradesQueryError } from '@/lib/trades';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Mesmos filtros de /api/trades (month ou startDate/endDate, market, symbol, tag)
+// e ?accountIds=a,b para restringir às contas informadas
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const query = await parseTradesQuery(req, userId);
+    if (query.accountIds.length === 0) {
+      return Response.json({ error: 'No accounts found' }, { status: 404 });
+    }
+    const stats = await getTradeStats(query);
+    return Response.json(stats, { status: 200 });
+  } catch (err) {
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[ANALYTICS] Erro em /api/analytics/stats:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
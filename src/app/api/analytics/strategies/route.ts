@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { getStrategyPerformance } from '@/lib/analytics/strategies';
+import { isTagKind } from '@/lib/journal';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Métricas por tag do diário: ?startDate&endDate&market?&kind?&period=month|week
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  if (!startDate || !endDate) {
+    return Response.json({ error: 'startDate and endDate are required' }, { status: 400 });
+  }
+  const start = new Date(startDate + 'T00:00:00.000Z');
+  const end = new Date(endDate + 'T23:59:59.999Z');
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return Response.json({ error: 'startDate and endDate must be YYYY-MM-DD' }, { status: 400 });
+  }
+  const kind = searchParams.get('kind') || undefined;
+  if (kind !== undefined && !isTagKind(kind)) {
+    return Response.json({ error: 'kind must be setup, strategy or mistake' }, { status: 400 });
+  }
+  const period = searchParams.get('period') || 'month';
+  if (period !== 'month' && period !== 'week') {
+    return Response.json({ error: 'period must be month or week' }, { status: 400 });
+  }
+
+  try {
+    const data = await getStrategyPerformance(userId, {
+      start,
+      end,
+      market: searchParams.get('market') || undefined,
+      kind,
+      period,
+    });
+    return Response.json(data);
+  } catch (error) {
+    console.error('Error computing strategy performance:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,14 +1,8 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
-import crypto from 'crypto';
-import { getProxyUrl, proxyGet } from '@/lib/binanceProxyClient';
-
-// Types for Binance responses
-interface SpotBalanceItem { asset: string; free: string; locked: string }
-interface FuturesAssetItem { asset: string; availableBalance: string; walletBalance: string }
-interface SpotAccountResponse { balances?: SpotBalanceItem[] }
-interface FuturesAccountResponse { assets?: FuturesAssetItem[] }
+import { getCurrentUsdtBrl, getPriceInUSDT } from '@/lib/prices';
+import { fetchBinanceAccountBalance } from '@/lib/sync/binance';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -25,134 +19,6 @@ async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   }
 }
 
-function createSignature(queryString: string, secret: string): string {
-  return crypto.createHmac('sha256', secret).update(queryString).digest('hex');
-}
-
-async function fetchBinanceBalance(apiKey: string, apiSecret: string, market: string): Promise<{ asset: string; free: string; locked: string }[]> {
-  const baseUrl = market === 'FUTURES' 
-    ? 'https://fapi.binance.com' 
-    : 'https://api.binance.com';
-  
-  const endpoint = market === 'FUTURES'
-    ? '/fapi/v2/account'
-    : '/api/v3/account';
-  
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const params: any = {};
-  params.recvWindow = 5000;
-  params.timestamp = Date.now();
-  
-  const queryString = new URLSearchParams(params).toString();
-  const signature = createSignature(queryString, apiSecret);
-  const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-  
-  console.log(`[BALANCE] Calling Binance API: ${market} at ${fullUrl.substring(0, 100)}...`);
-  
-  const response = await fetch(fullUrl, {
-    headers: {
-      'X-MBX-APIKEY': apiKey,
-    },
-  });
-
-  console.log(`[BALANCE] Binance API response status: ${response.status}`);
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Binance API error:', response.status, errorText);
-    throw new Error(`Binance API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log(`[BALANCE] Binance API response data keys:`, Object.keys(data));
-  console.log(`[BALANCE] Market: ${market}, Has balances?`, market === 'FUTURES' ? data.assets?.length : data.balances?.length);
-  
-  if (market === 'FUTURES') {
-    const assets = data.assets?.map((asset: { asset: string; availableBalance: string; walletBalance: string }) => ({
-      asset: asset.asset,
-      free: asset.availableBalance,
-      locked: asset.walletBalance,
-    })) || [];
-    console.log(`[BALANCE] Returning ${assets.length} FUTURES assets`);
-    return assets;
-  } else {
-    const balances = data.balances?.filter((b: { free: string; locked: string }) => 
-      Number(b.free) > 0 || Number(b.locked) > 0
-    ).map((b: { asset: string; free: string; locked: string }) => ({
-      asset: b.asset,
-      free: b.free,
-      locked: b.locked,
-    })) || [];
-    console.log(`[BALANCE] Returning ${balances.length} SPOT balances`);
-    return balances;
-  }
-}
-
-async function getPriceInUSDT(asset: string): Promise<number> {
-  // Se já for USDT, retorna 1
-  if (asset === 'USDT' || asset === 'BUSD') return 1;
-  
-  try {
-    // Buscar preço no mercado spot da Binance
-    const proxyBase = getProxyUrl();
-    const response = await (proxyBase
-      ? fetch(`${proxyBase}/ticker/price?symbol=${asset}USDT`)
-      : fetch(`https://api.binance.com/api/v3/ticker/price?symbol=${asset}USDT`));
-    if (response.ok) {
-      const data = await response.json();
-      return Number(data.price);
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${asset}:`, error);
-  }
-  
-  // Se não encontrar o par direto, tentar outras moedas
-  const alternatives = ['BUSD', 'BRL', 'BTC', 'ETH'];
-  for (const alt of alternatives) {
-    if (asset === alt) continue;
-    try {
-      const proxyBase = getProxyUrl();
-      const response = await (proxyBase
-        ? fetch(`${proxyBase}/ticker/price?symbol=${asset}${alt}`)
-        : fetch(`https://api.binance.com/api/v3/ticker/price?symbol=${asset}${alt}`));
-      if (response.ok) {
-        const data = await response.json();
-        const price = Number(data.price);
-        
-        // Se encontrou via BUSD/BRL, precisamos converter para USDT
-        if (alt === 'BUSD') return price; // BUSD ~= USDT
-        if (alt === 'BRL') {
-          // Buscar cotação BRL/USDT
-          const brlUsdt = await (getProxyUrl()
-            ? fetch(`${getProxyUrl()}/ticker/price?symbol=USDTBRL`)
-            : fetch('https://api.binance.com/api/v3/ticker/price?symbol=USDTBRL'))
-            .then(r => r.json())
-            .then(d => 1 / Number(d.price))
-            .catch(() => 0.19); // Fallback
-          return price * brlUsdt;
-        }
-        
-        // Para BTC/ETH, buscar suas cotações em USDT
-        if (alt === 'BTC' || alt === 'ETH') {
-          const altUsdt = await (getProxyUrl()
-            ? fetch(`${getProxyUrl()}/ticker/price?symbol=${alt}USDT`)
-            : fetch(`https://api.binance.com/api/v3/ticker/price?symbol=${alt}USDT`))
-            .then(r => r.json())
-            .then(d => Number(d.price))
-            .catch(() => 0);
-          return price * altUsdt;
-        }
-        
-        return price;
-      }
-    } catch (error) {
-      console.error(`Error fetching price for ${asset}${alt}:`, error);
-    }
-  }
-  
-  return 0;
-}
-
 export async function GET(req: NextRequest) {
   const userId = await getUserIdFromToken(req);
   if (!userId) {
@@ -175,42 +41,17 @@ export async function GET(req: NextRequest) {
     // Buscar saldo de todas as contas
     const allBalances: { asset: string; total: number }[] = [];
     
-    const proxyBase = getProxyUrl();
     const authHeader = req.headers.get('authorization') || undefined;
 
     for (const account of accounts) {
       try {
         console.log(`[BALANCE] Processing account: ${account.name}`);
 
-        let balances: { asset: string; free: string; locked: string }[] = [];
-
-        if (proxyBase && authHeader) {
-          // Usar proxy local
-          const res = await proxyGet<{ ok: boolean; data: SpotAccountResponse | FuturesAccountResponse }>(
-            `/account?market=${encodeURIComponent(account.market)}&accountId=${encodeURIComponent(account.id)}`,
-            authHeader
-          );
-          const data = res.data;
-          if (account.market === 'FUTURES') {
-            const assets = (data as FuturesAccountResponse).assets || [];
-            balances = assets.map((a: FuturesAssetItem) => ({
-              asset: a.asset,
-              free: a.availableBalance,
-              locked: a.walletBalance,
-            }));
-          } else {
-            const spotBalances = (data as SpotAccountResponse).balances || [];
-            balances = spotBalances
-              .filter((b: SpotBalanceItem) => Number(b.free) > 0 || Number(b.locked) > 0)
-              .map((b: SpotBalanceItem) => ({ asset: b.asset, free: b.free, locked: b.locked }));
-          }
-        } else {
-          // Caminho antigo (chamada direta)
-          const apiKey = await decrypt(account.apiKeyEnc);
-          const apiSecret = await decrypt(account.apiSecretEnc);
-          const direct = await fetchBinanceBalance(apiKey, apiSecret, account.market);
-          balances = direct;
-        }
+        const credentials = {
+          apiKey: await decrypt(account.apiKeyEnc),
+          apiSecret: await decrypt(account.apiSecretEnc),
+        };
+        const balances = await fetchBinanceAccountBalance(credentials, account.market, authHeader, account.id);
 
         console.log(`[BALANCE] Fetched ${balances.length} assets for ${account.name}`);
         
@@ -238,7 +79,7 @@ export async function GET(req: NextRequest) {
         ok: true, 
         balance: '0',
         balanceUSDT: '0',
-        exchangeRate: '5.37',
+        exchangeRate: null,
         assets: [],
         accounts: accounts.map(acc => ({ id: acc.id, name: acc.name })),
         debug: {
@@ -249,16 +90,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Buscar cotação USDT/BRL
-    let brlPerUsdt = 5.37; // Fallback
-    try {
-      const usdtBrlResponse = await fetch('https://api.binance.com/api/v3/ticker/price?symbol=USDTBRL');
-      if (usdtBrlResponse.ok) {
-        const data = await usdtBrlResponse.json();
-        brlPerUsdt = Number(data.price);
-      }
-    } catch (error) {
-      console.error('Error fetching USDT/BRL price:', error);
-    }
+    const brlPerUsdt = await getCurrentUsdtBrl();
 
     // Calcular valor total em USDT para cada ativo e depois em BRL
     let totalUSDT = 0;
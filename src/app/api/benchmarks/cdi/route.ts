@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { importCdiRates, parseCdiCsv, syncCdiRates } from '@/lib/cdi';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Cobertura da tabela de CDI
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const [count, first, last] = await Promise.all([
+    prisma.cdiRate.count(),
+    prisma.cdiRate.findFirst({ orderBy: { date: 'asc' }, select: { date: true } }),
+    prisma.cdiRate.findFirst({ orderBy: { date: 'desc' }, select: { date: true, rate: true } }),
+  ]);
+  return Response.json({
+    count,
+    firstDate: first?.date.toISOString().slice(0, 10) ?? null,
+    lastDate: last?.date.toISOString().slice(0, 10) ?? null,
+    lastRate: last ? last.rate.toString() : null,
+  });
+}
+
+// JSON { startDate, endDate } busca o período na série 12 do SGS;
+// multipart com `file` (CSV data;valor) importa as taxas. CdiRate é uma tabela global,
+// então a importação só é aceita com o segredo do cron (admin), nunca com token de usuário
+export async function POST(req: NextRequest) {
+  const isMultipart = req.headers.get('content-type')?.includes('multipart/form-data');
+  if (isMultipart) {
+    const cronSecret = process.env.VERCEL_CRON_SECRET;
+    if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return Response.json({ error: 'Forbidden' }, { status: 403 });
+    }
+  } else {
+    const userId = await getUserIdFromToken(req);
+    if (!userId) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    if (isMultipart) {
+      const form = await req.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return Response.json({ error: 'file is required' }, { status: 400 });
+      }
+      const rows = parseCdiCsv(await file.text());
+      if (rows.length === 0) {
+        return Response.json({ error: 'No CDI rates found in file' }, { status: 400 });
+      }
+      const imported = await importCdiRates(rows);
+      return Response.json({ ok: true, imported });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    if (!body.startDate || !body.endDate) {
+      return Response.json({ error: 'startDate and endDate are required' }, { status: 400 });
+    }
+    const start = new Date(body.startDate + 'T00:00:00.000Z');
+    const end = new Date(body.endDate + 'T23:59:59.999Z');
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) {
+      return Response.json({ error: 'Invalid startDate or endDate' }, { status: 400 });
+    }
+    const inserted = await syncCdiRates(start, new Date(Math.min(end.getTime(), Date.now())));
+    return Response.json({ ok: true, inserted });
+  } catch (error) {
+    console.error('Error importing CDI rates:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
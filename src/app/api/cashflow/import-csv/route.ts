@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createJobId, setProgress } from '@/lib/sync/progress';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -181,6 +182,11 @@ export async function POST(request: Request) {
         }
       }
 
+      // Depósitos/saques importados mudam os saldos iniciais calculados
+      if (inserted > 0 || updated > 0) {
+        await invalidateMonthlyBalances(accountId);
+      }
+
       await setProgress(jobId, {
         jobId,
         userId,
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { monthRange } from '@/lib/format';
+import { resolveAssets } from '@/lib/symbolInfo';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -81,9 +82,11 @@ export async function GET(req: NextRequest) {
   };
 
   const trades = await prisma.trade.findMany({ where, orderBy: { executedAt: 'asc' } });
+  // price e realizedPnl estão na moeda de cotação do par
+  const assetsBySymbol = await resolveAssets(trades.map(t => t.symbol), market || 'SPOT');
 
   const headers = [
-    'executedAt','exchange','market','symbol','side','qty','price','feeValue','feeAsset','feePct','realizedPnl','orderId','tradeId'
+    'executedAt','exchange','market','symbol','baseAsset','quoteAsset','side','qty','price','feeValue','feeAsset','feePct','realizedPnl','orderId','tradeId'
   ];
 
   const lines: string[] = [];
@@ -95,6 +98,8 @@ export async function GET(req: NextRequest) {
         t.exchange,
         t.market,
         t.symbol,
+        assetsBySymbol.get(t.symbol)?.baseAsset,
+        assetsBySymbol.get(t.symbol)?.quoteAsset,
         t.side,
         String(t.qty),
         String(t.price),
@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server';
 export const runtime = 'nodejs';
 import { prisma } from '@/lib/prisma';
 import { monthRange } from '@/lib/format';
+import { resolveAssets, USD_STABLECOINS } from '@/lib/symbolInfo';
+import { getReturns, ReturnsResult } from '@/lib/returns';
 // no Prisma.Decimal in this route; use native numbers
 
 // pdfkit import será lazy para evitar puxar dependências pesadas no build
@@ -79,9 +81,14 @@ export async function GET(req: NextRequest) {
   const toNum = (v: unknown) => Number(v ?? 0);
   let pnl = 0;
   let fees = 0;
+  // PnL fica na moeda de cotação do par (ETHBTC realiza em BTC, BTCBRL em BRL...)
+  const assetsBySymbol = await resolveAssets(trades.map(t => t.symbol), market || 'SPOT');
+  const pnlByQuote = new Map<string, number>();
   for (const t of trades) {
     pnl += toNum(t.realizedPnl);
     fees += toNum(t.feeValue);
+    const quote = assetsBySymbol.get(t.symbol)!.quoteAsset;
+    pnlByQuote.set(quote, (pnlByQuote.get(quote) || 0) + toNum(t.realizedPnl));
   }
   const tradesCount = trades.length;
 
@@ -107,6 +114,16 @@ export async function GET(req: NextRequest) {
   }
   const roi = bankroll === 0 ? 0 : pnl / bankroll;
 
+  // Rentabilidade descontando depósitos/saques do período
+  let returns: ReturnsResult | null = null;
+  try {
+    returns = await getReturns(userId, start, end);
+  } catch (error) {
+    console.error('Erro ao calcular TWR/XIRR do relatório:', error);
+  }
+  const fmtPct = (value: number | null | undefined) =>
+    value === null || value === undefined ? 'N/D' : `${(value * 100).toFixed(2)}%`;
+
   // Build PDF (dynamic import to avoid bundling issues with Turbopack)
   const pdfkitModule = await import('pdfkit');
   const PDFDocument = pdfkitModule.default || pdfkitModule;
@@ -130,14 +147,22 @@ export async function GET(req: NextRequest) {
   doc.moveDown(0.5);
   doc.fontSize(12);
   doc.text(`PnL do mês: ${pnl.toFixed(2)}`);
+  if (pnlByQuote.size > 1) {
+    for (const [quote, value] of pnlByQuote.entries()) {
+      doc.text(`  em ${quote}: ${value.toFixed(USD_STABLECOINS.includes(quote) || quote === 'BRL' ? 2 : 8)}`);
+    }
+  }
   doc.text(`Taxas totais: ${fees.toFixed(2)}`);
   doc.text(`Trades: ${tradesCount}`);
   doc.text(`ROI (aprox.): ${(roi * 100).toFixed(2)}%`);
+  doc.text(`Rentabilidade (TWR): ${fmtPct(returns?.twr)}`);
+  doc.text(`Retorno ponderado pelo capital (IRR): ${fmtPct(returns?.irr)} no período, ${fmtPct(returns?.xirr)} ao ano`);
   doc.moveDown();
 
   doc.fontSize(14).text('Observações');
   doc.fontSize(10);
   doc.text('• ROI usa caixa acumulada por Cashflow (depósitos - saques) até o fim do mês.');
+  doc.text('• TWR encadeia o patrimônio entre as datas de depósito/saque; use-o para comparar períodos com capital diferente.');
   doc.text('• Relatório não considera marcação a mercado; apenas realizedPnl.');
 
   doc.end();
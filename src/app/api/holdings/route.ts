@@ -0,0 +1,128 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getCurrentUsdtBrl, getPriceInUSDT } from '@/lib/prices';
+import { USD_STABLECOINS } from '@/lib/symbolInfo';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+interface Holding {
+  accountId: string;
+  accountName: string;
+  asset: string;
+  qty: number;
+  costUSDT: number;
+  lots: number;
+  firstAcquiredAt: Date;
+}
+
+// Posições SPOT em aberto (lotes persistidos) com valor atual e PnL não realizado
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const lots = await prisma.lot.findMany({
+      where: { account: { userId } },
+      include: { account: { select: { name: true } } },
+      orderBy: { acquiredAt: 'asc' },
+    });
+
+    // Cotação USDT/BRL
+    const brlPerUsdt = await getCurrentUsdtBrl();
+
+    // Cache de preços em USDT por ativo (cada ativo consultado uma vez)
+    const pricesUSDT = new Map<string, number>();
+    const priceOf = async (asset: string): Promise<number> => {
+      if (USD_STABLECOINS.includes(asset)) return 1;
+      if (asset === 'BRL') return 1 / brlPerUsdt;
+      if (!pricesUSDT.has(asset)) {
+        pricesUSDT.set(asset, await getPriceInUSDT(asset));
+      }
+      return pricesUSDT.get(asset)!;
+    };
+
+    // Agrupar lotes por conta + ativo, com custo convertido para USDT
+    const holdings = new Map<string, Holding>();
+    for (const lot of lots) {
+      const key = `${lot.accountId}_${lot.asset}`;
+      const qty = Number(lot.qty);
+      const costUSDT = qty * Number(lot.costPrice) * await priceOf(lot.quoteAsset);
+      const existing = holdings.get(key);
+      if (existing) {
+        existing.qty += qty;
+        existing.costUSDT += costUSDT;
+        existing.lots++;
+      } else {
+        holdings.set(key, {
+          accountId: lot.accountId,
+          accountName: lot.account.name,
+          asset: lot.asset,
+          qty,
+          costUSDT,
+          lots: 1,
+          firstAcquiredAt: lot.acquiredAt,
+        });
+      }
+    }
+
+    const rows = [];
+    let totalCostUSDT = 0;
+    let totalValueUSDT = 0;
+    for (const h of holdings.values()) {
+      const priceUSDT = await priceOf(h.asset);
+      const valueUSDT = h.qty * priceUSDT;
+      const unrealizedUSDT = valueUSDT - h.costUSDT;
+      totalCostUSDT += h.costUSDT;
+      totalValueUSDT += valueUSDT;
+      rows.push({
+        accountId: h.accountId,
+        accountName: h.accountName,
+        asset: h.asset,
+        qty: h.qty.toString(),
+        avgCostUSDT: (h.qty > 0 ? h.costUSDT / h.qty : 0).toString(),
+        costUSDT: h.costUSDT.toString(),
+        priceUSDT: priceUSDT.toString(),
+        valueUSDT: valueUSDT.toString(),
+        valueBRL: (valueUSDT * brlPerUsdt).toString(),
+        unrealizedPnlUSDT: unrealizedUSDT.toString(),
+        unrealizedPnlBRL: (unrealizedUSDT * brlPerUsdt).toString(),
+        unrealizedPnlPct: h.costUSDT > 0 ? ((unrealizedUSDT / h.costUSDT) * 100).toString() : null,
+        lots: h.lots,
+        firstAcquiredAt: h.firstAcquiredAt.toISOString(),
+      });
+    }
+
+    rows.sort((a, b) => Number(b.valueUSDT) - Number(a.valueUSDT));
+
+    return Response.json({
+      ok: true,
+      exchangeRate: brlPerUsdt.toFixed(2),
+      rows,
+      totals: {
+        costUSDT: totalCostUSDT.toString(),
+        valueUSDT: totalValueUSDT.toString(),
+        valueBRL: (totalValueUSDT * brlPerUsdt).toString(),
+        unrealizedPnlUSDT: (totalValueUSDT - totalCostUSDT).toString(),
+        unrealizedPnlBRL: ((totalValueUSDT - totalCostUSDT) * brlPerUsdt).toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching holdings:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
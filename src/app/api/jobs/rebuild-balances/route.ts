@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server';
+import { createJobId, setProgress } from '@/lib/sync/progress';
+import { rebuildMonthlyBalances } from '@/lib/monthlyBalance';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Reconstrói o saldo inicial de cada mês (saldos manuais são mantidos)
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdFromToken(req);
+    if (!userId) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const fromMonth: string | undefined = body.fromMonth;
+    if (fromMonth && !/^\d{4}-\d{2}$/.test(fromMonth)) {
+      return Response.json({ error: 'fromMonth must be YYYY-MM' }, { status: 400 });
+    }
+
+    const jobId = createJobId(userId);
+
+    await setProgress(jobId, {
+      jobId,
+      userId,
+      totalSteps: 0,
+      currentStep: 0,
+      status: 'running',
+      message: 'Reconstruindo saldos iniciais mensais...'
+    });
+
+    (async () => {
+      const result = await rebuildMonthlyBalances(userId, {
+        fromMonth,
+        onProgress: async (done, total, month) => {
+          await setProgress(jobId, {
+            jobId,
+            userId,
+            totalSteps: total,
+            currentStep: done,
+            status: 'running',
+            message: `Calculando saldo inicial de ${month} (${done + 1} de ${total})...`
+          });
+        },
+      });
+
+      const total = result.calculated + result.skippedManual + result.failed;
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: total,
+        currentStep: total,
+        status: 'completed',
+        message: `Saldos reconstruídos! ${result.calculated} calculados, ${result.skippedManual} manuais mantidos`
+          + (result.failed > 0 ? `, ${result.failed} sem preço histórico` : ''),
+        result: { inserted: 0, updated: result.calculated }
+      });
+    })().catch(error => {
+      console.error('Error rebuilding monthly balances:', error);
+      setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: 0,
+        currentStep: 0,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    return Response.json({
+      ok: true,
+      message: 'Reconstrução de saldos iniciada',
+      jobId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error rebuilding monthly balances:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createJobId, setProgress } from '@/lib/sync/progress';
+import { recalculateAccountPnl } from '@/lib/pnl/costBasis';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -100,93 +101,25 @@ export async function POST(req: NextRequest) {
         message: `Iniciando recálculo de PnL para ${totalTrades} trades...`
       });
 
-      // Para cada conta, recalcular PnL
+      // Para cada conta, recalcular PnL (mesmo cálculo usado na sincronização)
       for (const accountId of accountIds) {
-        const where: {
-          accountId: string;
-          executedAt?: {
-            gte: Date;
-            lte: Date;
-          };
-        } = { accountId };
-        if (startDate && endDate) {
-          where.executedAt = {
-            gte: new Date(startDate + 'T00:00:00.000Z'),
-            lte: new Date(endDate + 'T23:59:59.999Z')
-          };
-        }
-
-        // Buscar todos os trades da conta, ordenados por data (mais antigo primeiro)
-        const allTrades = await prisma.trade.findMany({
-          where,
-          orderBy: { executedAt: 'asc' }
-        });
-
-        // Criar mapa de posições (compras) por símbolo
-        const positions = new Map<string, Array<{ qty: number; price: number; tradeId: string }>>();
-
-        for (const trade of allTrades) {
-          totalProcessed++;
-          
-          await setProgress(jobId, {
-            jobId,
-            userId,
-            totalSteps: totalTrades,
-            currentStep: totalProcessed,
-            status: 'running',
-            message: `Processando trade ${totalProcessed} de ${totalTrades}...`
-          });
-
-          const symbol = trade.symbol;
-          const qty = Number(trade.qty);
-          const price = Number(trade.price);
-          const side = trade.side;
-
-          if (!positions.has(symbol)) {
-            positions.set(symbol, []);
-          }
-          const symbolPositions = positions.get(symbol)!;
-
-          if (side === 'BUY') {
-            // Adicionar compra às posições
-            symbolPositions.push({
-              qty,
-              price,
-              tradeId: trade.id
+        const processedBefore = totalProcessed;
+        const result = await recalculateAccountPnl(accountId, {
+          from: startDate && endDate ? new Date(startDate + 'T00:00:00.000Z') : undefined,
+          to: startDate && endDate ? new Date(endDate + 'T23:59:59.999Z') : undefined,
+          onProgress: async (processed) => {
+            totalProcessed = processedBefore + processed;
+            await setProgress(jobId, {
+              jobId,
+              userId,
+              totalSteps: totalTrades,
+              currentStep: totalProcessed,
+              status: 'running',
+              message: `Processando trade ${totalProcessed} de ${totalTrades}...`
             });
-          } else if (side === 'SELL' && qty > 0 && price > 0) {
-            // Calcular PnL usando FIFO
-            let remainingQty = qty;
-            let totalPnL = 0;
-
-            // Processar do início ao fim (primeira compra primeiro)
-            for (let i = 0; i < symbolPositions.length && remainingQty > 0; i++) {
-              const pos = symbolPositions[i];
-              if (pos.qty > 0) {
-                const qtyToUse = Math.min(pos.qty, remainingQty);
-                const pnl = (price - pos.price) * qtyToUse;
-                totalPnL += pnl;
-
-                pos.qty -= qtyToUse;
-                remainingQty -= qtyToUse;
-
-                if (pos.qty <= 0) {
-                  symbolPositions.splice(i, 1);
-                  i--; // Ajustar índice após remover elemento
-                }
-              }
-            }
-
-            // Atualizar o PnL do trade
-            if (totalPnL !== Number(trade.realizedPnl)) {
-              await prisma.trade.update({
-                where: { id: trade.id },
-                data: { realizedPnl: totalPnL.toString() }
-              });
-              totalUpdated++;
-            }
-          }
-        }
+          },
+        });
+        totalUpdated += result.updated;
       }
 
       await setProgress(jobId, {
@@ -0,0 +1,122 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createJobId, setProgress } from '@/lib/sync/progress';
+import { backfillAccountSnapshots, takeAccountSnapshot } from '@/lib/snapshots';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Cron diário: snapshot do saldo atual de todas as contas
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.VERCEL_CRON_SECRET;
+  if (cronSecret && req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const accounts = await prisma.binanceAccount.findMany({});
+  const results = [] as { accountId: string; ok: boolean; error?: string }[];
+  for (const acc of accounts) {
+    try {
+      const ok = await takeAccountSnapshot(acc);
+      results.push({ accountId: acc.id, ok });
+    } catch (error) {
+      console.error(`[SNAPSHOTS] Erro na conta ${acc.id}:`, error);
+      results.push({ accountId: acc.id, ok: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return Response.json({ ok: true, results, timestamp: new Date().toISOString() });
+}
+
+// Usuário: importa os últimos 30 dias da Binance e grava o snapshot de hoje
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdFromToken(req);
+    if (!userId) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accounts = await prisma.binanceAccount.findMany({ where: { userId } });
+    const authHeader = req.headers.get('authorization') || undefined;
+    const jobId = createJobId(userId);
+
+    await setProgress(jobId, {
+      jobId,
+      userId,
+      totalSteps: accounts.length,
+      currentStep: 0,
+      status: 'running',
+      message: 'Importando snapshots de patrimônio...'
+    });
+
+    (async () => {
+      let created = 0;
+      const errors: string[] = [];
+      for (let i = 0; i < accounts.length; i++) {
+        const acc = accounts[i];
+        await setProgress(jobId, {
+          jobId,
+          userId,
+          totalSteps: accounts.length,
+          currentStep: i,
+          status: 'running',
+          message: `Importando snapshots da conta ${acc.name} (${i + 1} de ${accounts.length})...`
+        });
+        try {
+          if (await takeAccountSnapshot(acc, authHeader)) created++;
+          created += await backfillAccountSnapshots(acc);
+        } catch (error) {
+          console.error(`[SNAPSHOTS] Erro na conta ${acc.id}:`, error);
+          errors.push(`${acc.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: accounts.length,
+        currentStep: accounts.length,
+        status: 'completed',
+        message: `Snapshots atualizados! ${created} dias gravados`
+          + (errors.length > 0 ? ` (${errors.length} contas com erro)` : ''),
+        result: { inserted: created, updated: 0 },
+        error: errors.length > 0 ? errors.join('; ') : undefined
+      });
+    })().catch(error => {
+      console.error('Error importing account snapshots:', error);
+      setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: 0,
+        currentStep: 0,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    return Response.json({
+      ok: true,
+      message: 'Importação de snapshots iniciada',
+      jobId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error importing account snapshots:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,10 @@
 import { prisma } from '@/lib/prisma';
 import { syncAccount } from '@/lib/sync/binance';
+import { discoverAccountSymbols } from '@/lib/sync/symbols';
 import { createJobId, setProgress } from '@/lib/sync/progress';
+import { syncFuturesIncome } from '@/lib/sync/income';
+import { syncOrders } from '@/lib/sync/orders';
+import { convertAccountToReportingCurrency } from '@/lib/fx';
 
 async function getUserIdFromToken(authHeader: string | null): Promise<string | null> {
   if (!authHeader?.startsWith('Bearer ')) return null;
@@ -23,7 +27,10 @@ export async function POST(request: Request) {
     const body = await request.json().catch(() => ({}));
     const startDate = body.startDate || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
     const endDate = body.endDate || new Date().toISOString().split('T')[0];
-    const symbols = body.symbols || ['BTCBRL', 'ETHBRL', 'BNBBRL'];
+    // Sem símbolos no body (ex.: cron), cada conta usa seus pares descobertos automaticamente
+    const symbols: string[] | undefined = Array.isArray(body.symbols) && body.symbols.length > 0 ? body.symbols : undefined;
+    // backfill: true força a descoberta de pares (por padrão roda no primeiro sync e depois uma vez por dia)
+    const backfill = body.backfill === true;
     
     // Tentar autenticação por usuário primeiro
     const authHeader = request.headers.get('authorization');
@@ -64,23 +71,48 @@ export async function POST(request: Request) {
     
     // Iniciar sincronização de forma assíncrona
     (async () => {
-      const results = [] as { accountId: string; name: string; inserted: number; updated: number; error?: string }[];
+      const results = [] as { accountId: string; name: string; inserted: number; updated: number; incomeInserted?: number; error?: string }[];
       
       for (const acc of accounts) {
         try {
+          // Pares descobertos (a descoberta chama a API no primeiro sync, uma vez por dia ou em backfill)
+          const accountSymbols = symbols ?? await discoverAccountSymbols(acc.id, authHeader || undefined, { force: backfill });
           const r = await syncAccount(
             { id: acc.id, market: acc.market }, 
             startDate, 
             endDate, 
-            symbols, 
+            accountSymbols, 
             request.headers.get('authorization') || undefined,
             jobId,
             userId || undefined
           );
+          // Ordens (tipo real, stop/TP, canceladas) e vínculo com os trades
+          try {
+            await syncOrders({ id: acc.id, market: acc.market }, accountSymbols, startDate, endDate, jobId, userId || undefined);
+          } catch (error) {
+            console.error(`[SYNC-ALL] Erro ao sincronizar ordens da conta ${acc.name}:`, error);
+          }
+
+          // Futuros: funding, comissões e demais tipos de income não vêm em userTrades
+          let incomeInserted: number | undefined;
+          if (acc.market === 'FUTURES') {
+            try {
+              const income = await syncFuturesIncome({ id: acc.id }, startDate, endDate, jobId, userId || undefined);
+              incomeInserted = income.inserted;
+              // Income novo também vai para a moeda de relatório
+              await convertAccountToReportingCurrency(acc.id, {
+                from: new Date(startDate + 'T00:00:00.000Z'),
+                to: new Date(endDate + 'T23:59:59.999Z'),
+              });
+            } catch (error) {
+              console.error(`[SYNC-ALL] Erro ao sincronizar income da conta ${acc.name}:`, error);
+            }
+          }
           results.push({ 
             accountId: acc.id, 
             name: acc.name,
-            ...r 
+            ...r,
+            incomeInserted
           });
         } catch (error) {
           results.push({ 
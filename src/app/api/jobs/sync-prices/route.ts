@@ -0,0 +1,179 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createJobId, setProgress } from '@/lib/sync/progress';
+import { HOURLY_HISTORY_MS, syncPriceCandles } from '@/lib/prices';
+import { syncFxRates } from '@/lib/fx';
+import { syncCdiRates } from '@/lib/cdi';
+import { isListedSymbol, resolveAssets, USD_STABLECOINS } from '@/lib/symbolInfo';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Par contra USDT usado para precificar o ativo (direto ou invertido, ex.: USDTBRL)
+async function usdtPairFor(asset: string): Promise<string | null> {
+  if (await isListedSymbol(`${asset}USDT`)) return `${asset}USDT`;
+  if (await isListedSymbol(`USDT${asset}`)) return `USDT${asset}`;
+  return null;
+}
+
+// Preenche candles diárias (todo o histórico) e horárias (últimos 90 dias)
+// dos ativos negociados, em carteira ou movimentados pelo usuário, o câmbio diário
+// e os benchmarks (BTC e CDI)
+export async function POST(req: NextRequest) {
+  try {
+    const userId = await getUserIdFromToken(req);
+    if (!userId) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    const accounts = await prisma.binanceAccount.findMany({
+      where: { userId },
+      select: { id: true }
+    });
+
+    if (accounts.length === 0) {
+      return Response.json({ error: 'No accounts found' }, { status: 404 });
+    }
+
+    const accountIds = accounts.map(acc => acc.id);
+    const jobId = createJobId(userId);
+
+    await setProgress(jobId, {
+      jobId,
+      userId,
+      totalSteps: 0,
+      currentStep: 0,
+      status: 'running',
+      message: 'Levantando ativos para buscar preços...'
+    });
+
+    (async () => {
+      const [tradedSymbols, lots, cashflowAssets, firstTrade, firstCashflow] = await Promise.all([
+        prisma.trade.findMany({ where: { accountId: { in: accountIds }, market: 'SPOT' }, select: { symbol: true }, distinct: ['symbol'] }),
+        prisma.lot.findMany({ where: { accountId: { in: accountIds } }, select: { asset: true }, distinct: ['asset'] }),
+        prisma.cashflow.findMany({ where: { accountId: { in: accountIds } }, select: { asset: true }, distinct: ['asset'] }),
+        prisma.trade.findFirst({ where: { accountId: { in: accountIds } }, orderBy: { executedAt: 'asc' }, select: { executedAt: true } }),
+        prisma.cashflow.findFirst({ where: { accountId: { in: accountIds } }, orderBy: { at: 'asc' }, select: { at: true } }),
+      ]);
+
+      const assets = new Set<string>(['BRL', 'BTC']); // BRL sempre: conversões para reais; BTC: benchmark
+      for (const { baseAsset, quoteAsset } of (await resolveAssets(tradedSymbols.map(t => t.symbol))).values()) {
+        assets.add(baseAsset);
+        assets.add(quoteAsset);
+      }
+      for (const lot of lots) assets.add(lot.asset);
+      for (const cf of cashflowAssets) assets.add(cf.asset.toUpperCase());
+
+      const symbols: string[] = [];
+      for (const asset of assets) {
+        if (USD_STABLECOINS.includes(asset)) continue;
+        const symbol = await usdtPairFor(asset);
+        if (symbol) {
+          symbols.push(symbol);
+        } else {
+          console.warn(`[PRICES] Sem par USDT para ${asset}, ignorando`);
+        }
+      }
+
+      const end = new Date();
+      const firstDates = [firstTrade?.executedAt, firstCashflow?.at].filter((d): d is Date => !!d);
+      const start = body.startDate
+        ? new Date(body.startDate + 'T00:00:00.000Z')
+        : firstDates.length > 0
+          ? new Date(Math.min(...firstDates.map(d => d.getTime())))
+          : new Date(end.getTime() - HOURLY_HISTORY_MS);
+      const hourlyStart = new Date(Math.max(start.getTime(), end.getTime() - HOURLY_HISTORY_MS));
+
+      let inserted = 0;
+      for (let i = 0; i < symbols.length; i++) {
+        const symbol = symbols[i];
+        await setProgress(jobId, {
+          jobId,
+          userId,
+          totalSteps: symbols.length,
+          currentStep: i,
+          currentSymbol: symbol,
+          status: 'running',
+          message: `Buscando preços de ${symbol} (${i + 1} de ${symbols.length})...`
+        });
+        try {
+          inserted += await syncPriceCandles(symbol, '1d', start, end);
+          inserted += await syncPriceCandles(symbol, '1h', hourlyStart, end);
+        } catch (error) {
+          console.error(`[PRICES] Erro ao buscar candles de ${symbol}:`, error);
+        }
+      }
+
+      // Câmbio diário para a moeda de relatório (USDT/BRL da Binance, USD/BRL da PTAX)
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: symbols.length,
+        currentStep: symbols.length,
+        status: 'running',
+        message: 'Atualizando câmbio USDT/BRL e USD/BRL e CDI...'
+      });
+      for (const pair of ['USDTBRL', 'USDBRL'] as const) {
+        try {
+          inserted += await syncFxRates(pair, start, end);
+        } catch (error) {
+          console.error(`[FX] Erro ao atualizar ${pair}:`, error);
+        }
+      }
+
+      // CDI diário (benchmark de renda fixa)
+      try {
+        inserted += await syncCdiRates(start, end);
+      } catch (error) {
+        console.error('[CDI] Erro ao atualizar CDI:', error);
+      }
+
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: symbols.length,
+        currentStep: symbols.length,
+        status: 'completed',
+        message: `Preços atualizados! ${inserted} candles gravadas para ${symbols.length} pares`,
+        result: { inserted, updated: 0 }
+      });
+    })().catch(error => {
+      console.error('Error syncing prices:', error);
+      setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: 0,
+        currentStep: 0,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    });
+
+    return Response.json({
+      ok: true,
+      message: 'Sincronização de preços iniciada',
+      jobId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error syncing prices:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -55,7 +55,8 @@ export async function GET(req: NextRequest) {
     currentDate: progress.currentDate,
     message: progress.message,
     result: progress.result,
-    error: progress.error
+    error: progress.error,
+    pagesBySymbol: progress.pagesBySymbol
   });
 }
 
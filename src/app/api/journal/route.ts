@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server';
+import { deleteJournalEntry, getJournalEntry, JournalError, saveJournalEntry } from '@/lib/journal';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof JournalError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Journal error:', error);
+  return Response.json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// Entrada do diário de uma ordem (?accountId&orderId) ou posição (?accountId&positionId)
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const accountId = searchParams.get('accountId');
+  if (!accountId) {
+    return Response.json({ error: 'accountId is required' }, { status: 400 });
+  }
+
+  try {
+    const entry = await getJournalEntry(userId, {
+      accountId,
+      orderId: searchParams.get('orderId') || undefined,
+      positionId: searchParams.get('positionId') || undefined,
+    });
+    return Response.json({ entry });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Cria/atualiza a entrada: { accountId, orderId | positionId, symbol?, notes?, emotion?, tags? }
+export async function PUT(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body?.accountId) {
+    return Response.json({ error: 'accountId is required' }, { status: 400 });
+  }
+  if (body.tags !== undefined && (!Array.isArray(body.tags) || body.tags.some((t: unknown) => typeof t !== 'string'))) {
+    return Response.json({ error: 'tags must be an array of names' }, { status: 400 });
+  }
+  if (body.notes != null && typeof body.notes !== 'string') {
+    return Response.json({ error: 'notes must be a string' }, { status: 400 });
+  }
+
+  try {
+    const entry = await saveJournalEntry(userId, {
+      accountId: body.accountId,
+      orderId: body.orderId,
+      positionId: body.positionId,
+      symbol: body.symbol,
+      notes: body.notes,
+      emotion: body.emotion === '' || body.emotion == null ? null : Number(body.emotion),
+      tags: body.tags,
+    });
+    return Response.json({ entry });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return Response.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    await deleteJournalEntry(userId, id);
+    return Response.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { JournalError, readScreenshot } from '@/lib/journal';
+
+export const runtime = 'nodejs';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Arquivo do screenshot (só do próprio usuário)
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ name: string }> }
+) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { name } = await context.params;
+  try {
+    const { data, contentType } = await readScreenshot(userId, name);
+    return new Response(new Uint8Array(data), {
+      status: 200,
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    if (error instanceof JournalError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading screenshot:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
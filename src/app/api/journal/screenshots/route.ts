@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { addScreenshot, JournalError, removeScreenshot } from '@/lib/journal';
+
+export const runtime = 'nodejs';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof JournalError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Journal screenshot error:', error);
+  return Response.json({
+    error: 'Internal server error',
+    message: error instanceof Error ? error.message : 'Unknown error'
+  }, { status: 500 });
+}
+
+// Upload (multipart: entryId + file) de um screenshot para a entrada do diário
+export async function POST(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const form = await req.formData().catch(() => null);
+  const entryId = form?.get('entryId');
+  const file = form?.get('file');
+  if (typeof entryId !== 'string' || !(file instanceof File)) {
+    return Response.json({ error: 'entryId and file are required' }, { status: 400 });
+  }
+
+  try {
+    const name = await addScreenshot(userId, entryId, file);
+    return Response.json({ name });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const entryId = searchParams.get('entryId');
+  const name = searchParams.get('name');
+  if (!entryId || !name) {
+    return Response.json({ error: 'entryId and name are required' }, { status: 400 });
+  }
+
+  try {
+    await removeScreenshot(userId, entryId, name);
+    return Response.json({ ok: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isTagKind } from '@/lib/journal';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Tags do usuário com a quantidade de entradas do diário que usam cada uma
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const tags = await prisma.tag.findMany({
+    where: { userId },
+    orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+    include: { _count: { select: { entries: true } } },
+  });
+
+  return Response.json({
+    tags: tags.map(t => ({ id: t.id, name: t.name, kind: t.kind, color: t.color, entries: t._count.entries })),
+  });
+}
+
+// Cria ou atualiza uma tag: { name, kind?, color? }
+export async function PUT(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return Response.json({ error: 'name is required' }, { status: 400 });
+  }
+  if (body.kind !== undefined && !isTagKind(body.kind)) {
+    return Response.json({ error: 'kind must be setup, strategy or mistake' }, { status: 400 });
+  }
+
+  const data = {
+    ...(body.kind ? { kind: body.kind } : {}),
+    ...(body.color !== undefined ? { color: body.color || null } : {}),
+  };
+  const tag = await prisma.tag.upsert({
+    where: { userId_name: { userId, name } },
+    update: data,
+    create: { userId, name, ...data },
+  });
+
+  return Response.json({ tag });
+}
+
+export async function DELETE(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const id = new URL(req.url).searchParams.get('id');
+  if (!id) {
+    return Response.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  const result = await prisma.tag.deleteMany({ where: { id, userId } });
+  if (result.count === 0) {
+    return Response.json({ error: 'Tag not found' }, { status: 404 });
+  }
+  return Response.json({ ok: true });
+}
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { ensureMonthlyBalance } from '@/lib/monthlyBalance';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -16,8 +17,8 @@ async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   }
 }
 
-// Função removida: cálculo automático desabilitado
-// A API da Binance não fornece saldo histórico, então o saldo inicial deve ser preenchido manualmente
+// Saldo inicial do mês: manual (digitado) ou calculado a partir do patrimônio
+// no fechamento do mês anterior (ver lib/monthlyBalance.ts)
 
 export async function GET(req: NextRequest) {
   const userId = await getUserIdFromToken(req);
@@ -33,24 +34,21 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const balance = await prisma.monthlyBalance.findUnique({
-      where: { userId_month: { userId, month } }
-    });
+    const balance = await ensureMonthlyBalance(userId, month);
 
-    // Se não há saldo salvo, retornar 0 (deve ser preenchido manualmente)
-    // A API da Binance não fornece saldo histórico, então não podemos calcular automaticamente
-    if (!balance || balance.initialBalance === '0') {
+    // Sem preço histórico para algum ativo: não foi possível calcular
+    if (!balance || balance.value === '0') {
       return Response.json({ 
         ok: true, 
         balance: '0',
-        calculated: false // Não calculado, deve ser preenchido manualmente
+        calculated: false
       });
     }
 
     return Response.json({ 
       ok: true, 
-      balance: balance?.initialBalance || '0',
-      calculated: false
+      balance: balance.value,
+      calculated: balance.source === 'calculated'
     });
   } catch (error) {
     console.error('Error fetching balance:', error);
@@ -90,20 +88,21 @@ export async function PUT(req: NextRequest) {
         }
       }
       
-      // Retornar 0 quando deletado (deve ser preenchido manualmente)
-      console.log(`[MonthlyBalance] Saldo deletado: userId=${userId}, month=${month}`);
+      // Sem valor manual: voltar ao saldo calculado
+      console.log(`[MonthlyBalance] Saldo manual removido: userId=${userId}, month=${month}`);
+      const calculated = await ensureMonthlyBalance(userId, month);
       return Response.json({ 
         ok: true, 
-        balance: '0',
-        calculated: false // Não calculado, deve ser preenchido manualmente
+        balance: calculated?.value ?? '0',
+        calculated: !!calculated
       });
     }
 
     // Se há um valor, salvar normalmente
     const balance = await prisma.monthlyBalance.upsert({
       where: { userId_month: { userId, month } },
-      update: { initialBalance },
-      create: { userId, month, initialBalance }
+      update: { initialBalance, source: 'manual', calculatedAt: null },
+      create: { userId, month, initialBalance, source: 'manual' }
     });
 
     console.log(`[MonthlyBalance] Saldo salvo: userId=${userId}, month=${month}, initialBalance=${initialBalance}`);
@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Lista ordens sincronizadas (inclui canceladas/não executadas)
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userAccounts = await prisma.binanceAccount.findMany({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (userAccounts.length === 0) {
+    return Response.json({ total: 0, rows: [] });
+  }
+
+  const accountIds = userAccounts.map(acc => acc.id);
+
+  const { searchParams } = new URL(req.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const market = searchParams.get('market');
+  const symbol = searchParams.get('symbol');
+  const status = searchParams.get('status'); // FILLED, CANCELED, EXPIRED...
+  const type = searchParams.get('type'); // LIMIT, STOP_MARKET, TAKE_PROFIT...
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+  const pageSize = Math.min(200, Math.max(1, parseInt(searchParams.get('pageSize') || '50')));
+
+  // Últimos 30 dias por padrão
+  const start = startDate ? new Date(startDate + 'T00:00:00.000Z') : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const end = endDate ? new Date(endDate + 'T23:59:59.999Z') : new Date();
+
+  const where = {
+    accountId: { in: accountIds },
+    placedAt: { gte: start, lte: end },
+    ...(market ? { market } : {}),
+    ...(symbol ? { symbol } : {}),
+    ...(status ? { status } : {}),
+    ...(type ? { type } : {}),
+  };
+
+  try {
+    const [total, orders] = await Promise.all([
+      prisma.order.count({ where }),
+      prisma.order.findMany({
+        where,
+        orderBy: { placedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        include: {
+          account: { select: { name: true } },
+          _count: { select: { trades: true } },
+        },
+      }),
+    ]);
+
+    const rows = orders.map(o => ({
+      id: o.id,
+      accountId: o.accountId,
+      accountName: o.account.name,
+      market: o.market,
+      symbol: o.symbol,
+      orderId: o.orderId,
+      side: o.side,
+      positionSide: o.positionSide,
+      type: o.type,
+      status: o.status,
+      timeInForce: o.timeInForce,
+      price: o.price.toString(),
+      origQty: o.origQty.toString(),
+      executedQty: o.executedQty.toString(),
+      stopPrice: o.stopPrice?.toString() ?? null,
+      reduceOnly: o.reduceOnly,
+      placedAt: o.placedAt.toISOString(),
+      fillsCount: o._count.trades,
+    }));
+
+    return Response.json({ total, rows });
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
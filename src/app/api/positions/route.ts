@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { getPositions, PositionStatus } from '@/lib/positions';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Posições (round trips) reconstruídas a partir das execuções
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const market = searchParams.get('market') || undefined;
+  const symbol = searchParams.get('symbol') || undefined;
+  const accountIds = searchParams.get('accountIds')?.split(',').filter(Boolean);
+  const status = searchParams.get('status')?.toUpperCase();
+  if (status && status !== 'OPEN' && status !== 'CLOSED') {
+    return Response.json({ error: 'status must be OPEN or CLOSED' }, { status: 400 });
+  }
+
+  try {
+    const positions = await getPositions({
+      userId,
+      startDate: startDate ? new Date(startDate + 'T00:00:00.000Z') : undefined,
+      endDate: endDate ? new Date(endDate + 'T23:59:59.999Z') : undefined,
+      accountIds,
+      market,
+      symbol,
+      status: status as PositionStatus | undefined,
+    });
+
+    return Response.json({ positions, total: positions.length });
+  } catch (error) {
+    console.error('Error building positions:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { getPriceAt } from '@/lib/prices';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Preço de um ativo em uma moeda de cotação numa data
+// GET /api/prices?asset=BTC&quote=BRL&at=2024-03-01T12:00:00Z (at padrão: agora)
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const asset = searchParams.get('asset')?.toUpperCase();
+  const quote = (searchParams.get('quote') || 'USDT').toUpperCase();
+  const atParam = searchParams.get('at');
+  const at = atParam ? new Date(atParam) : new Date();
+
+  if (!asset) {
+    return Response.json({ error: 'asset is required' }, { status: 400 });
+  }
+  if (isNaN(at.getTime())) {
+    return Response.json({ error: 'at must be a valid date' }, { status: 400 });
+  }
+  if (at.getTime() > Date.now()) {
+    return Response.json({ error: 'at cannot be in the future' }, { status: 400 });
+  }
+
+  try {
+    const price = await getPriceAt(asset, quote, at);
+    if (price === null) {
+      return Response.json({ error: `No price for ${asset}/${quote} at ${at.toISOString()}` }, { status: 404 });
+    }
+    return Response.json({
+      ok: true,
+      asset,
+      quote,
+      at: at.toISOString(),
+      price: price.toString(),
+    });
+  } catch (error) {
+    console.error('Error fetching historical price:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
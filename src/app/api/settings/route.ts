@@ -0,0 +1,153 @@
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createJobId, setProgress } from '@/lib/sync/progress';
+import { isCostBasisMethod, recalculateAccountPnl } from '@/lib/pnl/costBasis';
+import { convertAccountToReportingCurrency, isReportingCurrency } from '@/lib/fx';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
+import { getTradingGoals, parseGoals } from '@/lib/goals';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+const DEFAULT_SETTINGS = {
+  costBasisMethod: 'FIFO',
+  reportingCurrency: 'BRL',
+};
+
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const settings = await prisma.userSettings.findUnique({ where: { userId } });
+    return Response.json({
+      ok: true,
+      settings: {
+        costBasisMethod: settings?.costBasisMethod ?? DEFAULT_SETTINGS.costBasisMethod,
+        reportingCurrency: settings?.reportingCurrency ?? DEFAULT_SETTINGS.reportingCurrency,
+        ...(await getTradingGoals(userId)),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+
+  if (body.costBasisMethod !== undefined && !isCostBasisMethod(body.costBasisMethod)) {
+    return Response.json({ error: 'costBasisMethod must be FIFO, LIFO or AVERAGE' }, { status: 400 });
+  }
+  if (body.reportingCurrency !== undefined && !isReportingCurrency(body.reportingCurrency)) {
+    return Response.json({ error: 'reportingCurrency must be BRL, USD or USDT' }, { status: 400 });
+  }
+  // Metas e limites: número positivo ou null para remover
+  const { goals, error: goalsError } = parseGoals(body);
+  if (goalsError) {
+    return Response.json({ error: goalsError }, { status: 400 });
+  }
+
+  try {
+    const previous = await prisma.userSettings.findUnique({ where: { userId } });
+    const data = {
+      ...(body.costBasisMethod !== undefined ? { costBasisMethod: body.costBasisMethod } : {}),
+      ...(body.reportingCurrency !== undefined ? { reportingCurrency: body.reportingCurrency } : {}),
+      ...goals,
+    };
+
+    const settings = await prisma.userSettings.upsert({
+      where: { userId },
+      update: data,
+      create: { userId, ...DEFAULT_SETTINGS, ...data },
+    });
+
+    // Mudou o método de custo: recalcular o PnL de todas as contas em segundo plano
+    // (o recálculo já converte para a moeda de relatório). Mudou só a moeda: apenas converter.
+    const previousMethod = previous?.costBasisMethod ?? DEFAULT_SETTINGS.costBasisMethod;
+    const previousCurrency = previous?.reportingCurrency ?? DEFAULT_SETTINGS.reportingCurrency;
+    const methodChanged = settings.costBasisMethod !== previousMethod;
+    const currencyChanged = settings.reportingCurrency !== previousCurrency;
+    let jobId: string | null = null;
+    if (methodChanged || currencyChanged) {
+      jobId = createJobId(userId);
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        totalSteps: 0,
+        currentStep: 0,
+        status: 'running',
+        message: methodChanged
+          ? `Recalculando PnL com o método ${settings.costBasisMethod}...`
+          : `Convertendo PnL e taxas para ${settings.reportingCurrency}...`
+      });
+
+      const recalcJobId = jobId;
+      (async () => {
+        const accounts = await prisma.binanceAccount.findMany({ where: { userId }, select: { id: true } });
+        let updated = 0;
+        for (const acc of accounts) {
+          if (methodChanged) {
+            const result = await recalculateAccountPnl(acc.id);
+            updated += result.updated;
+          } else {
+            const result = await convertAccountToReportingCurrency(acc.id);
+            updated += result.trades;
+            // Saldos calculados estão na moeda antiga (como no fim de recalculateAccountPnl)
+            await invalidateMonthlyBalances(acc.id);
+          }
+        }
+        await setProgress(recalcJobId, {
+          jobId: recalcJobId,
+          userId,
+          status: 'completed',
+          message: methodChanged
+            ? `Recálculo concluído! ${updated} trades atualizados`
+            : `Conversão concluída! ${updated} trades atualizados`,
+          result: { inserted: 0, updated }
+        });
+      })().catch(error => {
+        console.error('Error recalculating PnL after settings change:', error);
+        setProgress(recalcJobId, {
+          jobId: recalcJobId,
+          userId,
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      });
+    }
+
+    return Response.json({
+      ok: true,
+      settings: {
+        costBasisMethod: settings.costBasisMethod,
+        reportingCurrency: settings.reportingCurrency,
+        ...(await getTradingGoals(userId)),
+      },
+      jobId,
+    });
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { getEquityCurve } from '@/lib/snapshots';
+
+async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
+  const authHeader = req.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.substring(7);
+
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString());
+    return payload.user_id || payload.uid || null;
+  } catch (error) {
+    console.error('Token decode error:', error);
+    return null;
+  }
+}
+
+// Curva de patrimônio diária (soma dos snapshots de todas as contas)
+export async function GET(req: NextRequest) {
+  const userId = await getUserIdFromToken(req);
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const start = startDate
+    ? new Date(startDate + 'T00:00:00.000Z')
+    : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+  const end = endDate ? new Date(endDate + 'T23:59:59.999Z') : new Date();
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return Response.json({ error: 'startDate/endDate must be YYYY-MM-DD' }, { status: 400 });
+  }
+
+  try {
+    const points = await getEquityCurve(userId, start, end);
+    return Response.json({ points });
+  } catch (error) {
+    console.error('Error fetching equity curve:', error);
+    return Response.json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
-import { getProxyUrl, proxyGet } from '@/lib/binanceProxyClient';
+import { binanceGet, BinanceApiError, BinanceCredentials, isRateLimitError } from '@/lib/binanceClient';
 import { createJobId, setProgress } from '@/lib/sync/progress';
-import crypto from 'crypto';
+import { discoverAccountSymbols } from '@/lib/sync/symbols';
+import { refreshSymbolInfo } from '@/lib/symbolInfo';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -20,22 +21,8 @@ async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   }
 }
 
-async function createSignature(queryString: string, secret: string): Promise<string> {
-  return crypto.createHmac('sha256', secret).update(queryString).digest('hex');
-}
-
-function getCommonSymbols(): string[] {
-  return [
-    'BTCBRL', 'ETHBRL', 'BNBBRL', 'ADABRL', 'SOLBRL', 'XRPBRL', 'DOGEBRL', 'MATICBRL',
-    'DOTBRL', 'AVAXBRL', 'LINKBRL', 'UNIBRL', 'ATOMBRL', 'ETCBRL', 'LTCBRL', 'BCHBRL',
-    'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT', 'MATICUSDT',
-    'DOTUSDT', 'AVAXUSDT', 'LINKUSDT', 'UNIUSDT', 'ATOMUSDT', 'ETCUSDT', 'LTCUSDT', 'BCHUSDT'
-  ];
-}
-
-async function fetchBinanceTradesForSymbolWindow(
-  apiKey: string,
-  apiSecret: string,
+async function fetchBinanceTradesForSymbol(
+  credentials: BinanceCredentials,
   market: string,
   symbol: string,
   startTime: number,
@@ -43,65 +30,20 @@ async function fetchBinanceTradesForSymbolWindow(
   authHeader?: string
 ): Promise<{ symbol: string; hasTrades: boolean }> {
   try {
-    const proxyBase = getProxyUrl();
-    if (proxyBase && authHeader) {
-      const params = new URLSearchParams();
-      params.set('market', market);
-      params.set('symbol', symbol);
-      params.set('startTime', String(startTime));
-      params.set('endTime', String(endTime));
-      params.set('limit', '1'); // Apenas verificar se existe, não precisamos de todos
-      const res = await proxyGet<{ ok: boolean; data: Array<{ id: string; symbol: string }> }>(`/trades?${params.toString()}`, authHeader);
-      return { symbol, hasTrades: (res.data?.length || 0) > 0 };
-    }
-    
-    const baseUrl = market === 'FUTURES' 
-      ? 'https://fapi.binance.com' 
-      : 'https://api.binance.com';
-    
-    const endpoint = market === 'FUTURES'
-      ? '/fapi/v1/userTrades'
-      : '/api/v3/myTrades';
-
-    const params: Record<string, string | number> = {
-      symbol,
-      startTime,
-      endTime,
-      limit: 1, // Apenas verificar se existe, não precisamos de todos
-      recvWindow: 5000,
-      timestamp: Date.now()
-    };
-
-    // Converter todos os valores para string para URLSearchParams
-    const paramsString: Record<string, string> = Object.fromEntries(
-      Object.entries(params).map(([key, value]) => [key, String(value)])
-    );
-    const queryString = new URLSearchParams(paramsString).toString();
-    const signature = await createSignature(queryString, apiSecret);
-    const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-
-    const response = await fetch(fullUrl, {
-      headers: {
-        'X-MBX-APIKEY': apiKey,
+    const data = await binanceGet<unknown>({
+      market,
+      path: market === 'FUTURES' ? '/fapi/v1/userTrades' : '/api/v3/myTrades',
+      // limit 1: apenas verificar se existe, não precisamos de todos
+      params: { symbol, startTime, endTime, limit: 1 },
+      credentials,
+      weight: market === 'FUTURES' ? 5 : 20,
+      proxy: {
+        path: '/trades',
+        params: { market, symbol, startTime, endTime, limit: 1 },
+        authHeader,
+        unwrap: true,
       },
     });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      // Se for erro 400 com "Invalid symbol", o símbolo não existe ou não está disponível
-      if (response.status === 400 && errorText.includes('Invalid symbol')) {
-        return { symbol, hasTrades: false };
-      }
-      // Se for erro relacionado a período muito grande ou outros erros, logar detalhadamente
-      if (response.status === 400) {
-        console.log(`[${symbol}] ⚠️ Erro 400: ${errorText.substring(0, 200)}`);
-      } else {
-        console.log(`[${symbol}] ⚠️ Erro ${response.status}: ${errorText.substring(0, 200)}`);
-      }
-      return { symbol, hasTrades: false };
-    }
-
-    const data = await response.json();
     
     // Verificar se é um array válido
     if (!Array.isArray(data)) {
@@ -115,93 +57,18 @@ async function fetchBinanceTradesForSymbolWindow(
     }
     return { symbol, hasTrades };
   } catch (error) {
-    console.error(`[${symbol}] Erro ao verificar:`, error instanceof Error ? error.message : error);
-    return { symbol, hasTrades: false };
-  }
-}
-
-async function fetchBinanceTradesForSymbol(
-  apiKey: string,
-  apiSecret: string,
-  market: string,
-  symbol: string,
-  startTime: number,
-  endTime: number,
-  authHeader?: string
-): Promise<{ symbol: string; hasTrades: boolean }> {
-  try {
-    const proxyBase = getProxyUrl();
-    if (proxyBase && authHeader) {
-      const params = new URLSearchParams();
-      params.set('market', market);
-      params.set('symbol', symbol);
-      params.set('startTime', String(startTime));
-      params.set('endTime', String(endTime));
-      params.set('limit', '1'); // Apenas verificar se existe, não precisamos de todos
-      const res = await proxyGet<{ ok: boolean; data: Array<{ id: string; symbol: string }> }>(`/trades?${params.toString()}`, authHeader);
-      return { symbol, hasTrades: (res.data?.length || 0) > 0 };
+    // Rate limit/ban deve interromper a busca, não marcar o símbolo como vazio
+    if (isRateLimitError(error)) {
+      throw error;
     }
-    
-    const baseUrl = market === 'FUTURES' 
-      ? 'https://fapi.binance.com' 
-      : 'https://api.binance.com';
-    
-    const endpoint = market === 'FUTURES'
-      ? '/fapi/v1/userTrades'
-      : '/api/v3/myTrades';
-
-    const params: Record<string, string | number> = {
-      symbol,
-      startTime,
-      endTime,
-      limit: 1, // Apenas verificar se existe
-      recvWindow: 5000,
-      timestamp: Date.now()
-    };
-
-    // Converter todos os valores para string para URLSearchParams
-    const paramsString: Record<string, string> = Object.fromEntries(
-      Object.entries(params).map(([key, value]) => [key, String(value)])
-    );
-    const queryString = new URLSearchParams(paramsString).toString();
-    const signature = await createSignature(queryString, apiSecret);
-    const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-
-    const response = await fetch(fullUrl, {
-      headers: {
-        'X-MBX-APIKEY': apiKey,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
+    if (error instanceof BinanceApiError) {
       // Se for erro 400 com "Invalid symbol", o símbolo não existe ou não está disponível
-      if (response.status === 400 && errorText.includes('Invalid symbol')) {
+      if (error.status === 400 && error.message.includes('Invalid symbol')) {
         return { symbol, hasTrades: false };
       }
-      // Se for erro relacionado a período muito grande ou outros erros, logar detalhadamente
-      if (response.status === 400) {
-        console.log(`[${symbol}] ⚠️ Erro 400: ${errorText.substring(0, 200)}`);
-      } else {
-        console.log(`[${symbol}] ⚠️ Erro ${response.status}: ${errorText.substring(0, 200)}`);
-      }
+      console.log(`[${symbol}] ⚠️ Erro ${error.status}: ${error.message.substring(0, 200)}`);
       return { symbol, hasTrades: false };
     }
-
-    const data = await response.json();
-    
-    // Verificar se é um array válido
-    if (!Array.isArray(data)) {
-      console.log(`[${symbol}] ⚠️ Resposta não é array:`, typeof data, JSON.stringify(data).substring(0, 100));
-      return { symbol, hasTrades: false };
-    }
-    
-    const hasTrades = data.length > 0;
-    if (hasTrades) {
-      console.log(`[${symbol}] ✅ Encontrado ${data.length} trade(s) no período ${new Date(startTime).toISOString().split('T')[0]} até ${new Date(endTime).toISOString().split('T')[0]}`);
-    }
-    return { symbol, hasTrades };
-  } catch (error) {
     console.error(`[${symbol}] Erro ao verificar:`, error instanceof Error ? error.message : error);
     return { symbol, hasTrades: false };
   }
@@ -300,8 +167,14 @@ export async function GET(req: NextRequest) {
     }
   });
 
+  // Símbolos descobertos automaticamente para as contas (saldos, depósitos, exchangeInfo)
+  const discovered = await prisma.accountSymbol.findMany({
+    where: { accountId: { in: accountIds } },
+    select: { symbol: true }
+  });
+
   // Extrair símbolos únicos do banco
-  const dbSymbols = Array.from(new Set(trades.map(t => t.symbol))).sort();
+  const dbSymbols = Array.from(new Set([...trades.map(t => t.symbol), ...discovered.map(d => d.symbol)])).sort();
   const allSymbols = [...dbSymbols];
 
   // Se não for busca da API, retornar imediatamente
@@ -342,8 +215,10 @@ export async function GET(req: NextRequest) {
           
           if (!acc) continue;
 
-          const apiKey = await decrypt(acc.apiKeyEnc);
-          const apiSecret = await decrypt(acc.apiSecretEnc);
+          const credentials: BinanceCredentials = {
+            apiKey: await decrypt(acc.apiKeyEnc),
+            apiSecret: await decrypt(acc.apiSecretEnc),
+          };
 
           // Usar as datas do modal ou padrão (últimos 90 dias)
           let endTime: number;
@@ -373,44 +248,29 @@ export async function GET(req: NextRequest) {
             totalSteps: 0,
             currentStep: 0,
             status: 'running',
-            message: searchAll ? 'Buscando lista de todos os símbolos disponíveis...' : 'Preparando busca de símbolos comuns...'
+            message: searchAll ? 'Buscando lista de todos os símbolos disponíveis...' : 'Descobrindo pares a partir de saldos e depósitos...'
           });
 
           if (searchAll) {
             // Buscar TODOS os símbolos disponíveis na Binance
             try {
-              const baseUrl = account.market === 'FUTURES' 
-                ? 'https://fapi.binance.com' 
-                : 'https://api.binance.com';
-              
               // FUTURES usa /fapi/v1/exchangeInfo, SPOT usa /api/v3/exchangeInfo
-              const exchangeInfoUrl = account.market === 'FUTURES'
-                ? `${baseUrl}/fapi/v1/exchangeInfo`
-                : `${baseUrl}/api/v3/exchangeInfo`;
-              
-              const exchangeInfoResponse = await fetch(exchangeInfoUrl);
+              // (também atualiza o registro de pares em SymbolInfo)
+              const exchangeSymbols = await refreshSymbolInfo(account.market);
+              // Filtrar apenas símbolos ativos (status: 'TRADING')
+              symbolsToTest = exchangeSymbols
+                .filter(s => s.status === 'TRADING')
+                .map(s => s.symbol);
               
-              if (exchangeInfoResponse.ok) {
-                const exchangeInfo = await exchangeInfoResponse.json();
-                // Filtrar apenas símbolos ativos (status: 'TRADING')
-                symbolsToTest = exchangeInfo.symbols
-                  ?.filter((s: { status: string; symbol: string }) => s.status === 'TRADING')
-                  ?.map((s: { symbol: string }) => s.symbol) || [];
-                
-                console.log(`Encontrados ${symbolsToTest.length} símbolos disponíveis para testar (${account.market})`);
-              } else {
-                console.error('Erro ao buscar exchangeInfo:', exchangeInfoResponse.status);
-                // Fallback para lista comum se exchangeInfo falhar
-                symbolsToTest = getCommonSymbols();
-              }
+              console.log(`Encontrados ${symbolsToTest.length} símbolos disponíveis para testar (${account.market})`);
             } catch (error) {
               console.error('Erro ao buscar exchangeInfo:', error);
-              // Fallback para lista comum
-              symbolsToTest = getCommonSymbols();
+              // Fallback para pares descobertos
+              symbolsToTest = await discoverAccountSymbols(account.id, authHeader, { force: true });
             }
           } else {
-            // Usar apenas lista de símbolos comuns
-            symbolsToTest = getCommonSymbols();
+            // Usar pares descobertos (saldos, depósitos/saques e trades já importados)
+            symbolsToTest = await discoverAccountSymbols(account.id, authHeader, { force: true });
           }
 
           // Verificar quais símbolos têm trades
@@ -465,7 +325,7 @@ export async function GET(req: NextRequest) {
             // Processar lote em paralelo
             const symbolChecks = await Promise.all(
               batch.map(symbol => 
-                fetchBinanceTradesForSymbol(apiKey, apiSecret, account.market, symbol, startTime, endTime, authHeader)
+                fetchBinanceTradesForSymbol(credentials, account.market, symbol, startTime, endTime, authHeader)
               )
             );
 
@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createJobId, setProgress } from '@/lib/sync/progress';
 import { monthRange } from '@/lib/format';
+import { recalculateAccountPnl } from '@/lib/pnl/costBasis';
 import { Prisma } from '@prisma/client';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
@@ -189,6 +190,13 @@ export async function POST(req: NextRequest) {
         }
       }
 
+      // Duplicatas inflavam quantidades: recalcular PnL e lotes abertos
+      if (totalDeleted > 0) {
+        for (const accountId of accountIds) {
+          await recalculateAccountPnl(accountId);
+        }
+      }
+
       // Atualizar progresso final
       await setProgress(jobId, {
         jobId,
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { recalculateAccountPnl } from '@/lib/pnl/costBasis';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -94,8 +95,18 @@ export async function POST(req: NextRequest) {
     }
 
     // Deletar trades
+    const affectedAccounts = await prisma.trade.findMany({
+      where,
+      select: { accountId: true },
+      distinct: ['accountId'],
+    });
     const result = await prisma.trade.deleteMany({ where });
 
+    // Remover compras/vendas muda o custo: recalcular PnL e lotes abertos
+    for (const acc of affectedAccounts) {
+      await recalculateAccountPnl(acc.accountId);
+    }
+
     return Response.json({
       ok: true,
       deleted: result.count,
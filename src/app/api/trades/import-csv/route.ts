@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createJobId, setProgress } from '@/lib/sync/progress';
+import { recalculateAccountPnl } from '@/lib/pnl/costBasis';
+import { resolveSymbolAssets } from '@/lib/symbolInfo';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -51,6 +53,8 @@ interface TradeCSVRow {
   'Realized PnL'?: string;
   'RealizedPnl'?: string;
   'PnL'?: string;
+  'Position Side'?: string;
+  'PositionSide'?: string;
 }
 
 function parseCSV(csvText: string): TradeCSVRow[] {
@@ -347,6 +351,8 @@ export async function POST(request: Request) {
           feeAsset: string;
           feePct: string;
           realizedPnl: string;
+          exchangeRealizedPnl: string | null;
+          positionSide: string | null;
           orderId: string | null;
           tradeId: string | null;
           orderType: string | null;
@@ -418,6 +424,9 @@ export async function POST(request: Request) {
             // PnL = (preço_venda - preço_compra) * quantidade - fees
             // Mas como não temos histórico de compras, vamos deixar como 0 por enquanto
             const realizedPnlStr = row['Realized PnL'] || row['RealizedPnl'] || row['PnL'] || '0';
+            // Em FUTURES o PnL do CSV é o calculado pela Binance e não deve ser recalculado
+            const hasExchangePnl = market === 'FUTURES' && !!(row['Realized PnL'] || row['RealizedPnl'] || row['PnL']);
+            const positionSide = market === 'FUTURES' ? (row['Position Side'] || row['PositionSide'] || 'BOTH').toUpperCase() : null;
             
             // Filtrar apenas ordens FILLED (executadas) se houver campo Status
             const status = row['Status'] || '';
@@ -456,17 +465,9 @@ export async function POST(request: Request) {
             // Se ainda não tiver feeAsset, tentar inferir do símbolo do par
             let finalFeeAsset = feeAsset;
             if (!finalFeeAsset) {
-              // Se o par termina com BRL, a fee geralmente é em BRL ou na moeda base
-              if (symbol.endsWith('BRL')) {
-                // Para SELL, fee geralmente é em BRL; para BUY, pode ser na moeda base
-                finalFeeAsset = side === 'SELL' ? 'BRL' : symbol.replace('BRL', '');
-              } else if (symbol.endsWith('USDT')) {
-                finalFeeAsset = side === 'SELL' ? 'USDT' : symbol.replace('USDT', '');
-              } else {
-                // Tentar extrair a moeda base (primeira parte do par)
-                const baseCurrency = symbol.match(/^([A-Z]+)/)?.[1];
-                finalFeeAsset = baseCurrency || 'USDT';
-              }
+              // Em SPOT a fee costuma vir no ativo recebido: cotação na venda, base na compra
+              const { baseAsset, quoteAsset } = await resolveSymbolAssets(symbol, market);
+              finalFeeAsset = side === 'SELL' || market === 'FUTURES' ? quoteAsset : baseAsset;
             }
 
             const tradeData = {
@@ -481,6 +482,8 @@ export async function POST(request: Request) {
               feeAsset: finalFeeAsset,
               feePct: feePct.toString(),
               realizedPnl: realizedPnl.toString(),
+              exchangeRealizedPnl: hasExchangePnl ? realizedPnl.toString() : null,
+              positionSide,
               orderId: orderId || null,
               tradeId: tradeId || null,
               orderType: orderType || null,
@@ -552,6 +555,8 @@ export async function POST(request: Request) {
               feeAsset: string;
               feePct: string;
               realizedPnl: string;
+              exchangeRealizedPnl: string | null;
+              positionSide: string | null;
               orderId: string | null;
               tradeId: string | null;
               orderType: string | null;
@@ -656,6 +661,11 @@ export async function POST(request: Request) {
         }
       }
 
+      // Novos trades mudam o custo: recalcular PnL e lotes abertos da conta
+      if (inserted > 0 || updated > 0) {
+        await recalculateAccountPnl(accountId);
+      }
+
       await setProgress(jobId, {
         jobId,
         userId,
@@ -1,6 +1,5 @@
 import { NextRequest } from 'next/server';
-import { getTrades } from '@/lib/trades';
-import { prisma } from '@/lib/prisma';
+import { getTrades, parseTradesQuery, TradesQueryError } from '@/lib/trades';
 
 async function getUserIdFromToken(req: NextRequest): Promise<string | null> {
   const authHeader = req.headers.get('authorization');
@@ -24,56 +23,47 @@ export async function GET(req: NextRequest) {
     return Response.json({ error: 'Unauthorized' }, { status: 401 });
   }
 
-  // Buscar contas do usuário
-  const userAccounts = await prisma.binanceAccount.findMany({
-    where: { userId },
-    select: { id: true }
-  });
-
-  if (userAccounts.length === 0) {
-    return Response.json({ 
-      rows: [], 
-      total: 0, 
-      summary: {
-        pnlMonth: '0',
-        roiTotal: null,
-        feesTotal: '0',
-        avgFeePct: '0',
-        tradesCount: 0,
-        winRate: 0,
-        initialBalance: '0'
-      }
-    }, { status: 200 });
-  }
-
-  const accountIds = userAccounts.map(acc => acc.id);
-
   const { searchParams } = new URL(req.url);
-  const month = searchParams.get('month') || '';
-  const startDate = searchParams.get('startDate') || undefined;
-  const endDate = searchParams.get('endDate') || undefined;
-  const market = searchParams.get('market') || undefined;
-  const symbol = searchParams.get('symbol') || undefined;
   const page = Number(searchParams.get('page') || '1');
   const pageSize = Number(searchParams.get('pageSize') || '20');
 
   try {
-    const data = await getTrades({ 
-      month, 
-      startDate, 
-      endDate, 
-      market, 
-      symbol, 
-      page, 
-      pageSize,
-      accountIds, // Passar accountIds para filtrar apenas trades do usuário
-      userId // Passar userId para filtrar saldo inicial do usuário
-    });
+    // Filtros (período, mercado, símbolo, tags) e contas do usuário, como nas rotas de analytics
+    const query = await parseTradesQuery(req, userId);
+    if (query.accountIds.length === 0) {
+      return Response.json({ 
+        rows: [], 
+        total: 0, 
+        summary: {
+          currency: 'BRL',
+          pnlMonth: '0',
+          roiTotal: null,
+          feesTotal: '0',
+          avgFeePct: '0',
+          tradesCount: 0,
+          winRate: 0,
+          profitFactor: null,
+          expectancy: '0',
+          avgWin: '0',
+          avgLoss: '0',
+          payoffRatio: null,
+          longestWinStreak: 0,
+          longestLossStreak: 0,
+          initialBalance: '0',
+          fundingTotal: '0',
+          otherIncomeTotal: '0',
+          netPnl: '0'
+        }
+      }, { status: 200 });
+    }
+
+    const data = await getTrades({ ...query, page, pageSize });
     return Response.json(data, { status: 200 });
   } catch (err) {
-    const message = err instanceof Error ? err.message : 'internal error';
-    return Response.json({ error: message }, { status: 400 });
+    if (err instanceof TradesQueryError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    console.error('[TRADES] Erro ao listar trades:', err);
+    return Response.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
-
-
@@ -1,14 +1,21 @@
 "use client";
 import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card } from '@/components/Card';
 import { Kpi } from '@/components/Kpi';
 import { PnlLineChart } from '@/components/PnlLineChart';
+import { EquityCurveChart } from '@/components/EquityCurveChart';
+import { CalendarHeatmap } from '@/components/CalendarHeatmap';
+import { BenchmarkChart, BenchmarkData } from '@/components/BenchmarkChart';
+import { GoalsProgress, GoalProgressData } from '@/components/GoalsProgress';
 import InternalLayout from '@/components/InternalLayout';
 import EditableBalanceKpi from '@/components/EditableBalanceKpi';
 import { auth } from '@/lib/firebase/client';
 import { onAuthStateChanged } from 'firebase/auth';
 
 type TradeRow = { executedAt: string | Date; realizedPnl: string };
+type EquityPoint = { date: string; totalUSDT: number; totalBRL: number };
+type DayPnl = { date: string; pnl: number; fees: number; tradesCount: number; winRate: number; breaches: ('dailyLoss' | 'tradesPerDay')[] };
 type TradesResponse = {
   rows: TradeRow[];
   total: number;
@@ -34,6 +41,13 @@ async function fetchTrades(month: string, startDate?: string, endDate?: string):
   return res.json();
 }
 
+// USDT não é código ISO: formatar como número com sufixo
+function formatMoney(value: number, currency: string): string {
+  return currency === 'USDT'
+    ? `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`
+    : new Intl.NumberFormat('pt-BR', { style: 'currency', currency }).format(value);
+}
+
 function getMonth() {
   const now = new Date();
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
@@ -97,6 +111,15 @@ export default function DashboardPage() {
   const [customDateOpen, setCustomDateOpen] = useState(false);
   const [monthSelectOpen, setMonthSelectOpen] = useState(false);
   const [earliestDate, setEarliestDate] = useState<string | null>(null);
+  const [equityCurve, setEquityCurve] = useState<EquityPoint[]>([]);
+  const router = useRouter();
+  const [calendarMode, setCalendarMode] = useState<'month' | 'year'>('month');
+  const [calendarYear, setCalendarYear] = useState(() => new Date().getFullYear());
+  const [calendarMonth, setCalendarMonth] = useState(() => new Date().getMonth() + 1);
+  const [calendarDays, setCalendarDays] = useState<DayPnl[]>([]);
+  const [calendarCurrency, setCalendarCurrency] = useState('BRL');
+  const [benchmarks, setBenchmarks] = useState<BenchmarkData | null>(null);
+  const [goals, setGoals] = useState<GoalProgressData | null>(null);
 
   const periodOptions = [
     { value: 'all', label: '🌐 Todos' },
@@ -147,6 +170,51 @@ export default function DashboardPage() {
     fetchEarliestDate();
   }, []);
 
+  // Calendário de PnL diário (mês ou ano exibido)
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        setCalendarDays([]);
+        return;
+      }
+      const mm = String(calendarMonth).padStart(2, '0');
+      const params = calendarMode === 'month'
+        ? { startDate: `${calendarYear}-${mm}-01`, endDate: `${calendarYear}-${mm}-${String(new Date(Date.UTC(calendarYear, calendarMonth, 0)).getUTCDate()).padStart(2, '0')}` }
+        : { startDate: `${calendarYear}-01-01`, endDate: `${calendarYear}-12-31` };
+      // Dias do calendário no fuso do navegador
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch(`/api/analytics/daily?${new URLSearchParams({ ...params, tz }).toString()}`, {
+          cache: 'no-store',
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (response.ok) {
+          const dailyData = await response.json();
+          setCalendarDays(dailyData.days || []);
+          setCalendarCurrency(dailyData.currency || 'BRL');
+        }
+      } catch (error) {
+        console.error('Error fetching daily PnL:', error);
+      }
+    });
+    return () => unsubscribe();
+  }, [calendarMode, calendarYear, calendarMonth]);
+
+  const moveCalendar = (step: number) => {
+    if (calendarMode === 'year') {
+      setCalendarYear(calendarYear + step);
+      return;
+    }
+    const next = new Date(calendarYear, calendarMonth - 1 + step, 1);
+    setCalendarYear(next.getFullYear());
+    setCalendarMonth(next.getMonth() + 1);
+  };
+
+  const formatCalendarMoney = (value: number) => formatMoney(value, calendarCurrency);
+
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       if (!user) {
@@ -157,6 +225,8 @@ export default function DashboardPage() {
       // Buscar balance e saldo inicial
       fetchCurrentBalance();
       fetchCurrentMonthInitialBalance();
+      fetchEquityCurve();
+      fetchGoals();
 
       // Buscar trades
       let monthParam: string | undefined;
@@ -179,6 +249,8 @@ export default function DashboardPage() {
         endDateParam = periodFilter.endDate;
       }
 
+      fetchBenchmarks(monthParam || '', startDateParam, endDateParam);
+
       try {
         const tradesData = await fetchTrades(monthParam || '', startDateParam, endDateParam);
         setData(tradesData);
@@ -260,6 +332,73 @@ export default function DashboardPage() {
     }
   };
 
+  // Patrimônio dos últimos 30 dias (snapshots diários das contas)
+  const fetchEquityCurve = async () => {
+    try {
+      const user = auth.currentUser;
+      if (!user) return;
+
+      const token = await user.getIdToken();
+      const response = await fetch('/api/snapshots', {
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      if (response.ok) {
+        const curveData = await response.json();
+        setEquityCurve(curveData.points || []);
+      }
+    } catch (error) {
+      console.error('Error fetching equity curve:', error);
+    }
+  };
+
+  // Carteira x BTC x CDI no período selecionado
+  const fetchBenchmarks = async (month: string, startDate?: string, endDate?: string) => {
+    try {
+      const user = auth.currentUser;
+      if (!user) return;
+
+      const token = await user.getIdToken();
+      const params = new URLSearchParams({ month });
+      if (startDate) params.set('startDate', startDate);
+      if (endDate) params.set('endDate', endDate);
+      const response = await fetch(`/api/analytics/benchmarks?${params.toString()}`, {
+        cache: 'no-store',
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      setBenchmarks(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error fetching benchmarks:', error);
+    }
+  };
+
+  // Metas e limites valem para o mês corrente, independente do período selecionado
+  const fetchGoals = async () => {
+    try {
+      const user = auth.currentUser;
+      if (!user) return;
+
+      const token = await user.getIdToken();
+      // Perda e trades "de hoje" no dia local do navegador
+      const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await fetch(`/api/analytics/goals?month=${encodeURIComponent(getMonth())}&tz=${encodeURIComponent(tz)}`, {
+        cache: 'no-store',
+        headers: {
+          Authorization: `Bearer ${token}`
+        }
+      });
+
+      setGoals(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+    }
+  };
+
   const fetchCurrentMonthInitialBalance = async () => {
     setLoadingInitialBalance(true);
     try {
@@ -601,6 +740,7 @@ export default function DashboardPage() {
         />
       </div>
 
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 sm:gap-6">
       {/* PnL Chart */}
       <Card title="PnL Diário" icon="📊" subtitle="Evolução do lucro/prejuízo">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 sm:gap-4 mb-4">
@@ -631,6 +771,102 @@ export default function DashboardPage() {
           </div>
         )}
       </Card>
+
+      {/* Equity Curve */}
+      <Card title="Patrimônio" icon="💰" subtitle="Saldo total das contas por dia">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 sm:gap-4 mb-4">
+          <div className="text-sm text-slate-400">Últimos 30 dias</div>
+          {equityCurve.length > 0 && (
+            <div className="text-right">
+              <p className="text-xs text-slate-400">Último fechamento</p>
+              <p className="text-sm sm:text-base text-white">
+                R$ {equityCurve[equityCurve.length - 1].totalBRL.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              </p>
+            </div>
+          )}
+        </div>
+        {equityCurve.length > 0 ? (
+          <div className="w-full overflow-x-auto">
+            <div className="min-w-[600px]">
+              <EquityCurveChart data={equityCurve} />
+            </div>
+          </div>
+        ) : (
+          <div className="h-64 sm:h-96 flex items-center justify-center bg-gradient-to-br from-slate-800 to-slate-900 rounded-xl">
+            <div className="text-center px-4">
+              <div className="text-4xl sm:text-6xl mb-4">💰</div>
+              <h3 className="text-base sm:text-lg font-semibold text-slate-300 mb-2">Nenhum snapshot disponível</h3>
+              <p className="text-sm sm:text-base text-slate-500">Importe os snapshots em Configurações para ver a evolução do patrimônio</p>
+            </div>
+          </div>
+        )}
+      </Card>
+      </div>
+
+      {/* Metas e limites */}
+      <Card title="Metas e limites" icon="🎯" subtitle="Progresso do mês e limites de risco definidos em Configurações">
+        {goals && Object.values(goals.goals).some(v => v !== null) ? (
+          <GoalsProgress
+            data={goals}
+            formatMoney={(value) => formatMoney(value, goals.currency)}
+            onDayClick={(date) => router.push(`/trades?startDate=${date}&endDate=${date}`)}
+          />
+        ) : (
+          <div className="h-24 flex items-center justify-center text-sm text-slate-500">
+            Nenhuma meta definida. Configure metas e limites em Configurações.
+          </div>
+        )}
+      </Card>
+
+      {/* Benchmarks */}
+      <Card title="Carteira x Benchmarks" icon="🏁" subtitle="Retorno acumulado contra BTC buy-and-hold e CDI no período">
+        {benchmarks && benchmarks.points.length > 0 ? (
+          <BenchmarkChart data={benchmarks} formatMoney={(value) => formatMoney(value, benchmarks.currency)} />
+        ) : (
+          <div className="h-40 flex items-center justify-center text-sm text-slate-500">
+            Sem dados de patrimônio para o período
+          </div>
+        )}
+      </Card>
+
+      {/* Calendário de PnL */}
+      <Card title="Calendário" icon="🗓️" subtitle="PnL por dia — clique num dia para ver os trades">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <div className="flex items-center gap-2">
+            <button onClick={() => moveCalendar(-1)} className="px-2 py-1 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5">‹</button>
+            <span className="text-sm text-white min-w-[140px] text-center capitalize">
+              {calendarMode === 'month'
+                ? new Date(calendarYear, calendarMonth - 1, 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })
+                : calendarYear}
+            </span>
+            <button onClick={() => moveCalendar(1)} className="px-2 py-1 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5">›</button>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className={`text-sm ${calendarDays.reduce((sum, d) => sum + d.pnl, 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCalendarMoney(calendarDays.reduce((sum, d) => sum + d.pnl, 0))}
+            </span>
+            <div className="flex rounded-lg border border-white/10 overflow-hidden">
+              {(['month', 'year'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setCalendarMode(mode)}
+                  className={`px-3 py-1 text-sm ${calendarMode === mode ? 'bg-white/10 text-white' : 'text-slate-400 hover:bg-white/5'}`}
+                >
+                  {mode === 'month' ? 'Mês' : 'Ano'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <CalendarHeatmap
+          mode={calendarMode}
+          year={calendarYear}
+          month={calendarMonth}
+          days={calendarDays}
+          formatMoney={formatCalendarMoney}
+          onDayClick={(date) => router.push(`/trades?startDate=${date}&endDate=${date}`)}
+        />
+      </Card>
       </div>
     </InternalLayout>
   );
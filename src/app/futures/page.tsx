@@ -2,6 +2,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Toolbar } from '@/components/Toolbar';
 import InternalLayout from '@/components/InternalLayout';
+import JournalDrawer from '@/components/JournalDrawer';
 import { auth } from '@/lib/firebase/client';
 import { createColumnHelper, flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table';
 
@@ -14,6 +15,7 @@ declare global {
 }
 
 type TradeRow = {
+  accountId?: string;
   executedAt: string;
   exchange: string;
   market: string;
@@ -40,11 +42,15 @@ function calculateTradeROI(realizedPnl: string, qty: string, price: string): num
 }
 
 // Função para formatar valores
-function formatCurrency(value: string | number): string {
+function formatCurrency(value: string | number, currency: string = 'BRL'): string {
   const num = Number(value || 0);
+  // USDT não é código ISO: formatar como número com sufixo
+  if (currency === 'USDT') {
+    return `${num.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`;
+  }
   return new Intl.NumberFormat('pt-BR', { 
     style: 'currency', 
-    currency: 'BRL',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2
   }).format(num);
@@ -142,12 +148,16 @@ export default function FuturesPage() {
   const market = 'FUTURES';
   const [symbol, setSymbol] = useState('');
   const [availableSymbols, setAvailableSymbols] = useState<string[]>([]);
+  const [tag, setTag] = useState('');
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [journalRow, setJournalRow] = useState<TradeRow | null>(null);
   const [loadingFilters, setLoadingFilters] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
   const [total, setTotal] = useState(0);
   const [rows, setRows] = useState<TradeRow[]>([]);
   const [summary, setSummary] = useState<{
+    currency?: string;
     pnlMonth: string;
     feesTotal: string;
     avgFeePct: string;
@@ -161,12 +171,15 @@ export default function FuturesPage() {
     currentDrawdown: string;
     winningTrades: number;
     losingTrades: number;
+    fundingTotal?: string;
+    otherIncomeTotal?: string;
+    netPnl?: string;
   } | null>(null);
   const [expandedOrders, setExpandedOrders] = useState<Record<string, boolean>>({});
   const [showSyncModal, setShowSyncModal] = useState(false);
   const [syncStartDate, setSyncStartDate] = useState(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
   const [syncEndDate, setSyncEndDate] = useState(new Date().toISOString().split('T')[0]);
-  const [syncSymbols, setSyncSymbols] = useState('BTCBRL\nETHBRL\nBNBBRL');
+  const [syncSymbols, setSyncSymbols] = useState('');
   const [showRecalcModal, setShowRecalcModal] = useState(false);
   const [recalcStartDate, setRecalcStartDate] = useState('');
   const [recalcEndDate, setRecalcEndDate] = useState('');
@@ -260,6 +273,17 @@ export default function FuturesPage() {
           const data = await response.json();
           setAvailableSymbols(data.symbols || []);
         }
+
+        // Tags do diário para o filtro
+        const tagsResponse = await fetch('/api/journal/tags', {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (tagsResponse.ok) {
+          const tagsData = await tagsResponse.json();
+          setAvailableTags((tagsData.tags || []).map((t: { name: string }) => t.name));
+        }
       } catch (error) {
         console.error('Error fetching filters:', error);
       } finally {
@@ -371,6 +395,7 @@ export default function FuturesPage() {
       }
       
       type ApiTrade = {
+        accountId: string;
         executedAt: string | Date;
         exchange: string;
         market: string;
@@ -390,6 +415,7 @@ export default function FuturesPage() {
         total: number;
         rows: ApiTrade[];
         summary: {
+          currency?: string;
           pnlMonth: string;
           feesTotal: string;
           avgFeePct: string;
@@ -403,12 +429,16 @@ export default function FuturesPage() {
           currentDrawdown: string;
           winningTrades: number;
           losingTrades: number;
+          fundingTotal?: string;
+          otherIncomeTotal?: string;
+          netPnl?: string;
         };
       };
       const params = new URLSearchParams({ month: currentMonth, page: String(page), pageSize: String(pageSize) });
       // Sempre filtrar por FUTURES
       params.set('market', 'FUTURES');
       if (symbol) params.set('symbol', symbol);
+      if (tag) params.set('tag', tag);
       if (useStartEnd) {
         if (period === 'custom' && startDate && endDate) {
           params.set('startDate', startDate);
@@ -450,6 +480,7 @@ export default function FuturesPage() {
               feeAsset: t.feeAsset,
               feePct: t.feePct,
               realizedPnl: t.realizedPnl,
+              accountId: t.accountId,
               orderId: t.orderId ?? undefined,
               tradeId: t.tradeId ?? undefined,
               orderType: t.orderType ?? null,
@@ -459,7 +490,7 @@ export default function FuturesPage() {
     };
     
     fetchData();
-  }, [month, period, startDate, endDate, selectedMonth, symbol, page, pageSize, earliestDate]);
+  }, [month, period, startDate, endDate, selectedMonth, symbol, tag, page, pageSize, earliestDate]);
 
   const handleExportCSV = async () => {
     const user = auth.currentUser;
@@ -1327,6 +1358,27 @@ export default function FuturesPage() {
           </span>
         )
       }),
+      columnHelper.display({
+        id: 'journal',
+        header: 'Diário',
+        cell: ({ row }) => {
+          const data = row.original;
+          // Anotação por ordem: grupos sem orderId real (DUP_) e execuções filhas não têm botão
+          if (!data.accountId || !data.orderId || data._isChild || data.orderId.startsWith('DUP_')) return null;
+          return (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setJournalRow(data);
+              }}
+              className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              title="Anotar no diário"
+            >
+              📝
+            </button>
+          );
+        }
+      }),
       columnHelper.accessor('tradeId', { 
         header: '🆔 Trade ID',
         cell: ({ getValue }) => (
@@ -1555,6 +1607,20 @@ export default function FuturesPage() {
             ))}
           </select>
         </div>
+        <div className="flex flex-col w-full sm:w-auto">
+          <label className="text-sm font-medium text-slate-300 mb-1">🏷️ Tag</label>
+          <select 
+            value={tag} 
+            onChange={(e) => { setTag(e.target.value); setPage(1); }} 
+            className="border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={loadingFilters}
+          >
+            <option value="">Todas</option>
+            {availableTags.map(t => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+        </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-2 w-full sm:w-auto">
           <button
             onClick={handleExportCSV}
@@ -1596,7 +1662,7 @@ export default function FuturesPage() {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 p-3 sm:p-4 bg-gradient-to-r from-blue-500/10 to-indigo-500/5 backdrop-blur-sm rounded-lg border border-white/10">
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-blue-400">
-                {formatCurrency(summary.pnlMonth)}
+                {formatCurrency(summary.pnlMonth, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">PnL Total</div>
             </div>
@@ -1614,7 +1680,7 @@ export default function FuturesPage() {
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-purple-400">
-                {formatCurrency(summary.feesTotal)}
+                {formatCurrency(summary.feesTotal, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Taxas Totais</div>
             </div>
@@ -1636,29 +1702,51 @@ export default function FuturesPage() {
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-green-400">
-                {formatCurrency(summary.bestTrade)}
+                {formatCurrency(summary.bestTrade, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Melhor Trade</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-red-400">
-                {formatCurrency(summary.worstTrade)}
+                {formatCurrency(summary.worstTrade, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Pior Trade</div>
             </div>
           </div>
 
+          {/* Funding e income de futuros */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 sm:gap-4 p-3 sm:p-4 bg-gradient-to-r from-amber-500/10 to-yellow-500/5 backdrop-blur-sm rounded-lg border border-white/10">
+            <div className="text-center">
+              <div className={`text-lg sm:text-2xl font-bold ${Number(summary.fundingTotal || 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(summary.fundingTotal || '0', summary.currency)}
+              </div>
+              <div className="text-xs sm:text-sm text-slate-400">Funding</div>
+            </div>
+            <div className="text-center">
+              <div className="text-lg sm:text-2xl font-bold text-amber-400">
+                {formatCurrency(summary.otherIncomeTotal || '0', summary.currency)}
+              </div>
+              <div className="text-xs sm:text-sm text-slate-400">Outros Income</div>
+            </div>
+            <div className="text-center">
+              <div className={`text-lg sm:text-2xl font-bold ${Number(summary.netPnl ?? summary.pnlMonth) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatCurrency(summary.netPnl ?? summary.pnlMonth, summary.currency)}
+              </div>
+              <div className="text-xs sm:text-sm text-slate-400">PnL Líquido (após funding)</div>
+            </div>
+          </div>
+
           {/* Métricas de risco */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 p-3 sm:p-4 bg-gradient-to-r from-red-500/10 to-pink-500/5 backdrop-blur-sm rounded-lg border border-white/10">
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-red-400">
-                {formatCurrency(summary.maxDrawdown)}
+                {formatCurrency(summary.maxDrawdown, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Max Drawdown</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-pink-400">
-                {formatCurrency(summary.currentDrawdown)}
+                {formatCurrency(summary.currentDrawdown, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Drawdown Atual</div>
             </div>
@@ -1875,7 +1963,7 @@ export default function FuturesPage() {
                         disabled={!!syncProgress || loadingSymbols}
                         className="text-xs bg-green-500/20 hover:bg-green-500/30 text-green-400 px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {loadingSymbols ? '⏳' : '🌐'} API Comuns
+                        {loadingSymbols ? '⏳' : '🌐'} API Descobertos
                       </button>
                       <button
                         type="button"
@@ -1920,12 +2008,12 @@ export default function FuturesPage() {
                     value={syncSymbols}
                     onChange={(e) => setSyncSymbols(e.target.value)}
                     className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white h-32"
-                    placeholder="BTCBRL&#10;ETHBRL&#10;BNBBRL"
+                    placeholder="Vazio = pares descobertos automaticamente&#10;BTCBRL&#10;ETHBRL"
                     disabled={!!syncProgress}
                   />
                   <p className="text-xs text-slate-400 mt-1">
                     <strong>Banco:</strong> Rápido (apenas sincronizados) | 
-                    <strong> API Comuns:</strong> Testa ~32 pares comuns | 
+                    <strong> API Descobertos:</strong> Testa pares de saldos e depósitos | 
                     <strong> Todos:</strong> Testa TODOS os pares disponíveis (pode demorar muito)
                   </p>
                 </div>
@@ -2790,6 +2878,13 @@ export default function FuturesPage() {
           </div>
         </div>
       )}
+      <JournalDrawer
+        open={!!journalRow}
+        onClose={() => setJournalRow(null)}
+        accountId={journalRow?.accountId ?? ''}
+        orderId={journalRow?.orderId}
+        symbol={journalRow?.symbol}
+      />
     </InternalLayout>
   );
 }
\ No newline at end of file
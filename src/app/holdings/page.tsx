@@ -0,0 +1,214 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import InternalLayout from '@/components/InternalLayout';
+import { auth } from '@/lib/firebase/client';
+import { onAuthStateChanged } from 'firebase/auth';
+import { createColumnHelper, flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table';
+
+type HoldingRow = {
+  accountId: string;
+  accountName: string;
+  asset: string;
+  qty: string;
+  avgCostUSDT: string;
+  costUSDT: string;
+  priceUSDT: string;
+  valueUSDT: string;
+  valueBRL: string;
+  unrealizedPnlUSDT: string;
+  unrealizedPnlBRL: string;
+  unrealizedPnlPct: string | null;
+  lots: number;
+  firstAcquiredAt: string;
+};
+
+type HoldingsTotals = {
+  costUSDT: string;
+  valueUSDT: string;
+  valueBRL: string;
+  unrealizedPnlUSDT: string;
+  unrealizedPnlBRL: string;
+};
+
+function formatCurrency(value: string | number): string {
+  const num = Number(value || 0);
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency: 'BRL',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(num);
+}
+
+function formatUSDT(value: string | number): string {
+  const num = Number(value || 0);
+  return `${num.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} USDT`;
+}
+
+function formatQty(value: string | number): string {
+  return Number(value || 0).toLocaleString('pt-BR', { maximumFractionDigits: 8 });
+}
+
+const columnHelper = createColumnHelper<HoldingRow>();
+
+const columns = [
+  columnHelper.accessor('asset', {
+    header: 'Ativo',
+    cell: info => <span className="font-semibold text-white">{info.getValue()}</span>,
+  }),
+  columnHelper.accessor('accountName', {
+    header: 'Conta',
+  }),
+  columnHelper.accessor('qty', {
+    header: 'Quantidade',
+    cell: info => formatQty(info.getValue()),
+  }),
+  columnHelper.accessor('avgCostUSDT', {
+    header: 'Custo Médio',
+    cell: info => formatUSDT(info.getValue()),
+  }),
+  columnHelper.accessor('priceUSDT', {
+    header: 'Preço Atual',
+    cell: info => formatUSDT(info.getValue()),
+  }),
+  columnHelper.accessor('valueBRL', {
+    header: 'Valor Atual',
+    cell: info => formatCurrency(info.getValue()),
+  }),
+  columnHelper.accessor('unrealizedPnlBRL', {
+    header: 'PnL Não Realizado',
+    cell: info => {
+      const value = Number(info.getValue());
+      const pct = info.row.original.unrealizedPnlPct;
+      return (
+        <span className={value >= 0 ? 'text-green-400' : 'text-red-400'}>
+          {formatCurrency(value)}
+          {pct !== null && <span className="text-xs ml-1">({Number(pct).toFixed(2)}%)</span>}
+        </span>
+      );
+    },
+  }),
+  columnHelper.accessor('lots', {
+    header: 'Lotes',
+  }),
+];
+
+export default function HoldingsPage() {
+  const [rows, setRows] = useState<HoldingRow[]>([]);
+  const [totals, setTotals] = useState<HoldingsTotals | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        setRows([]);
+        setTotals(null);
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      try {
+        const token = await user.getIdToken();
+        const res = await fetch('/api/holdings', {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setRows(data.rows || []);
+          setTotals(data.totals || null);
+        }
+      } catch (error) {
+        console.error('Error fetching holdings:', error);
+      } finally {
+        setLoading(false);
+      }
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const table = useReactTable({
+    data: rows,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+  });
+
+  const unrealized = Number(totals?.unrealizedPnlBRL || 0);
+
+  return (
+    <InternalLayout>
+      <div className="space-y-4 sm:space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl text-white">Carteira</h1>
+          <p className="text-sm text-slate-400">
+            Posições SPOT em aberto pelo método de custo configurado, com PnL não realizado a preço atual.
+          </p>
+        </div>
+
+        {/* KPIs */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+          <div className="bg-gradient-to-r from-blue-500/10 to-indigo-500/5 backdrop-blur-sm rounded-lg border border-white/10 p-3 sm:p-4">
+            <div className="text-xl sm:text-2xl font-bold text-blue-400">
+              {formatCurrency(totals?.valueBRL || 0)}
+            </div>
+            <div className="text-xs sm:text-sm text-slate-400">Valor Atual</div>
+          </div>
+          <div className="bg-gradient-to-r from-purple-500/10 to-fuchsia-500/5 backdrop-blur-sm rounded-lg border border-white/10 p-3 sm:p-4">
+            <div className="text-xl sm:text-2xl font-bold text-purple-400">
+              {formatUSDT(totals?.costUSDT || 0)}
+            </div>
+            <div className="text-xs sm:text-sm text-slate-400">Custo Total</div>
+          </div>
+          <div className={`bg-gradient-to-r ${unrealized >= 0 ? 'from-green-500/10 to-emerald-500/5' : 'from-red-500/10 to-pink-500/5'} backdrop-blur-sm rounded-lg border border-white/10 p-3 sm:p-4`}>
+            <div className={`text-xl sm:text-2xl font-bold ${unrealized >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatCurrency(unrealized)}
+            </div>
+            <div className="text-xs sm:text-sm text-slate-400">PnL Não Realizado</div>
+          </div>
+        </div>
+
+        {/* Tabela */}
+        <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 overflow-hidden relative z-10">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-800/50">
+                {table.getHeaderGroups().map(headerGroup => (
+                  <tr key={headerGroup.id}>
+                    {headerGroup.headers.map(header => (
+                      <th
+                        key={header.id}
+                        className="px-4 py-3 text-left text-sm font-semibold text-slate-300"
+                      >
+                        {flexRender(header.column.columnDef.header, header.getContext())}
+                      </th>
+                    ))}
+                  </tr>
+                ))}
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {table.getRowModel().rows.map(row => (
+                  <tr key={row.id} className="hover:bg-white/5 transition-colors">
+                    {row.getVisibleCells().map(cell => (
+                      <td key={cell.id} className="px-4 py-3 text-sm text-slate-300">
+                        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && rows.length === 0 && (
+            <div className="text-center py-12 text-slate-400">
+              Nenhuma posição em aberto. Sincronize ou importe trades SPOT para ver a carteira.
+            </div>
+          )}
+          {loading && (
+            <div className="text-center py-12 text-slate-400">Carregando...</div>
+          )}
+        </div>
+      </div>
+    </InternalLayout>
+  );
+}
@@ -1,18 +1,350 @@
 "use client";
+import { useEffect, useState } from 'react';
 import InternalLayout from '@/components/InternalLayout';
+import { auth } from '@/lib/firebase/client';
+import { onAuthStateChanged } from 'firebase/auth';
+
+type Settings = {
+  costBasisMethod: string;
+  reportingCurrency: string;
+  monthlyPnlTarget: number | null;
+  maxDailyLoss: number | null;
+  maxDrawdown: number | null;
+  maxTradesPerDay: number | null;
+};
+
+type GoalField = 'monthlyPnlTarget' | 'maxDailyLoss' | 'maxDrawdown' | 'maxTradesPerDay';
+
+const goalFields: { field: GoalField; label: string; hint: string; step: string }[] = [
+  { field: 'monthlyPnlTarget', label: 'Meta de PnL do mês', hint: 'Valor a atingir no mês', step: '0.01' },
+  { field: 'maxDailyLoss', label: 'Perda máxima por dia', hint: 'Valor positivo; estoura quando o PnL do dia fica abaixo de -limite', step: '0.01' },
+  { field: 'maxDrawdown', label: 'Drawdown máximo do mês', hint: 'Queda máxima do PnL acumulado a partir do pico', step: '0.01' },
+  { field: 'maxTradesPerDay', label: 'Máximo de trades por dia', hint: 'Ordens executadas no dia', step: '1' },
+];
+
+const costBasisOptions = [
+  { value: 'FIFO', label: 'FIFO (primeiro a entrar, primeiro a sair)' },
+  { value: 'AVERAGE', label: 'Custo médio ponderado (Receita Federal)' },
+  { value: 'LIFO', label: 'LIFO (último a entrar, primeiro a sair)' },
+];
+
+const reportingCurrencyOptions = [
+  { value: 'BRL', label: 'Real (BRL)' },
+  { value: 'USD', label: 'Dólar (USD, PTAX)' },
+  { value: 'USDT', label: 'Tether (USDT)' },
+];
 
 export default function SettingsPage() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [goalsDraft, setGoalsDraft] = useState<Record<GoalField, string>>({
+    monthlyPnlTarget: '',
+    maxDailyLoss: '',
+    maxDrawdown: '',
+    maxTradesPerDay: '',
+  });
+  const [cdiStatus, setCdiStatus] = useState<{ count: number; firstDate: string | null; lastDate: string | null } | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (!user) {
+        setSettings(null);
+        return;
+      }
+      try {
+        const token = await user.getIdToken();
+        const res = await fetch('/api/settings', {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setSettings(data.settings);
+        }
+        const cdiRes = await fetch('/api/benchmarks/cdi', {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (cdiRes.ok) {
+          setCdiStatus(await cdiRes.json());
+        }
+      } catch (error) {
+        console.error('Error fetching settings:', error);
+      }
+    });
+    return () => unsubscribe();
+  }, []);
+
+  // Campos do formulário de metas acompanham o que está salvo
+  useEffect(() => {
+    if (!settings) return;
+    setGoalsDraft({
+      monthlyPnlTarget: settings.monthlyPnlTarget?.toString() ?? '',
+      maxDailyLoss: settings.maxDailyLoss?.toString() ?? '',
+      maxDrawdown: settings.maxDrawdown?.toString() ?? '',
+      maxTradesPerDay: settings.maxTradesPerDay?.toString() ?? '',
+    });
+  }, [settings]);
+
+  const saveSettings = async (changes: Partial<Settings>) => {
+    const user = auth.currentUser;
+    if (!user || !settings) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await user.getIdToken();
+      const res = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify(changes)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data.error || 'Erro ao salvar configurações');
+        return;
+      }
+      setSettings(data.settings);
+      setMessage(data.jobId
+        ? 'Configurações salvas. O PnL está sendo recalculado em segundo plano.'
+        : 'Configurações salvas.');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      setMessage('Erro ao salvar configurações');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rebuildBalances = async () => {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await user.getIdToken();
+      const res = await fetch('/api/jobs/rebuild-balances', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const data = await res.json();
+      setMessage(res.ok
+        ? 'Reconstrução dos saldos mensais iniciada em segundo plano.'
+        : data.error || 'Erro ao reconstruir saldos');
+    } catch (error) {
+      console.error('Error rebuilding balances:', error);
+      setMessage('Erro ao reconstruir saldos');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const importSnapshots = async () => {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await user.getIdToken();
+      const res = await fetch('/api/jobs/snapshots', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const data = await res.json();
+      setMessage(res.ok
+        ? 'Importação dos snapshots de patrimônio iniciada em segundo plano.'
+        : data.error || 'Erro ao importar snapshots');
+    } catch (error) {
+      console.error('Error importing snapshots:', error);
+      setMessage('Erro ao importar snapshots');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Busca no SGS do último dia guardado (ou dos últimos 5 anos) até hoje
+  const fetchCdi = async () => {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const token = await user.getIdToken();
+      const today = new Date().toISOString().slice(0, 10);
+      const startDate = cdiStatus?.lastDate
+        ?? new Date(Date.now() - 5 * 365 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const res = await fetch('/api/benchmarks/cdi', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate: today })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setMessage(data.error || 'Erro ao buscar CDI');
+        return;
+      }
+      setMessage(`${data.inserted} taxas de CDI buscadas no Banco Central.`);
+      const statusRes = await fetch('/api/benchmarks/cdi', {
+        cache: 'no-store',
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      if (statusRes.ok) {
+        setCdiStatus(await statusRes.json());
+      }
+    } catch (error) {
+      console.error('Error fetching CDI:', error);
+      setMessage('Erro ao buscar CDI');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   return (
     <InternalLayout>
       <div className="space-y-6">
         <h1 className="text-3xl text-white">Configurações</h1>
         <p className="text-slate-400">Gerencie preferências da sua conta e do aplicativo.</p>
-        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6">
-          <p className="text-slate-300">Em breve: temas, preferências, notificações.</p>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">Cálculo de PnL (SPOT)</h2>
+            <p className="text-sm text-slate-400">
+              Método de custo usado para calcular o lucro/prejuízo realizado das vendas.
+              No spot a taxa da compra entra no custo e a da venda sai do valor recebido.
+              Futuros usam o PnL informado pela Binance.
+            </p>
+          </div>
+          <select
+            value={settings?.costBasisMethod ?? 'FIFO'}
+            onChange={(e) => saveSettings({ costBasisMethod: e.target.value })}
+            disabled={!settings || saving}
+            className="border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {costBasisOptions.map(opt => (
+              <option key={opt.value} value={opt.value} className="bg-slate-900">{opt.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">Moeda de relatório</h2>
+            <p className="text-sm text-slate-400">
+              PnL e taxas de todos os pares são convertidos para esta moeda no câmbio do dia de cada operação,
+              para somar spot em BRL com futuros em USDT.
+            </p>
+          </div>
+          <select
+            value={settings?.reportingCurrency ?? 'BRL'}
+            onChange={(e) => saveSettings({ reportingCurrency: e.target.value })}
+            disabled={!settings || saving}
+            className="border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {reportingCurrencyOptions.map(opt => (
+              <option key={opt.value} value={opt.value} className="bg-slate-900">{opt.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">Metas e limites de risco</h2>
+            <p className="text-sm text-slate-400">
+              Valores na moeda de relatório ({settings?.reportingCurrency ?? 'BRL'}). O dashboard mostra o progresso do mês
+              e marca no calendário os dias que estouraram os limites diários. Deixe em branco para não usar.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {goalFields.map(({ field, label, hint, step }) => (
+              <label key={field} className="block">
+                <span className="text-sm text-slate-300">{label}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={goalsDraft[field]}
+                  onChange={(e) => setGoalsDraft({ ...goalsDraft, [field]: e.target.value })}
+                  disabled={!settings || saving}
+                  className="mt-1 w-full border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <span className="text-xs text-slate-500">{hint}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => saveSettings({
+              monthlyPnlTarget: goalsDraft.monthlyPnlTarget ? Number(goalsDraft.monthlyPnlTarget) : null,
+              maxDailyLoss: goalsDraft.maxDailyLoss ? Number(goalsDraft.maxDailyLoss) : null,
+              maxDrawdown: goalsDraft.maxDrawdown ? Number(goalsDraft.maxDrawdown) : null,
+              maxTradesPerDay: goalsDraft.maxTradesPerDay ? Number(goalsDraft.maxTradesPerDay) : null,
+            })}
+            disabled={!settings || saving}
+            className="px-4 py-2.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Salvar metas
+          </button>
         </div>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">Saldos iniciais mensais</h2>
+            <p className="text-sm text-slate-400">
+              Recalcula o saldo inicial de cada mês pelo patrimônio no fechamento do mês anterior
+              (depósitos, saques e trades a preço histórico). Saldos digitados manualmente são mantidos.
+            </p>
+          </div>
+          <button
+            onClick={rebuildBalances}
+            disabled={saving}
+            className="px-4 py-2.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Reconstruir saldos
+          </button>
+        </div>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">Snapshots de patrimônio</h2>
+            <p className="text-sm text-slate-400">
+              O saldo de cada conta é registrado diariamente. Importe os snapshots da Binance
+              para preencher os últimos 30 dias da curva de patrimônio.
+            </p>
+          </div>
+          <button
+            onClick={importSnapshots}
+            disabled={saving}
+            className="px-4 py-2.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Importar snapshots
+          </button>
+        </div>
+        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6 space-y-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">CDI (benchmark)</h2>
+            <p className="text-sm text-slate-400">
+              A taxa DI diária é buscada no Banco Central (SGS, série 12) quando falta no período comparado.
+              A tabela é compartilhada entre todos os usuários.
+            </p>
+            {cdiStatus && (
+              <p className="text-xs text-slate-500 mt-1">
+                {cdiStatus.count > 0
+                  ? `${cdiStatus.count} dias guardados, de ${cdiStatus.firstDate?.split('-').reverse().join('/')} a ${cdiStatus.lastDate?.split('-').reverse().join('/')}.`
+                  : 'Nenhuma taxa guardada ainda.'}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={fetchCdi}
+            disabled={saving}
+            className="px-4 py-2.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Atualizar CDI do Banco Central
+          </button>
+        </div>
+        {message && <p className="text-sm text-slate-300">{message}</p>}
       </div>
     </InternalLayout>
   );
 }
-
-
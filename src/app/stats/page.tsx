@@ -1,18 +1,407 @@
 "use client";
+import React, { useEffect, useState } from 'react';
 import InternalLayout from '@/components/InternalLayout';
+import { RollingMetricChart } from '@/components/RollingMetricChart';
+import { TimeHeatmap } from '@/components/TimeHeatmap';
+import { BenchmarkChart, BenchmarkData } from '@/components/BenchmarkChart';
+import { FeeBreakdown, FeeAnalyticsData } from '@/components/FeeBreakdown';
+import { SlippageTable, SlippageData } from '@/components/SlippageTable';
+import { auth } from '@/lib/firebase/client';
+import { onAuthStateChanged, User } from 'firebase/auth';
+
+type Metrics = {
+  pnl: number;
+  fees: number;
+  tradesCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  bestTrade: number;
+  worstTrade: number;
+  maxDrawdown: number;
+  currentDrawdown: number;
+  grossProfit: number;
+  grossLoss: number;
+  profitFactor: number | null;
+  expectancy: number;
+  avgWin: number;
+  avgLoss: number;
+  payoffRatio: number | null;
+  longestWinStreak: number;
+  longestLossStreak: number;
+};
+
+type RollingStats = {
+  date: string;
+  pnl: number;
+  tradesCount: number;
+  winRate: number;
+  profitFactor: number | null;
+  expectancy: number;
+  sharpe: number | null;
+};
+
+type Stats = {
+  currency: string;
+  metrics: Metrics;
+  sharpe: number | null;
+  sortino: number | null;
+  startEquity: number | null;
+  rolling: RollingStats[];
+};
+
+type TimeBucket = {
+  pnl: number;
+  tradesCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+};
+
+type TimeOfDay = {
+  timeZone: string;
+  byHour: TimeBucket[];
+  byWeekday: TimeBucket[];
+  grid: TimeBucket[][];
+};
+
+type RollingKey = 'pnl' | 'winRate' | 'profitFactor' | 'expectancy' | 'sharpe';
+
+function formatCurrency(value: number, currency: string = 'BRL'): string {
+  // USDT não é código ISO: formatar como número com sufixo
+  if (currency === 'USDT') {
+    return `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`;
+  }
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '—' : value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function StatCard({ label, value, hint, tone = 'text-white' }: { label: string; value: string; hint?: string; tone?: string }) {
+  return (
+    <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-3 sm:p-4">
+      <div className={`text-xl sm:text-2xl font-bold ${tone}`}>{value}</div>
+      <div className="text-xs sm:text-sm text-slate-400">{label}</div>
+      {hint && <div className="text-xs text-slate-500 mt-1">{hint}</div>}
+    </div>
+  );
+}
 
 export default function StatsPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay | null>(null);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkData | null>(null);
+  const [fees, setFees] = useState<FeeAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [month, setMonth] = useState(currentMonth);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [market, setMarket] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [availableMarkets, setAvailableMarkets] = useState<string[]>([]);
+  const [availableSymbols, setAvailableSymbols] = useState<string[]>([]);
+  const [accounts, setAccounts] = useState<{ id: string; name: string }[]>([]);
+  const [rollingKey, setRollingKey] = useState<RollingKey>('pnl');
+  const [slippage, setSlippage] = useState<SlippageData | null>(null);
+  const [slippageReference, setSlippageReference] = useState<'open' | 'mid'>('open');
+  const [slippageLoading, setSlippageLoading] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (u) => setUser(u));
+    return () => unsubscribe();
+  }, []);
+
+  // Opções de filtro
+  useEffect(() => {
+    if (!user) return;
+    (async () => {
+      try {
+        const token = await user.getIdToken();
+        const [filtersRes, accountsRes] = await Promise.all([
+          fetch('/api/trades/filters', { headers: { Authorization: `Bearer ${token}` } }),
+          fetch('/api/accounts', { headers: { Authorization: `Bearer ${token}` } }),
+        ]);
+        if (filtersRes.ok) {
+          const data = await filtersRes.json();
+          setAvailableMarkets(data.markets || []);
+          setAvailableSymbols(data.symbols || []);
+        }
+        if (accountsRes.ok) {
+          const data = await accountsRes.json();
+          setAccounts((data.results || []).map((a: { id: string; name: string }) => ({ id: a.id, name: a.name })));
+        }
+      } catch (err) {
+        console.error('Error fetching filters:', err);
+      }
+    })();
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setStats(null);
+      setLoading(false);
+      return;
+    }
+    const custom = startDate && endDate;
+    if (!custom && !month) return;
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const token = await user.getIdToken();
+        const params = new URLSearchParams(custom ? { startDate, endDate } : { month });
+        if (market) params.set('market', market);
+        if (symbol) params.set('symbol', symbol);
+        if (accountId) params.set('accountIds', accountId);
+        // Dias das estatísticas e heatmap por hora/dia da semana no fuso do navegador
+        const tzParams = new URLSearchParams(params);
+        tzParams.set('tz', Intl.DateTimeFormat().resolvedOptions().timeZone);
+        // Benchmarks comparam a carteira inteira: só o período se aplica
+        const periodParams = new URLSearchParams(custom ? { startDate, endDate } : { month });
+        const [res, tzRes, benchRes, feesRes] = await Promise.all([
+          fetch(`/api/analytics/stats?${tzParams.toString()}`, {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${token}` }
+          }),
+          fetch(`/api/analytics/time-of-day?${tzParams.toString()}`, {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${token}` }
+          }),
+          fetch(`/api/analytics/benchmarks?${periodParams.toString()}`, {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${token}` }
+          }),
+          fetch(`/api/analytics/fees?${params.toString()}`, {
+            cache: 'no-store',
+            headers: { Authorization: `Bearer ${token}` }
+          }),
+        ]);
+        setTimeOfDay(tzRes.ok ? await tzRes.json() : null);
+        setBenchmarks(benchRes.ok ? await benchRes.json() : null);
+        setFees(feesRes.ok ? await feesRes.json() : null);
+        const data = await res.json();
+        if (res.ok) {
+          setStats(data);
+        } else {
+          setStats(null);
+          setError(data.error || 'Erro ao carregar estatísticas');
+        }
+      } catch (err) {
+        console.error('Error fetching stats:', err);
+        setError('Erro ao carregar estatísticas');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [user, month, startDate, endDate, market, symbol, accountId]);
+
+  // Slippage à parte: pode precisar buscar candles de 1m na Binance e não deve travar o resto
+  useEffect(() => {
+    if (!user) return;
+    const custom = startDate && endDate;
+    if (!custom && !month) return;
+
+    (async () => {
+      setSlippageLoading(true);
+      try {
+        const token = await user.getIdToken();
+        const params = new URLSearchParams(custom ? { startDate, endDate } : { month });
+        if (market) params.set('market', market);
+        if (symbol) params.set('symbol', symbol);
+        if (accountId) params.set('accountIds', accountId);
+        params.set('reference', slippageReference);
+        const res = await fetch(`/api/analytics/slippage?${params.toString()}`, {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        setSlippage(res.ok ? await res.json() : null);
+      } catch (err) {
+        console.error('Error fetching slippage:', err);
+        setSlippage(null);
+      } finally {
+        setSlippageLoading(false);
+      }
+    })();
+  }, [user, month, startDate, endDate, market, symbol, accountId, slippageReference]);
+
+  const currency = stats?.currency || 'BRL';
+  const m = stats?.metrics;
+  const money = (value: number) => formatCurrency(value, currency);
+  const rollingOptions: Record<RollingKey, { label: string; format: (v: number) => string }> = {
+    pnl: { label: 'PnL 30d', format: money },
+    winRate: { label: 'Win rate 30d', format: v => `${(v * 100).toFixed(1)}%` },
+    profitFactor: { label: 'Profit factor 30d', format: v => formatRatio(v) },
+    expectancy: { label: 'Expectativa 30d', format: money },
+    sharpe: { label: 'Sharpe 30d', format: v => formatRatio(v) },
+  };
+  const inputClass = 'border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
   return (
     <InternalLayout>
-      <div className="space-y-6">
-        <h1 className="text-3xl text-white">Estatísticas</h1>
-        <p className="text-slate-400">Relatórios e métricas detalhadas (em breve).</p>
-        <div className="relative overflow-hidden border-white/10 bg-gradient-to-br from-white/5 to-white/[0.02] backdrop-blur-sm rounded-xl p-6">
-          <p className="text-slate-300">Aqui você verá win rate por período, drawdown, Sharpe, etc.</p>
+      <div className="space-y-4 sm:space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl text-white">Estatísticas</h1>
+          <p className="text-sm text-slate-400">
+            Métricas de risco e consistência dos trades. Sharpe e Sortino anualizados sobre retornos diários do patrimônio.
+          </p>
+        </div>
+
+        {/* Filtros */}
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => { setMonth(e.target.value); setStartDate(''); setEndDate(''); }}
+            className={inputClass}
+          />
+          <input type="date" value={startDate} max={endDate || undefined} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          <input type="date" value={endDate} min={startDate || undefined} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+            <option value="" className="bg-slate-800">Todas as contas</option>
+            {accounts.map(a => <option key={a.id} value={a.id} className="bg-slate-800">{a.name}</option>)}
+          </select>
+          <select value={market} onChange={(e) => setMarket(e.target.value)} className={inputClass}>
+            <option value="" className="bg-slate-800">Todos os mercados</option>
+            {availableMarkets.map(mk => <option key={mk} value={mk} className="bg-slate-800">{mk}</option>)}
+          </select>
+          <select value={symbol} onChange={(e) => setSymbol(e.target.value)} className={inputClass}>
+            <option value="" className="bg-slate-800">Todos os símbolos</option>
+            {availableSymbols.map(s => <option key={s} value={s} className="bg-slate-800">{s}</option>)}
+          </select>
         </div>
+
+        {loading && <div className="text-center py-12 text-slate-400">Carregando...</div>}
+        {!loading && error && <div className="text-center py-12 text-red-400">{error}</div>}
+
+        {!loading && stats && m && (
+          <>
+            {/* Risco */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+              <StatCard label="Sharpe (a.a.)" value={formatRatio(stats.sharpe)} tone="text-cyan-400" />
+              <StatCard label="Sortino (a.a.)" value={formatRatio(stats.sortino)} tone="text-cyan-400" />
+              <StatCard label="Drawdown máximo" value={money(m.maxDrawdown)} hint={`Atual: ${money(m.currentDrawdown)}`} tone="text-red-400" />
+              <StatCard
+                label="PnL realizado"
+                value={money(m.pnl)}
+                hint={`${m.tradesCount} trades · win rate ${(m.winRate * 100).toFixed(1)}%`}
+                tone={m.pnl >= 0 ? 'text-green-400' : 'text-red-400'}
+              />
+            </div>
+
+            {/* Por trade */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+              <StatCard label="Profit factor" value={formatRatio(m.profitFactor)} hint={`${money(m.grossProfit)} / ${money(m.grossLoss)}`} />
+              <StatCard label="Expectativa por trade" value={money(m.expectancy)} tone={m.expectancy >= 0 ? 'text-green-400' : 'text-red-400'} />
+              <StatCard label="Ganho médio" value={money(m.avgWin)} hint={`Melhor: ${money(m.bestTrade)}`} tone="text-green-400" />
+              <StatCard label="Perda média" value={money(m.avgLoss)} hint={`Pior: ${money(m.worstTrade)}`} tone="text-red-400" />
+              <StatCard label="Payoff" value={formatRatio(m.payoffRatio)} hint="Ganho médio / perda média" />
+              <StatCard label="Maior sequência de ganhos" value={String(m.longestWinStreak)} tone="text-green-400" />
+              <StatCard label="Maior sequência de perdas" value={String(m.longestLossStreak)} tone="text-red-400" />
+              <StatCard label="Taxas" value={money(m.fees)} />
+            </div>
+
+            {/* Métricas móveis */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                <h2 className="text-lg text-white">Janela móvel de 30 dias</h2>
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(rollingOptions) as RollingKey[]).map(key => (
+                    <button
+                      key={key}
+                      onClick={() => setRollingKey(key)}
+                      className={`px-3 py-1 rounded-lg text-sm border border-white/10 ${rollingKey === key ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-400 hover:bg-white/5'}`}
+                    >
+                      {rollingOptions[key].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {stats.rolling.length > 0 ? (
+                <RollingMetricChart
+                  data={stats.rolling.map(r => ({ date: r.date, value: r[rollingKey] }))}
+                  label={rollingOptions[rollingKey].label}
+                  format={rollingOptions[rollingKey].format}
+                />
+              ) : (
+                <div className="text-center py-12 text-slate-400">Sem dias no período.</div>
+              )}
+            </div>
+
+            {/* Custo de taxas */}
+            {fees && (fees.trading.fills > 0 || fees.network.withdrawals.length > 0) && (
+              <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+                <h2 className="text-lg text-white mb-2">Taxas e custo efetivo</h2>
+                <FeeBreakdown data={fees} formatMoney={(value) => formatCurrency(value, fees.currency)} />
+              </div>
+            )}
+
+            {/* Slippage das ordens a mercado */}
+            <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+                <h2 className="text-lg text-white">Execução a mercado (slippage)</h2>
+                <div className="flex gap-2">
+                  {(['open', 'mid'] as const).map(ref => (
+                    <button
+                      key={ref}
+                      onClick={() => setSlippageReference(ref)}
+                      className={`px-3 py-1 rounded-lg text-sm border border-white/10 ${slippageReference === ref ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-400 hover:bg-white/5'}`}
+                    >
+                      {ref === 'open' ? 'vs abertura' : 'vs meio da candle'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {slippageLoading ? (
+                <div className="text-center py-8 text-slate-400">Carregando candles de 1 minuto...</div>
+              ) : slippage && slippage.groups.length > 0 ? (
+                <SlippageTable data={slippage} formatMoney={(value) => formatCurrency(value, slippage.currency)} />
+              ) : (
+                <div className="text-center py-8 text-slate-400">Sem ordens a mercado no spot no período.</div>
+              )}
+            </div>
+
+            {/* Carteira x BTC x CDI */}
+            {benchmarks && benchmarks.points.length > 0 && (
+              <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+                <h2 className="text-lg text-white mb-2">Carteira x BTC x CDI</h2>
+                <BenchmarkChart data={benchmarks} formatMoney={(value) => formatCurrency(value, benchmarks.currency)} />
+              </div>
+            )}
+
+            {/* Hora do dia x dia da semana */}
+            {timeOfDay && (
+              <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 p-4">
+                <div className="mb-2">
+                  <h2 className="text-lg text-white">Por horário e dia da semana</h2>
+                  <p className="text-xs text-slate-500">Horário de {timeOfDay.timeZone}, pela primeira execução de cada ordem.</p>
+                </div>
+                <TimeHeatmap
+                  grid={timeOfDay.grid}
+                  byHour={timeOfDay.byHour}
+                  byWeekday={timeOfDay.byWeekday}
+                  formatMoney={money}
+                />
+              </div>
+            )}
+          </>
+        )}
       </div>
     </InternalLayout>
   );
 }
-
-
@@ -0,0 +1,244 @@
+"use client";
+import React, { useEffect, useState } from 'react';
+import InternalLayout from '@/components/InternalLayout';
+import { auth } from '@/lib/firebase/client';
+import { onAuthStateChanged, User } from 'firebase/auth';
+
+type Metrics = {
+  pnl: number;
+  fees: number;
+  avgFeePct: number;
+  tradesCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  bestTrade: number;
+  worstTrade: number;
+  totalVolume: number;
+  maxDrawdown: number;
+  currentDrawdown: number;
+};
+
+type StrategyGroup = {
+  tag: { id: string; name: string; kind: string; color: string | null } | null;
+  metrics: Metrics;
+  byPeriod: { period: string; metrics: Metrics }[];
+};
+
+const KIND_LABELS: Record<string, string> = {
+  setup: 'Setup',
+  strategy: 'Estratégia',
+  mistake: 'Erro',
+};
+
+function formatCurrency(value: number, currency: string = 'BRL'): string {
+  // USDT não é código ISO: formatar como número com sufixo
+  if (currency === 'USDT') {
+    return `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`;
+  }
+  return new Intl.NumberFormat('pt-BR', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+}
+
+function formatPeriod(period: string): string {
+  if (period.length === 7) {
+    const [year, month] = period.split('-');
+    return `${month}/${year}`;
+  }
+  const [year, month, day] = period.split('-');
+  return `Sem. ${day}/${month}/${year.slice(2)}`;
+}
+
+function defaultStartDate(): string {
+  const d = new Date();
+  d.setUTCMonth(d.getUTCMonth() - 5, 1);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function StrategiesPage() {
+  const [user, setUser] = useState<User | null>(null);
+  const [groups, setGroups] = useState<StrategyGroup[]>([]);
+  const [periods, setPeriods] = useState<string[]>([]);
+  const [currency, setCurrency] = useState('BRL');
+  const [loading, setLoading] = useState(true);
+  const [startDate, setStartDate] = useState(defaultStartDate);
+  const [endDate, setEndDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [market, setMarket] = useState('');
+  const [kind, setKind] = useState('');
+  const [period, setPeriod] = useState<'month' | 'week'>('month');
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (u) => setUser(u));
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setGroups([]);
+      setPeriods([]);
+      setLoading(false);
+      return;
+    }
+    if (!startDate || !endDate) return;
+
+    (async () => {
+      setLoading(true);
+      try {
+        const token = await user.getIdToken();
+        const params = new URLSearchParams({ startDate, endDate, period });
+        if (market) params.set('market', market);
+        if (kind) params.set('kind', kind);
+        const res = await fetch(`/api/analytics/strategies?${params.toString()}`, {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` }
+        });
+        if (res.ok) {
+          const data = await res.json();
+          setGroups(data.groups || []);
+          setPeriods(data.periods || []);
+          setCurrency(data.currency || 'BRL');
+        }
+      } catch (error) {
+        console.error('Error fetching strategy performance:', error);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [user, startDate, endDate, market, kind, period]);
+
+  const inputClass = 'border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <InternalLayout>
+      <div className="space-y-4 sm:space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl text-white">Estratégias</h1>
+          <p className="text-sm text-slate-400">
+            Desempenho das ordens e posições por tag do diário. Um trade com várias tags conta em todas.
+          </p>
+        </div>
+
+        {/* Filtros */}
+        <div className="flex flex-wrap gap-3">
+          <input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          <select value={market} onChange={(e) => setMarket(e.target.value)} className={inputClass}>
+            <option value="" className="bg-slate-800">Todos os mercados</option>
+            <option value="SPOT" className="bg-slate-800">SPOT</option>
+            <option value="FUTURES" className="bg-slate-800">FUTURES</option>
+          </select>
+          <select value={kind} onChange={(e) => setKind(e.target.value)} className={inputClass}>
+            <option value="" className="bg-slate-800">Todos os tipos de tag</option>
+            {Object.entries(KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value} className="bg-slate-800">{label}</option>
+            ))}
+          </select>
+          <select value={period} onChange={(e) => setPeriod(e.target.value as 'month' | 'week')} className={inputClass}>
+            <option value="month" className="bg-slate-800">Por mês</option>
+            <option value="week" className="bg-slate-800">Por semana</option>
+          </select>
+        </div>
+
+        {/* Resumo por tag */}
+        <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 overflow-hidden relative z-10">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-800/50">
+                <tr>
+                  {['Tag', 'Tipo', 'Trades', 'Win Rate', 'PnL', 'Taxas', 'Melhor', 'Pior', 'Max DD', 'Volume'].map(h => (
+                    <th key={h} className="px-4 py-3 text-left text-sm font-semibold text-slate-300">{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5">
+                {groups.map(g => (
+                  <tr key={g.tag?.id ?? 'untagged'} className="hover:bg-white/5 transition-colors">
+                    <td className="px-4 py-3 text-sm">
+                      {g.tag ? (
+                        <span className="inline-flex items-center gap-2 font-semibold text-white">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: g.tag.color || '#64748b' }} />
+                          {g.tag.name}
+                        </span>
+                      ) : (
+                        <span className="italic text-slate-400">Sem tag</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{g.tag ? KIND_LABELS[g.tag.kind] ?? g.tag.kind : '—'}</td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{g.metrics.tradesCount}</td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{(g.metrics.winRate * 100).toFixed(1)}%</td>
+                    <td className={`px-4 py-3 text-sm font-semibold ${g.metrics.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatCurrency(g.metrics.pnl, currency)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{formatCurrency(g.metrics.fees, currency)}</td>
+                    <td className="px-4 py-3 text-sm text-green-400">{formatCurrency(g.metrics.bestTrade, currency)}</td>
+                    <td className="px-4 py-3 text-sm text-red-400">{formatCurrency(g.metrics.worstTrade, currency)}</td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{formatCurrency(g.metrics.maxDrawdown, currency)}</td>
+                    <td className="px-4 py-3 text-sm text-slate-300">{formatCurrency(g.metrics.totalVolume, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!loading && groups.length === 0 && (
+            <div className="text-center py-12 text-slate-400">
+              Nenhum trade no período. Marque ordens ou posições com tags no diário para comparar estratégias.
+            </div>
+          )}
+          {loading && (
+            <div className="text-center py-12 text-slate-400">Carregando...</div>
+          )}
+        </div>
+
+        {/* Comparação entre períodos */}
+        {!loading && groups.length > 0 && periods.length > 1 && (
+          <div className="bg-slate-900/50 backdrop-blur-sm rounded-lg border border-white/10 overflow-hidden">
+            <div className="px-4 py-3 border-b border-white/10">
+              <h2 className="text-lg text-white">PnL por {period === 'month' ? 'mês' : 'semana'}</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-800/50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-slate-300">Tag</th>
+                    {periods.map(p => (
+                      <th key={p} className="px-4 py-3 text-right text-sm font-semibold text-slate-300 whitespace-nowrap">{formatPeriod(p)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {groups.map(g => {
+                    const byPeriod = new Map(g.byPeriod.map(p => [p.period, p.metrics]));
+                    return (
+                      <tr key={g.tag?.id ?? 'untagged'} className="hover:bg-white/5 transition-colors">
+                        <td className="px-4 py-3 text-sm text-white whitespace-nowrap">{g.tag?.name ?? 'Sem tag'}</td>
+                        {periods.map(p => {
+                          const m = byPeriod.get(p);
+                          return (
+                            <td key={p} className="px-4 py-3 text-sm text-right whitespace-nowrap">
+                              {m ? (
+                                <span className={m.pnl >= 0 ? 'text-green-400' : 'text-red-400'} title={`${m.tradesCount} trades · win rate ${(m.winRate * 100).toFixed(1)}%`}>
+                                  {formatCurrency(m.pnl, currency)}
+                                </span>
+                              ) : (
+                                <span className="text-slate-600">—</span>
+                              )}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </InternalLayout>
+  );
+}
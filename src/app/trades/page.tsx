@@ -2,6 +2,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Toolbar } from '@/components/Toolbar';
 import InternalLayout from '@/components/InternalLayout';
+import JournalDrawer from '@/components/JournalDrawer';
 import { auth } from '@/lib/firebase/client';
 import { onAuthStateChanged } from 'firebase/auth';
 import { createColumnHelper, flexRender, getCoreRowModel, useReactTable } from '@tanstack/react-table';
@@ -16,6 +17,7 @@ declare global {
 }
 
 type TradeRow = {
+  accountId?: string;
   executedAt: string;
   exchange: string;
   market: string;
@@ -42,11 +44,15 @@ function calculateTradeROI(realizedPnl: string, qty: string, price: string): num
 }
 
 // Função para formatar valores
-function formatCurrency(value: string | number): string {
+function formatCurrency(value: string | number, currency: string = 'BRL'): string {
   const num = Number(value || 0);
+  // USDT não é código ISO: formatar como número com sufixo
+  if (currency === 'USDT') {
+    return `${num.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`;
+  }
   return new Intl.NumberFormat('pt-BR', { 
     style: 'currency', 
-    currency: 'BRL',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2
   }).format(num);
@@ -153,12 +159,16 @@ export default function TradesPage() {
   const [symbol, setSymbol] = useState('');
   const [availableMarkets, setAvailableMarkets] = useState<string[]>([]);
   const [availableSymbols, setAvailableSymbols] = useState<string[]>([]);
+  const [tag, setTag] = useState('');
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [journalRow, setJournalRow] = useState<TradeRow | null>(null);
   const [loadingFilters, setLoadingFilters] = useState(false);
   const [page, setPage] = useState(1);
   const [pageSize, setPageSize] = useState(20);
   const [total, setTotal] = useState(0);
   const [rows, setRows] = useState<TradeRow[]>([]);
   const [summary, setSummary] = useState<{
+    currency?: string;
     pnlMonth: string;
     roiTotal: string | null;
     feesTotal: string;
@@ -174,11 +184,14 @@ export default function TradesPage() {
     winningTrades: number;
     losingTrades: number;
   } | null>(null);
+  // TWR/XIRR da carteira inteira: só dependem do período, não dos filtros nem da página
+  const [returnsParams, setReturnsParams] = useState('');
+  const [returns, setReturns] = useState<{ twr: number | null; xirr: number | null } | null>(null);
   const [expandedOrders, setExpandedOrders] = useState<Record<string, boolean>>({});
   const [showSyncModal, setShowSyncModal] = useState(false);
   const [syncStartDate, setSyncStartDate] = useState(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
   const [syncEndDate, setSyncEndDate] = useState(new Date().toISOString().split('T')[0]);
-  const [syncSymbols, setSyncSymbols] = useState('BTCBRL\nETHBRL\nBNBBRL');
+  const [syncSymbols, setSyncSymbols] = useState('');
   const [showDeduplicateModal, setShowDeduplicateModal] = useState(false);
   const [deduplicatePeriod, setDeduplicatePeriod] = useState('month');
   const [deduplicateStartDate, setDeduplicateStartDate] = useState('');
@@ -246,6 +259,18 @@ export default function TradesPage() {
     fileName?: string;
   } | null>(null);
 
+  // Período vindo da URL (ex.: clique num dia do calendário do dashboard)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const urlStart = params.get('startDate');
+    const urlEnd = params.get('endDate');
+    if (urlStart && urlEnd) {
+      setStartDate(urlStart);
+      setEndDate(urlEnd);
+      setPeriod('custom');
+    }
+  }, []);
+
   useEffect(() => {
     const fetchEarliestDate = async () => {
       const user = auth.currentUser;
@@ -293,6 +318,17 @@ export default function TradesPage() {
           setAvailableMarkets(data.markets || []);
           setAvailableSymbols(data.symbols || []);
         }
+
+        // Tags do diário para o filtro
+        const tagsResponse = await fetch('/api/journal/tags', {
+          headers: {
+            Authorization: `Bearer ${token}`
+          }
+        });
+        if (tagsResponse.ok) {
+          const tagsData = await tagsResponse.json();
+          setAvailableTags((tagsData.tags || []).map((t: { name: string }) => t.name));
+        }
       } catch (error) {
         console.error('Error fetching filters:', error);
       } finally {
@@ -419,6 +455,7 @@ export default function TradesPage() {
         }
         
         type ApiTrade = {
+          accountId: string;
           executedAt: string | Date;
           exchange: string;
           market: string;
@@ -438,6 +475,7 @@ export default function TradesPage() {
           total: number;
           rows: ApiTrade[];
           summary: {
+            currency?: string;
             pnlMonth: string;
             roiTotal: string | null;
             feesTotal: string;
@@ -457,6 +495,7 @@ export default function TradesPage() {
         const params = new URLSearchParams({ month: currentMonth, page: String(page), pageSize: String(pageSize) });
         if (market) params.set('market', market);
         if (symbol) params.set('symbol', symbol);
+        if (tag) params.set('tag', tag);
         if (useStartEnd) {
           if (period === 'custom' && startDate && endDate) {
             params.set('startDate', startDate);
@@ -470,6 +509,13 @@ export default function TradesPage() {
           }
         }
         
+        const periodParams = new URLSearchParams({ month: currentMonth });
+        if (params.get('startDate') && params.get('endDate')) {
+          periodParams.set('startDate', params.get('startDate')!);
+          periodParams.set('endDate', params.get('endDate')!);
+        }
+        setReturnsParams(periodParams.toString());
+
         const token = await user.getIdToken();
         fetch(`/api/trades?${params.toString()}`, { 
           cache: 'no-store',
@@ -494,6 +540,7 @@ export default function TradesPage() {
                 feeAsset: t.feeAsset,
                 feePct: t.feePct,
                 realizedPnl: t.realizedPnl,
+                accountId: t.accountId,
                 orderId: t.orderId ?? undefined,
                 tradeId: t.tradeId ?? undefined,
                 orderType: t.orderType ?? null,
@@ -511,7 +558,29 @@ export default function TradesPage() {
     return () => unsubscribe();
     // Array de dependências fixo para evitar erro do React
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [month, period, startDate, endDate, selectedMonth, market, symbol, page, pageSize, earliestDate]);
+  }, [month, period, startDate, endDate, selectedMonth, market, symbol, tag, page, pageSize, earliestDate]);
+
+  useEffect(() => {
+    const user = auth.currentUser;
+    if (!user || !returnsParams) return;
+    let cancelled = false;
+    setReturns(null);
+    (async () => {
+      try {
+        const token = await user.getIdToken();
+        const res = await fetch(`/api/analytics/returns?${returnsParams}`, {
+          cache: 'no-store',
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setReturns({ twr: data.twr, xirr: data.xirr });
+      } catch (error) {
+        console.error('Error fetching returns:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [returnsParams]);
 
   const handleExportCSV = async () => {
     const user = auth.currentUser;
@@ -1662,6 +1731,27 @@ export default function TradesPage() {
           );
         }
       }),
+      columnHelper.display({
+        id: 'journal',
+        header: 'Diário',
+        cell: ({ row }) => {
+          const data = row.original;
+          // Anotação por ordem: grupos sem orderId real (DUP_) e execuções filhas não têm botão
+          if (!data.accountId || !data.orderId || data._isChild || data.orderId.startsWith('DUP_')) return null;
+          return (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setJournalRow(data);
+              }}
+              className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors"
+              title="Anotar no diário"
+            >
+              📝
+            </button>
+          );
+        }
+      }),
       columnHelper.accessor('tradeId', { 
         header: 'Trade ID',
         cell: ({ getValue }) => (
@@ -1890,6 +1980,20 @@ export default function TradesPage() {
             ))}
           </select>
         </div>
+        <div className="flex flex-col w-full sm:w-auto">
+          <label className="text-sm font-medium text-slate-300 mb-1">🏷️ Tag</label>
+          <select 
+            value={tag} 
+            onChange={(e) => { setTag(e.target.value); setPage(1); }} 
+            className="border border-white/10 bg-white/5 text-white rounded-lg px-3 py-2.5 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            disabled={loadingFilters}
+          >
+            <option value="">Todas</option>
+            {availableTags.map(t => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+        </div>
         <div className="flex flex-col sm:flex-row items-stretch sm:items-end gap-2 w-full sm:w-auto">
           <button
             onClick={handleExportCSV}
@@ -1931,7 +2035,7 @@ export default function TradesPage() {
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3 sm:gap-4 p-3 sm:p-4 bg-gradient-to-r from-blue-500/10 to-indigo-500/5 backdrop-blur-sm rounded-lg border border-white/10">
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-blue-400">
-                {formatCurrency(summary.pnlMonth)}
+                {formatCurrency(summary.pnlMonth, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">PnL Total</div>
             </div>
@@ -1942,6 +2046,15 @@ export default function TradesPage() {
                     {Number(summary.roiTotal) >= 0 ? '+' : ''}{Number(summary.roiTotal).toFixed(2)}%
                   </div>
                   <div className="text-xs sm:text-sm text-slate-400">ROI Total</div>
+                  {returns?.twr != null && (
+                    <div
+                      className="text-xs text-slate-500 mt-1"
+                      title="Carteira inteira (todas as contas, sem os filtros de mercado/símbolo/tag). TWR: rentabilidade descontando depósitos e saques. XIRR: retorno anualizado ponderado pelo capital."
+                    >
+                      Carteira: TWR {(returns.twr * 100).toFixed(2)}%
+                      {returns.xirr != null && ` · XIRR ${(returns.xirr * 100).toFixed(2)}% a.a.`}
+                    </div>
+                  )}
                 </>
               ) : (
                 <div className="group relative">
@@ -1985,7 +2098,7 @@ export default function TradesPage() {
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-purple-400">
-                {formatCurrency(summary.feesTotal)}
+                {formatCurrency(summary.feesTotal, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Taxas Totais</div>
             </div>
@@ -2007,13 +2120,13 @@ export default function TradesPage() {
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-green-400">
-                {formatCurrency(summary.bestTrade)}
+                {formatCurrency(summary.bestTrade, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Melhor Trade</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-red-400">
-                {formatCurrency(summary.worstTrade)}
+                {formatCurrency(summary.worstTrade, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Pior Trade</div>
             </div>
@@ -2023,13 +2136,13 @@ export default function TradesPage() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 p-3 sm:p-4 bg-gradient-to-r from-red-500/10 to-pink-500/5 backdrop-blur-sm rounded-lg border border-white/10">
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-red-400">
-                {formatCurrency(summary.maxDrawdown)}
+                {formatCurrency(summary.maxDrawdown, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Max Drawdown</div>
             </div>
             <div className="text-center">
               <div className="text-lg sm:text-2xl font-bold text-pink-400">
-                {formatCurrency(summary.currentDrawdown)}
+                {formatCurrency(summary.currentDrawdown, summary.currency)}
               </div>
               <div className="text-xs sm:text-sm text-slate-400">Drawdown Atual</div>
             </div>
@@ -2261,7 +2374,7 @@ export default function TradesPage() {
                         disabled={!!syncProgress || loadingSymbols}
                         className="text-xs bg-green-500/20 hover:bg-green-500/30 text-green-400 px-2 py-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {loadingSymbols ? '⏳' : '🌐'} API Comuns
+                        {loadingSymbols ? '⏳' : '🌐'} API Descobertos
                       </button>
                       <button
                         type="button"
@@ -2306,12 +2419,12 @@ export default function TradesPage() {
                     value={syncSymbols}
                     onChange={(e) => setSyncSymbols(e.target.value)}
                     className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white h-32"
-                    placeholder="BTCBRL&#10;ETHBRL&#10;BNBBRL"
+                    placeholder="Vazio = pares descobertos automaticamente&#10;BTCBRL&#10;ETHBRL"
                     disabled={!!syncProgress}
                   />
                   <p className="text-xs text-slate-400 mt-1">
                     <strong>Banco:</strong> Rápido (apenas sincronizados) | 
-                    <strong> API Comuns:</strong> Testa ~32 pares comuns | 
+                    <strong> API Descobertos:</strong> Testa pares de saldos e depósitos | 
                     <strong> Todos:</strong> Testa TODOS os pares disponíveis (pode demorar muito)
                   </p>
                 </div>
@@ -3472,6 +3585,13 @@ export default function TradesPage() {
           </div>
         </div>
       )}
+      <JournalDrawer
+        open={!!journalRow}
+        onClose={() => setJournalRow(null)}
+        accountId={journalRow?.accountId ?? ''}
+        orderId={journalRow?.orderId}
+        symbol={journalRow?.symbol}
+      />
     </InternalLayout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+"use client";
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+
+type BenchmarkKey = 'portfolio' | 'btc' | 'cdi';
+
+export type BenchmarkData = {
+  currency: string;
+  startEquity: number | null;
+  netFlows: number;
+  points: { date: string; portfolio: number | null; btc: number | null; cdi: number | null }[];
+  results: Record<BenchmarkKey, { return: number | null; endValue: number | null }>;
+};
+
+const SERIES: { key: BenchmarkKey; label: string; color: string }[] = [
+  { key: 'portfolio', label: 'Carteira', color: '#a855f7' },
+  { key: 'btc', label: 'BTC (hold)', color: '#f59e0b' },
+  { key: 'cdi', label: 'CDI', color: '#22c55e' },
+];
+
+function formatPct(value: number | null): string {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : ''}${(value * 100).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`;
+}
+
+export function BenchmarkChart({ data, formatMoney }: { data: BenchmarkData; formatMoney: (value: number) => string }) {
+  // Datas vêm como YYYY-MM-DD (UTC); formatar sem converter fuso. Retornos em %
+  const formattedData = data.points.map(p => ({
+    date: `${p.date.slice(8, 10)}/${p.date.slice(5, 7)}`,
+    portfolio: p.portfolio === null ? null : Number((p.portfolio * 100).toFixed(2)),
+    btc: p.btc === null ? null : Number((p.btc * 100).toFixed(2)),
+    cdi: p.cdi === null ? null : Number((p.cdi * 100).toFixed(2)),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        {SERIES.map(({ key, label, color }) => {
+          const result = data.results[key];
+          return (
+            <div key={key} className="rounded-lg border border-white/10 bg-white/5 p-3">
+              <div className="text-xs text-slate-400">{label}</div>
+              <div className="text-lg font-bold" style={{ color }}>{formatPct(result.return)}</div>
+              {result.endValue !== null && (
+                <div className="text-xs text-slate-500">
+                  {key === 'portfolio' ? 'Patrimônio: ' : 'Valeria: '}{formatMoney(result.endValue)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={formattedData} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" />
+            <XAxis dataKey="date" stroke="#64748b" style={{ fontSize: '12px' }} />
+            <YAxis stroke="#64748b" style={{ fontSize: '12px' }} unit="%" domain={['auto', 'auto']} />
+            <ReferenceLine y={0} stroke="#ffffff30" />
+            <Tooltip
+              contentStyle={{ background: 'rgba(0,0,0,0.9)', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 12 }}
+              formatter={(value: number) => `${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}%`}
+            />
+            <Legend />
+            {SERIES.map(({ key, label, color }) => (
+              <Line key={key} type="monotone" dataKey={key} name={label} stroke={color} strokeWidth={2} dot={false} connectNulls />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-slate-500">
+        Retornos ponderados pelo tempo: depósitos e saques não contam como ganho. &quot;Valeria&quot; simula o patrimônio
+        inicial e os mesmos depósitos/saques aplicados no benchmark.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+import React from 'react';
+
+type DayPnl = {
+  date: string; // YYYY-MM-DD (UTC)
+  pnl: number;
+  fees: number;
+  tradesCount: number;
+  winRate: number;
+  breaches?: string[]; // limites diários estourados (perda, trades por dia)
+};
+
+const BREACH_LABELS: Record<string, string> = {
+  dailyLoss: 'perda máxima do dia',
+  tradesPerDay: 'máximo de trades por dia',
+};
+
+const WEEKDAY_LABELS = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'];
+const MONTH_LABELS = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function MonthGrid({ year, month, days, maxAbsPnl, compact, formatMoney, onDayClick }: {
+  year: number;
+  month: number; // 1..12
+  days: Map<string, DayPnl>;
+  maxAbsPnl: number;
+  compact: boolean;
+  formatMoney: (value: number) => string;
+  onDayClick?: (date: string) => void;
+}) {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const cells: (string | null)[] = [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => `${year}-${pad(month)}-${pad(i + 1)}`),
+  ];
+
+  // Verde/vermelho com intensidade relativa ao maior |PnL| do período exibido
+  const color = (d: DayPnl | undefined): string => {
+    if (!d) return 'rgba(255,255,255,0.04)';
+    const alpha = 0.15 + 0.75 * Math.min(1, Math.abs(d.pnl) / maxAbsPnl);
+    return d.pnl >= 0 ? `rgba(34,197,94,${alpha})` : `rgba(239,68,68,${alpha})`;
+  };
+
+  return (
+    <div className={`grid grid-cols-7 ${compact ? 'gap-0.5' : 'gap-1'}`}>
+      {WEEKDAY_LABELS.map((label, i) => (
+        <div key={i} className={`text-center text-slate-500 ${compact ? 'text-[9px]' : 'text-xs'}`}>{label}</div>
+      ))}
+      {cells.map((date, i) => {
+        if (!date) return <div key={i} />;
+        const d = days.get(date);
+        const breached = !!d?.breaches && d.breaches.length > 0;
+        const title = d
+          ? `${date.split('-').reverse().join('/')}\nPnL: ${formatMoney(d.pnl)}\nTrades: ${d.tradesCount}\nTaxas: ${formatMoney(d.fees)}\nWin rate: ${(d.winRate * 100).toFixed(0)}%`
+            + (breached ? `\n⚠ Limite estourado: ${d.breaches!.map(b => BREACH_LABELS[b] ?? b).join(', ')}` : '')
+          : `${date.split('-').reverse().join('/')}\nSem trades`;
+        return (
+          <button
+            key={date}
+            type="button"
+            title={title}
+            disabled={!d || !onDayClick}
+            onClick={() => onDayClick?.(date)}
+            className={`rounded ${compact ? 'h-3.5' : 'h-14 sm:h-16 p-1 text-left'} ${d && onDayClick ? 'cursor-pointer hover:ring-1 hover:ring-white/40' : 'cursor-default'} ${breached ? 'ring-1 ring-red-500' : ''}`}
+            style={{ backgroundColor: color(d) }}
+          >
+            {!compact && (
+              <div className="flex flex-col h-full justify-between">
+                <span className="text-[10px] text-slate-400">
+                  {Number(date.slice(8))}
+                  {breached && <span className="ml-1 text-red-400">⚠</span>}
+                </span>
+                {d && (
+                  <span className={`text-[11px] font-semibold truncate ${d.pnl >= 0 ? 'text-green-200' : 'text-red-200'}`}>
+                    {formatMoney(d.pnl)}
+                  </span>
+                )}
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Calendário de PnL diário. Em modo 'month' mostra o mês com o valor em cada dia;
+ * em 'year' mostra os 12 meses compactos. Detalhes no hover, clique abre o dia.
+ */
+export function CalendarHeatmap({ mode, year, month, days, formatMoney, onDayClick }: {
+  mode: 'month' | 'year';
+  year: number;
+  month: number; // 1..12, usado no modo 'month'
+  days: DayPnl[];
+  formatMoney: (value: number) => string;
+  onDayClick?: (date: string) => void;
+}) {
+  const byDate = new Map(days.map(d => [d.date, d]));
+  const maxAbsPnl = Math.max(1e-9, ...days.map(d => Math.abs(d.pnl)));
+
+  if (mode === 'month') {
+    return (
+      <MonthGrid
+        year={year}
+        month={month}
+        days={byDate}
+        maxAbsPnl={maxAbsPnl}
+        compact={false}
+        formatMoney={formatMoney}
+        onDayClick={onDayClick}
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+      {MONTH_LABELS.map((label, i) => {
+        const monthPnl = days
+          .filter(d => d.date.startsWith(`${year}-${pad(i + 1)}`))
+          .reduce((sum, d) => sum + d.pnl, 0);
+        return (
+          <div key={label}>
+            <div className="flex items-center justify-between mb-1 text-xs">
+              <span className="text-slate-300">{label}</span>
+              {monthPnl !== 0 && (
+                <span className={monthPnl >= 0 ? 'text-green-400' : 'text-red-400'}>{formatMoney(monthPnl)}</span>
+              )}
+            </div>
+            <MonthGrid
+              year={year}
+              month={i + 1}
+              days={byDate}
+              maxAbsPnl={maxAbsPnl}
+              compact
+              formatMoney={formatMoney}
+              onDayClick={onDayClick}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -35,6 +35,7 @@ function EditableBalanceKpi({ label, value, icon = '💳', color = 'purple', mon
   const [currentBalanceBRL, setCurrentBalanceBRL] = useState('0');
   const [currentBalanceUSDT, setCurrentBalanceUSDT] = useState('0');
   const [loadingBalance, setLoadingBalance] = useState(false);
+  const [isCalculated, setIsCalculated] = useState(false);
 
   const fetchInitialBalance = async () => {
     try {
@@ -51,9 +52,10 @@ function EditableBalanceKpi({ label, value, icon = '💳', color = 'purple', mon
       if (response.ok) {
         const data = await response.json();
         const savedBalance = data.balance || '0';
-        // Se há saldo salvo e não é calculado, usar o salvo
-        // Caso contrário, manter o value que vem do summary (calculado)
-        if (savedBalance !== '0' && !data.calculated) {
+        // Se há saldo salvo (manual ou reconstruído pelo job), usar o salvo
+        // Caso contrário, manter o value que vem do summary
+        setIsCalculated(!!data.calculated);
+        if (savedBalance !== '0') {
           setDisplayValue(savedBalance);
           setEditValue(savedBalance);
         } else if (value && value !== '0') {
@@ -175,6 +177,7 @@ function EditableBalanceKpi({ label, value, icon = '💳', color = 'purple', mon
       if (response.ok) {
         const result = await response.json();
         setIsEditing(false);
+        setIsCalculated(!!result.calculated);
         // Atualizar com o valor retornado (pode ser calculado ou salvo)
         setDisplayValue(result.balance || '0');
         setEditValue(result.balance || '0');
@@ -255,6 +258,11 @@ function EditableBalanceKpi({ label, value, icon = '💳', color = 'purple', mon
 
         <p className="text-slate-400 text-xs sm:text-sm mb-1">{label}</p>
         <p className="text-white text-xl sm:text-2xl tracking-tight break-words">R$ {Number(displayValue).toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
+        {Number(displayValue) > 0 && (
+          <p className="text-slate-500 text-xs mt-1">
+            {isCalculated ? 'Calculado pelo fechamento do mês anterior' : 'Informado manualmente'}
+          </p>
+        )}
         
         {/* Saldo Atual */}
         <div className="mt-2 sm:mt-3 pt-2 sm:pt-3 border-t border-white/10">
@@ -0,0 +1,64 @@
+"use client";
+import React from 'react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer } from 'recharts';
+
+export function EquityCurveChart({ data }: { data: { date: string; totalBRL: number; totalUSDT: number }[] }) {
+  // Datas vêm como YYYY-MM-DD (UTC); formatar sem converter fuso
+  const formattedData = data.map(item => ({
+    ...item,
+    date: `${item.date.slice(8, 10)}/${item.date.slice(5, 7)}`,
+    totalBRL: Number(item.totalBRL.toFixed(2)),
+    totalUSDT: Number(item.totalUSDT.toFixed(2)),
+  }));
+
+  const CustomTooltip = ({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number; payload: { totalUSDT: number } }>; label?: string }) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-black/90 p-4 rounded-xl shadow-xl border border-white/10 backdrop-blur-sm">
+          <p className="text-sm font-medium text-slate-300">{`Data: ${label}`}</p>
+          <p className="text-lg font-bold text-purple-300">
+            {`R$ ${payload[0].value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`}
+          </p>
+          <p className="text-xs text-slate-400">
+            {`${payload[0].payload.totalUSDT.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT`}
+          </p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="h-96 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={formattedData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <defs>
+            <linearGradient id="colorPatrimonio" x1="0" y1="0" x2="0" y2="1">
+              <stop offset="5%" stopColor="#a855f7" stopOpacity={0.3}/>
+              <stop offset="95%" stopColor="#a855f7" stopOpacity={0}/>
+            </linearGradient>
+          </defs>
+          <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" />
+          <XAxis 
+            dataKey="date" 
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+          />
+          <YAxis 
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+            domain={['auto', 'auto']}
+          />
+          <Tooltip content={<CustomTooltip />} />
+          <Area
+            type="monotone"
+            dataKey="totalBRL"
+            stroke="#a855f7"
+            strokeWidth={2}
+            fill="url(#colorPatrimonio)"
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+import React from 'react';
+
+type FeeBucket = {
+  fees: number;
+  volume: number;
+  fills: number;
+  costPct: number | null;
+};
+
+export type FeeAnalyticsData = {
+  currency: string;
+  trading: FeeBucket;
+  byLiquidity: Record<'maker' | 'taker' | 'unknown', FeeBucket>;
+  byMarket: (FeeBucket & { market: string })[];
+  bySymbol: (FeeBucket & { market: string; symbol: string })[];
+  byFeeAsset: { asset: string; fee: number; feeReporting: number }[];
+  bnb: { fees: number; savings: number; potentialSavings: number };
+  network: {
+    total: number;
+    withdrawals: { asset: string; network: string | null; fee: number; feeReporting: number | null; withdrawals: number }[];
+  };
+  totalCost: number;
+  totalCostPct: number | null;
+  unconverted: number;
+};
+
+const LIQUIDITY = [
+  { key: 'maker', label: 'Maker', color: '#22c55e' },
+  { key: 'taker', label: 'Taker', color: '#f59e0b' },
+  { key: 'unknown', label: 'Sem informação', color: '#64748b' },
+] as const;
+
+// Quantos símbolos mostrar na tabela (os de maior custo)
+const TOP_SYMBOLS = 10;
+
+function formatPct(value: number | null, digits = 3): string {
+  if (value === null) return '—';
+  return `${value.toLocaleString('pt-BR', { minimumFractionDigits: digits, maximumFractionDigits: digits })}%`;
+}
+
+function BucketTable({ rows, formatMoney }: {
+  rows: (FeeBucket & { label: string })[];
+  formatMoney: (value: number) => string;
+}) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-slate-500">
+          <th className="py-1 font-normal"></th>
+          <th className="py-1 font-normal text-right">Taxas</th>
+          <th className="py-1 font-normal text-right">Volume</th>
+          <th className="py-1 font-normal text-right">Custo</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label} className="border-t border-white/5">
+            <td className="py-1 text-slate-300">{row.label}</td>
+            <td className="py-1 text-right text-white">{formatMoney(row.fees)}</td>
+            <td className="py-1 text-right text-slate-400">{formatMoney(row.volume)}</td>
+            <td className="py-1 text-right text-slate-300">{formatPct(row.costPct)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Custo de taxas do período: total em % do volume, mix maker/taker, desconto BNB,
+ * taxas por mercado/símbolo e taxas de rede dos saques.
+ */
+export function FeeBreakdown({ data, formatMoney }: { data: FeeAnalyticsData; formatMoney: (value: number) => string }) {
+  const totalFills = data.trading.fills;
+  const cardClass = 'rounded-lg border border-white/10 bg-white/5 p-3';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className={cardClass}>
+          <div className="text-xs text-slate-400">Custo total</div>
+          <div className="text-lg font-bold text-red-400">{formatMoney(data.totalCost)}</div>
+          <div className="text-xs text-slate-500">{formatPct(data.totalCostPct)} do volume</div>
+        </div>
+        <div className={cardClass}>
+          <div className="text-xs text-slate-400">Taxas de trading</div>
+          <div className="text-lg font-bold text-white">{formatMoney(data.trading.fees)}</div>
+          <div className="text-xs text-slate-500">{formatPct(data.trading.costPct)} de {formatMoney(data.trading.volume)}</div>
+        </div>
+        <div className={cardClass}>
+          <div className="text-xs text-slate-400">Taxas de rede (saques)</div>
+          <div className="text-lg font-bold text-white">{formatMoney(data.network.total)}</div>
+          <div className="text-xs text-slate-500">
+            {data.network.withdrawals.reduce((sum, w) => sum + w.withdrawals, 0)} saques
+          </div>
+        </div>
+        <div className={cardClass}>
+          <div className="text-xs text-slate-400">Economia com BNB</div>
+          <div className="text-lg font-bold text-green-400">{formatMoney(data.bnb.savings)}</div>
+          <div className="text-xs text-slate-500">
+            {data.bnb.potentialSavings > 0 ? `Possível: +${formatMoney(data.bnb.potentialSavings)}` : `${formatMoney(data.bnb.fees)} pagos em BNB`}
+          </div>
+        </div>
+      </div>
+
+      {/* Maker x taker */}
+      {totalFills > 0 && (
+        <div>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-white/5">
+            {LIQUIDITY.map(({ key, color }) => (
+              <div key={key} style={{ width: `${(data.byLiquidity[key].fills / totalFills) * 100}%`, backgroundColor: color }} />
+            ))}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-4 text-xs">
+            {LIQUIDITY.filter(({ key }) => data.byLiquidity[key].fills > 0).map(({ key, label, color }) => (
+              <span key={key} className="text-slate-400">
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: color }} />
+                {label}: {((data.byLiquidity[key].fills / totalFills) * 100).toFixed(1)}% dos fills ·{' '}
+                {formatMoney(data.byLiquidity[key].fees)} ({formatPct(data.byLiquidity[key].costPct)})
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm text-slate-300 mb-1">Por mercado</h3>
+          <BucketTable rows={data.byMarket.map(m => ({ ...m, label: m.market }))} formatMoney={formatMoney} />
+          {data.byFeeAsset.length > 0 && (
+            <p className="text-xs text-slate-500 mt-2">
+              Pagas em: {data.byFeeAsset.map(a => `${a.asset} ${formatMoney(a.feeReporting)}`).join(' · ')}
+            </p>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm text-slate-300 mb-1">Por símbolo</h3>
+          <BucketTable
+            rows={data.bySymbol.slice(0, TOP_SYMBOLS).map(s => ({ ...s, label: `${s.symbol} (${s.market})` }))}
+            formatMoney={formatMoney}
+          />
+        </div>
+      </div>
+
+      {data.network.withdrawals.length > 0 && (
+        <div>
+          <h3 className="text-sm text-slate-300 mb-1">Taxas de rede por ativo</h3>
+          <table className="w-full text-sm">
+            <tbody>
+              {data.network.withdrawals.map(w => (
+                <tr key={`${w.asset}_${w.network}`} className="border-t border-white/5">
+                  <td className="py-1 text-slate-300">{w.asset} · {w.network}</td>
+                  <td className="py-1 text-right text-slate-400">{w.withdrawals} saques</td>
+                  <td className="py-1 text-right text-slate-400">{w.fee.toLocaleString('pt-BR', { maximumFractionDigits: 8 })} {w.asset}</td>
+                  <td className="py-1 text-right text-white">{w.feeReporting !== null ? formatMoney(w.feeReporting) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        Taxas convertidas no câmbio de cada execução. Economia com BNB estimada pelo desconto padrão (25% no spot, 10% em
+        futuros). Fills sincronizados antes do registro de maker/taker aparecem como &quot;Sem informação&quot;.
+        {data.unconverted > 0 && ` ${data.unconverted} fills sem câmbio disponível ficaram de fora.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+import React from 'react';
+
+type BreachDay = {
+  date: string; // YYYY-MM-DD no fuso do navegador
+  pnl: number;
+  tradesCount: number;
+  breaches: ('dailyLoss' | 'tradesPerDay')[];
+};
+
+export type GoalProgressData = {
+  currency: string;
+  goals: {
+    monthlyPnlTarget: number | null;
+    maxDailyLoss: number | null;
+    maxDrawdown: number | null;
+    maxTradesPerDay: number | null;
+  };
+  pnl: number;
+  pnlProgress: number | null;
+  maxDrawdown: number;
+  drawdownUsage: number | null;
+  drawdownBreached: boolean;
+  today: { date: string; pnl: number; tradesCount: number; lossUsage: number | null; tradesUsage: number | null };
+  breachDays: BreachDay[];
+};
+
+const BREACH_LABELS: Record<BreachDay['breaches'][number], string> = {
+  dailyLoss: 'perda diária',
+  tradesPerDay: 'trades por dia',
+};
+
+// Barra de progresso; `limit` = barra de limite (vermelha ao passar de 100%)
+function ProgressBar({ label, value, usage, limit }: { label: string; value: string; usage: number; limit: boolean }) {
+  const pct = Math.max(0, Math.min(1, usage)) * 100;
+  const color = limit
+    ? usage > 1 ? 'bg-red-500' : usage >= 0.8 ? 'bg-amber-500' : 'bg-cyan-500'
+    : usage >= 1 ? 'bg-green-500' : 'bg-purple-500';
+  return (
+    <div>
+      <div className="flex items-center justify-between text-sm mb-1">
+        <span className="text-slate-300">
+          {label}
+          {limit && usage > 1 && <span className="ml-2 text-xs text-red-400">⚠ limite estourado</span>}
+        </span>
+        <span className="text-slate-400">{value}</span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-white/5 overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Progresso da meta de PnL do mês e uso dos limites de risco (drawdown do mês,
+ * perda e trades de hoje), com os dias do mês que estouraram limites diários.
+ */
+export function GoalsProgress({ data, formatMoney, onDayClick }: {
+  data: GoalProgressData;
+  formatMoney: (value: number) => string;
+  onDayClick?: (date: string) => void;
+}) {
+  const { goals } = data;
+
+  return (
+    <div className="space-y-4">
+      {goals.monthlyPnlTarget !== null && data.pnlProgress !== null && (
+        <ProgressBar
+          label="Meta de PnL do mês"
+          value={`${formatMoney(data.pnl)} de ${formatMoney(goals.monthlyPnlTarget)} (${(data.pnlProgress * 100).toFixed(0)}%)`}
+          usage={data.pnlProgress}
+          limit={false}
+        />
+      )}
+      {goals.maxDrawdown !== null && data.drawdownUsage !== null && (
+        <ProgressBar
+          label="Drawdown do mês"
+          value={`${formatMoney(data.maxDrawdown)} de ${formatMoney(goals.maxDrawdown)}`}
+          usage={data.drawdownUsage}
+          limit
+        />
+      )}
+      {goals.maxDailyLoss !== null && data.today.lossUsage !== null && (
+        <ProgressBar
+          label="Perda de hoje"
+          value={`${formatMoney(Math.max(0, -data.today.pnl))} de ${formatMoney(goals.maxDailyLoss)}`}
+          usage={data.today.lossUsage}
+          limit
+        />
+      )}
+      {goals.maxTradesPerDay !== null && data.today.tradesUsage !== null && (
+        <ProgressBar
+          label="Trades de hoje"
+          value={`${data.today.tradesCount} de ${goals.maxTradesPerDay}`}
+          usage={data.today.tradesUsage}
+          limit
+        />
+      )}
+
+      {data.breachDays.length > 0 ? (
+        <div>
+          <div className="text-xs text-slate-500 mb-2">Dias do mês com limite estourado</div>
+          <div className="flex flex-wrap gap-2">
+            {data.breachDays.map(day => (
+              <button
+                key={day.date}
+                type="button"
+                onClick={() => onDayClick?.(day.date)}
+                title={`PnL: ${formatMoney(day.pnl)}\nTrades: ${day.tradesCount}`}
+                className="px-2 py-1 rounded-lg border border-red-500/30 bg-red-500/10 text-xs text-red-300 hover:bg-red-500/20"
+              >
+                {day.date.slice(8, 10)}/{day.date.slice(5, 7)} · {day.breaches.map(b => BREACH_LABELS[b]).join(', ')}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        (goals.maxDailyLoss !== null || goals.maxTradesPerDay !== null) && (
+          <p className="text-xs text-green-400">Nenhum limite diário estourado no mês.</p>
+        )
+      )}
+    </div>
+  );
+}
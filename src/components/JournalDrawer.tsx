@@ -0,0 +1,349 @@
+"use client";
+import { useEffect, useState } from 'react';
+import { auth } from '@/lib/firebase/client';
+
+type JournalTag = { id: string; name: string; kind: string; color: string | null };
+type JournalEntry = {
+  id: string;
+  notes: string | null;
+  emotion: number | null;
+  screenshots: string[];
+  tags: JournalTag[];
+};
+
+type JournalDrawerProps = {
+  open: boolean;
+  onClose: () => void;
+  accountId: string;
+  orderId?: string;
+  positionId?: string;
+  symbol?: string;
+  title?: string;
+};
+
+const emotions = [
+  { value: 1, icon: '😫', label: 'Péssimo' },
+  { value: 2, icon: '😟', label: 'Ansioso' },
+  { value: 3, icon: '😐', label: 'Neutro' },
+  { value: 4, icon: '🙂', label: 'Confiante' },
+  { value: 5, icon: '😎', label: 'Ótimo' },
+];
+
+const tagKindLabels: Record<string, string> = {
+  setup: 'Setup',
+  strategy: 'Estratégia',
+  mistake: 'Erro',
+};
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const user = auth.currentUser;
+  if (!user) throw new Error('User not authenticated');
+  return { Authorization: `Bearer ${await user.getIdToken()}` };
+}
+
+// Screenshot autenticado: busca com o token e exibe como blob
+function Screenshot({ name, onRemove }: { name: string; onRemove: () => void }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    (async () => {
+      try {
+        const res = await fetch(`/api/journal/screenshots/${encodeURIComponent(name)}`, { headers: await authHeaders() });
+        if (res.ok) {
+          objectUrl = URL.createObjectURL(await res.blob());
+          setUrl(objectUrl);
+        }
+      } catch (error) {
+        console.error('[JournalDrawer] Error loading screenshot:', error);
+      }
+    })();
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [name]);
+
+  return (
+    <div className="relative group">
+      {url ? (
+        <a href={url} target="_blank" rel="noreferrer">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={url} alt="Screenshot do trade" className="w-full h-32 object-cover rounded-lg border border-white/10" />
+        </a>
+      ) : (
+        <div className="w-full h-32 rounded-lg bg-white/5 animate-pulse" />
+      )}
+      <button
+        onClick={onRemove}
+        className="absolute top-1 right-1 px-2 py-0.5 rounded bg-black/70 text-red-400 text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Remover screenshot"
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+export default function JournalDrawer({ open, onClose, accountId, orderId, positionId, symbol, title }: JournalDrawerProps) {
+  const [entry, setEntry] = useState<JournalEntry | null>(null);
+  const [notes, setNotes] = useState('');
+  const [emotion, setEmotion] = useState<number | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [availableTags, setAvailableTags] = useState<JournalTag[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const headers = await authHeaders();
+        const params = new URLSearchParams({ accountId });
+        if (orderId) params.set('orderId', orderId);
+        else if (positionId) params.set('positionId', positionId);
+
+        const [entryRes, tagsRes] = await Promise.all([
+          fetch(`/api/journal?${params.toString()}`, { cache: 'no-store', headers }),
+          fetch('/api/journal/tags', { cache: 'no-store', headers }),
+        ]);
+        const entryData = entryRes.ok ? await entryRes.json() : { entry: null };
+        const tagsData = tagsRes.ok ? await tagsRes.json() : { tags: [] };
+
+        const loaded: JournalEntry | null = entryData.entry;
+        setEntry(loaded);
+        setNotes(loaded?.notes ?? '');
+        setEmotion(loaded?.emotion ?? null);
+        setSelectedTags(loaded?.tags.map(t => t.name) ?? []);
+        setAvailableTags(tagsData.tags);
+      } catch (err) {
+        console.error('[JournalDrawer] Error loading entry:', err);
+        setError('Erro ao carregar o diário');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [open, accountId, orderId, positionId]);
+
+  const toggleTag = (name: string) => {
+    setSelectedTags(tags => tags.includes(name) ? tags.filter(t => t !== name) : [...tags, name]);
+  };
+
+  const addNewTag = () => {
+    const name = newTag.trim();
+    if (!name) return;
+    if (!selectedTags.includes(name)) setSelectedTags(tags => [...tags, name]);
+    if (!availableTags.some(t => t.name === name)) {
+      setAvailableTags(tags => [...tags, { id: name, name, kind: 'setup', color: null }]);
+    }
+    setNewTag('');
+  };
+
+  const save = async (): Promise<JournalEntry | null> => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/journal', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ accountId, orderId, positionId, symbol, notes, emotion, tags: selectedTags }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Erro ao salvar');
+        return null;
+      }
+      setEntry(data.entry);
+      return data.entry;
+    } catch (err) {
+      console.error('[JournalDrawer] Error saving entry:', err);
+      setError('Erro ao salvar');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const uploadScreenshot = async (file: File) => {
+    // A entrada precisa existir antes do upload
+    const current = entry ?? await save();
+    if (!current) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('entryId', current.id);
+      form.append('file', file);
+      const res = await fetch('/api/journal/screenshots', { method: 'POST', headers: await authHeaders(), body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Erro ao enviar screenshot');
+        return;
+      }
+      setEntry({ ...current, screenshots: [...current.screenshots, data.name] });
+    } catch (err) {
+      console.error('[JournalDrawer] Error uploading screenshot:', err);
+      setError('Erro ao enviar screenshot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeScreenshot = async (name: string) => {
+    if (!entry) return;
+    try {
+      const params = new URLSearchParams({ entryId: entry.id, name });
+      const res = await fetch(`/api/journal/screenshots?${params.toString()}`, { method: 'DELETE', headers: await authHeaders() });
+      if (res.ok) {
+        setEntry({ ...entry, screenshots: entry.screenshots.filter(s => s !== name) });
+      }
+    } catch (err) {
+      console.error('[JournalDrawer] Error removing screenshot:', err);
+    }
+  };
+
+  const deleteEntry = async () => {
+    if (!entry || !confirm('Apagar a anotação deste trade?')) return;
+    try {
+      const res = await fetch(`/api/journal?id=${encodeURIComponent(entry.id)}`, { method: 'DELETE', headers: await authHeaders() });
+      if (res.ok) {
+        setEntry(null);
+        setNotes('');
+        setEmotion(null);
+        setSelectedTags([]);
+      }
+    } catch (err) {
+      console.error('[JournalDrawer] Error deleting entry:', err);
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full overflow-y-auto bg-slate-900 border-l border-white/10 p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg text-white font-semibold">📝 Diário</h2>
+            <p className="text-sm text-slate-400">{title ?? (orderId ? `Ordem ${orderId}` : 'Posição')}{symbol ? ` · ${symbol}` : ''}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors" title="Fechar">
+            ✕
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-slate-400 animate-pulse">Carregando...</div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Por que entrei / o que aprendi</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={6}
+                className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Contexto, gatilho de entrada, gestão, saída..."
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Estado emocional</label>
+              <div className="flex gap-2">
+                {emotions.map(e => (
+                  <button
+                    key={e.value}
+                    onClick={() => setEmotion(emotion === e.value ? null : e.value)}
+                    title={e.label}
+                    className={`flex-1 py-2 rounded-lg text-xl transition-colors border ${
+                      emotion === e.value ? 'bg-blue-500/30 border-blue-500' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                    }`}
+                  >
+                    {e.icon}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Tags (setup / estratégia)</label>
+              <div className="flex flex-wrap gap-2">
+                {availableTags.map(tag => (
+                  <button
+                    key={tag.id}
+                    onClick={() => toggleTag(tag.name)}
+                    title={tagKindLabels[tag.kind] ?? tag.kind}
+                    className={`px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                      selectedTags.includes(tag.name)
+                        ? 'bg-blue-500/30 text-blue-300 border-blue-500/50'
+                        : 'bg-white/5 text-slate-400 border-white/10 hover:bg-white/10'
+                    }`}
+                  >
+                    {tag.name}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addNewTag(); }}
+                  className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Nova tag (ex.: rompimento)"
+                />
+                <button onClick={addNewTag} className="px-3 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm transition-colors">
+                  + Tag
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-slate-300">Screenshots</label>
+              {entry && entry.screenshots.length > 0 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {entry.screenshots.map(name => (
+                    <Screenshot key={name} name={name} onRemove={() => removeScreenshot(name)} />
+                  ))}
+                </div>
+              )}
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp,image/gif"
+                disabled={saving}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadScreenshot(file);
+                  e.target.value = '';
+                }}
+                className="block w-full text-sm text-slate-400 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-white/10 file:text-white hover:file:bg-white/20"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="flex items-center justify-between gap-2 pt-2 border-t border-white/10">
+              {entry ? (
+                <button onClick={deleteEntry} className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg text-sm transition-colors">
+                  Apagar
+                </button>
+              ) : <span />}
+              <button
+                onClick={async () => { if (await save()) onClose(); }}
+                disabled={saving}
+                className="px-4 py-2.5 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,8 @@ export function Navigation({ user, onSignOut }: NavigationProps) {
     { href: '/dashboard', label: 'Dashboard', icon: '📊' },
     { href: '/trades', label: 'Trades', icon: '🔥' },
     { href: '/cashflow', label: 'Depósitos/Saques', icon: '💸' },
+    { href: '/holdings', label: 'Carteira', icon: '💼' },
+    { href: '/strategies', label: 'Estratégias', icon: '🎯' },
     { href: '/accounts', label: 'Accounts', icon: '👤' },
   ];
 
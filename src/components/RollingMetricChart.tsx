@@ -0,0 +1,57 @@
+"use client";
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ReferenceLine, ResponsiveContainer } from 'recharts';
+
+export function RollingMetricChart({ data, label, format }: {
+  data: { date: string; value: number | null }[];
+  label: string;
+  format: (value: number) => string;
+}) {
+  // Datas vêm como YYYY-MM-DD (UTC); formatar sem converter fuso
+  const formattedData = data.map(item => ({
+    ...item,
+    date: `${item.date.slice(8, 10)}/${item.date.slice(5, 7)}`,
+  }));
+
+  const CustomTooltip = ({ active, payload, label: date }: { active?: boolean; payload?: Array<{ value: number | null }>; label?: string }) => {
+    if (active && payload && payload.length && payload[0].value !== null) {
+      return (
+        <div className="bg-black/90 p-4 rounded-xl shadow-xl border border-white/10 backdrop-blur-sm">
+          <p className="text-sm font-medium text-slate-300">{`Data: ${date}`}</p>
+          <p className="text-lg font-bold text-cyan-300">{`${label}: ${format(payload[0].value)}`}</p>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="h-80 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={formattedData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#ffffff10" />
+          <XAxis
+            dataKey="date"
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+          />
+          <YAxis
+            stroke="#64748b"
+            style={{ fontSize: '12px' }}
+            domain={['auto', 'auto']}
+          />
+          <ReferenceLine y={0} stroke="#ffffff30" />
+          <Tooltip content={<CustomTooltip />} />
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke="#22d3ee"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import React from 'react';
+
+type SlippageRow = {
+  fills: number;
+  orders: number;
+  volume: number;
+  avgBps: number | null;
+  cost: number;
+  fees: number;
+};
+
+export type SlippageData = {
+  currency: string;
+  reference: 'open' | 'mid';
+  total: SlippageRow;
+  groups: (SlippageRow & { symbol: string; orderType: string })[];
+  skipped: number;
+};
+
+const ORDER_TYPE_LABELS: Record<string, string> = {
+  MARKET: 'Mercado',
+  STOP_LOSS: 'Stop Loss',
+  TAKE_PROFIT: 'Take Profit',
+  STOP_MARKET: 'Stop Mercado',
+  TAKE_PROFIT_MARKET: 'TP Mercado',
+};
+
+function formatBps(value: number | null): string {
+  if (value === null) return '—';
+  return `${value.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 })} bps`;
+}
+
+/**
+ * Slippage das ordens a mercado por símbolo e tipo de ordem, lado a lado com as taxas
+ * dos mesmos fills (slippage positivo = executou pior que a referência).
+ */
+export function SlippageTable({ data, formatMoney }: { data: SlippageData; formatMoney: (value: number) => string }) {
+  const rows = [...data.groups, { ...data.total, symbol: 'Total', orderType: '' }];
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-slate-500">
+              <th className="py-1 font-normal">Símbolo</th>
+              <th className="py-1 font-normal">Tipo</th>
+              <th className="py-1 font-normal text-right">Ordens</th>
+              <th className="py-1 font-normal text-right">Volume</th>
+              <th className="py-1 font-normal text-right">Slippage médio</th>
+              <th className="py-1 font-normal text-right">Custo do slippage</th>
+              <th className="py-1 font-normal text-right">Taxas</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const isTotal = row.symbol === 'Total' && row.orderType === '';
+              return (
+                <tr key={`${row.symbol}_${row.orderType}`} className={`border-t border-white/5 ${isTotal ? 'font-semibold' : ''}`}>
+                  <td className="py-1 text-slate-300">{row.symbol}</td>
+                  <td className="py-1 text-slate-400">{ORDER_TYPE_LABELS[row.orderType] ?? row.orderType}</td>
+                  <td className="py-1 text-right text-slate-400">{row.orders}</td>
+                  <td className="py-1 text-right text-slate-400">{formatMoney(row.volume)}</td>
+                  <td className={`py-1 text-right ${row.avgBps !== null && row.avgBps > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatBps(row.avgBps)}
+                  </td>
+                  <td className={`py-1 text-right ${row.cost > row.fees ? 'text-red-400' : 'text-white'}`}>{formatMoney(row.cost)}</td>
+                  <td className="py-1 text-right text-slate-300">{formatMoney(row.fees)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500">
+        Preço de cada fill contra {data.reference === 'open' ? 'a abertura' : 'o meio (máxima + mínima) / 2'} da candle de 1 minuto
+        da execução, só no spot. Custo do slippage em vermelho quando supera as taxas.
+        {data.skipped > 0 && ` ${data.skipped} fills sem candle ou câmbio disponível ficaram de fora.`}
+      </p>
+    </div>
+  );
+}
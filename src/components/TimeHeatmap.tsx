@@ -0,0 +1,121 @@
+"use client";
+import React, { useState } from 'react';
+
+type Bucket = {
+  pnl: number;
+  tradesCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+};
+
+type Metric = 'pnl' | 'tradesCount' | 'winRate';
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const METRIC_LABELS: Record<Metric, string> = {
+  pnl: 'PnL',
+  tradesCount: 'Trades',
+  winRate: 'Win rate',
+};
+
+export function TimeHeatmap({ grid, byHour, byWeekday, formatMoney }: {
+  grid: Bucket[][];
+  byHour: Bucket[];
+  byWeekday: Bucket[];
+  formatMoney: (value: number) => string;
+}) {
+  const [metric, setMetric] = useState<Metric>('pnl');
+
+  // Verde/vermelho pela intensidade do PnL ou pelo win rate acima/abaixo de 50%; azul para volume de trades.
+  // A intensidade é relativa ao maior valor do mesmo conjunto (grade ou linha de totais).
+  const cellColor = (b: Bucket, scale: Bucket[]): string => {
+    if (b.tradesCount === 0) return 'rgba(255,255,255,0.03)';
+    if (metric === 'tradesCount') {
+      return `rgba(59,130,246,${0.15 + 0.75 * (b.tradesCount / Math.max(1, ...scale.map(s => s.tradesCount)))})`;
+    }
+    const intensity = metric === 'pnl'
+      ? Math.abs(b.pnl) / Math.max(1e-9, ...scale.map(s => Math.abs(s.pnl)))
+      : b.winningTrades + b.losingTrades > 0 ? Math.abs(b.winRate - 0.5) * 2 : 0;
+    const positive = metric === 'pnl' ? b.pnl >= 0 : b.winRate >= 0.5;
+    return positive ? `rgba(34,197,94,${0.1 + 0.8 * intensity})` : `rgba(239,68,68,${0.1 + 0.8 * intensity})`;
+  };
+
+  const cells = grid.flat();
+
+  const formatValue = (b: Bucket): string => {
+    if (b.tradesCount === 0) return '';
+    if (metric === 'pnl') return formatMoney(b.pnl);
+    if (metric === 'tradesCount') return String(b.tradesCount);
+    return `${(b.winRate * 100).toFixed(0)}%`;
+  };
+
+  const tooltip = (label: string, b: Bucket) =>
+    `${label}\nPnL: ${formatMoney(b.pnl)}\nTrades: ${b.tradesCount}\nWin rate: ${(b.winRate * 100).toFixed(1)}%`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(METRIC_LABELS) as Metric[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setMetric(key)}
+            className={`px-3 py-1 rounded-lg text-sm border border-white/10 ${metric === key ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-400 hover:bg-white/5'}`}
+          >
+            {METRIC_LABELS[key]}
+          </button>
+        ))}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5 text-[10px] text-slate-300">
+          <thead>
+            <tr>
+              <th />
+              {byHour.map((_, hour) => (
+                <th key={hour} className="w-10 font-normal text-slate-500">{String(hour).padStart(2, '0')}h</th>
+              ))}
+              <th className="px-2 font-semibold text-slate-400">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {grid.map((row, day) => (
+              <tr key={day}>
+                <td className="pr-2 text-xs text-slate-400">{WEEKDAY_LABELS[day]}</td>
+                {row.map((b, hour) => (
+                  <td
+                    key={hour}
+                    title={tooltip(`${WEEKDAY_LABELS[day]} ${String(hour).padStart(2, '0')}h`, b)}
+                    className="h-8 w-10 rounded text-center whitespace-nowrap overflow-hidden"
+                    style={{ backgroundColor: cellColor(b, cells) }}
+                  >
+                    {metric === 'pnl' ? '' : formatValue(b)}
+                  </td>
+                ))}
+                <td
+                  title={tooltip(WEEKDAY_LABELS[day], byWeekday[day])}
+                  className="px-2 text-xs whitespace-nowrap font-semibold"
+                >
+                  {formatValue(byWeekday[day]) || '—'}
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="pr-2 text-xs font-semibold text-slate-400">Total</td>
+              {byHour.map((b, hour) => (
+                <td
+                  key={hour}
+                  title={tooltip(`${String(hour).padStart(2, '0')}h`, b)}
+                  className="h-8 w-10 rounded text-center"
+                  style={{ backgroundColor: cellColor(b, byHour) }}
+                >
+                  {metric === 'pnl' ? '' : formatValue(b)}
+                </td>
+              ))}
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">Passe o mouse sobre uma célula para ver PnL, trades e win rate.</p>
+    </div>
+  );
+}
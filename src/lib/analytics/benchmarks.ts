@@ -0,0 +1,147 @@
+// Comparação do retorno da carteira com benchmarks: BTC buy-and-hold e CDI
+// Retornos acumulados ponderados pelo tempo (depósitos e saques não contam como
+// ganho), na moeda de relatório. Além da curva, simula uma carteira "sombra" por
+// benchmark, que recebe o patrimônio inicial e os mesmos depósitos/saques nos mesmos
+// dias, para responder quanto o dinheiro valeria se tivesse ficado em BTC ou no CDI.
+// Transferências para a carteira de futuros contam como depósito/saque (getExternalFlows).
+// Fluxos são tratados como ocorridos no início do dia, como em lib/returns.ts.
+
+import { prisma } from '@/lib/prisma';
+import { createConverter, getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getEquitySeriesAt, getExternalFlows } from '@/lib/returns';
+import { getCdiRates } from '@/lib/cdi';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Acima disso, a curva usa um ponto por semana para limitar as consultas de preço
+const MAX_DAILY_POINTS = 92;
+
+export type BenchmarkKey = 'portfolio' | 'btc' | 'cdi';
+
+export interface BenchmarkPoint {
+  date: string; // YYYY-MM-DD (UTC), fechamento do dia
+  portfolio: number | null; // retorno acumulado, fração
+  btc: number | null;
+  cdi: number | null;
+}
+
+export interface BenchmarkResult {
+  return: number | null; // retorno acumulado no período, fração
+  endValue: number | null; // patrimônio final (real para a carteira, simulado para os benchmarks)
+}
+
+export interface BenchmarkComparison {
+  currency: ReportingCurrency;
+  startDate: string;
+  endDate: string;
+  startEquity: number | null;
+  netFlows: number;
+  points: BenchmarkPoint[];
+  results: Record<BenchmarkKey, BenchmarkResult>;
+}
+
+interface Series {
+  growth: number;
+  shadow: number | null;
+  valid: boolean;
+}
+
+function startOfUtcDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
+
+export async function getBenchmarkComparison(userId: string, start: Date, end: Date): Promise<BenchmarkComparison> {
+  const accounts = await prisma.binanceAccount.findMany({ where: { userId }, select: { id: true } });
+  const accountIds = accounts.map(a => a.id);
+  const currency = await getReportingCurrency(userId);
+  const convert = createConverter(currency);
+
+  const firstDay = startOfUtcDay(start.getTime());
+  const lastDay = startOfUtcDay(Math.min(end.getTime(), Date.now()));
+  const step = (lastDay - firstDay) / DAY_MS + 1 > MAX_DAILY_POINTS ? 7 * DAY_MS : DAY_MS;
+
+  // Fechamento da véspera do início e, depois, o fechamento de cada ponto
+  const closes: Date[] = [new Date(firstDay - 1)];
+  for (let day = firstDay; day <= lastDay; day += step) {
+    closes.push(new Date(day + DAY_MS - 1));
+  }
+  if (closes[closes.length - 1].getTime() !== lastDay + DAY_MS - 1) {
+    closes.push(new Date(lastDay + DAY_MS - 1));
+  }
+
+  const flows = await getExternalFlows(accountIds, start, closes[closes.length - 1], convert);
+  const cdiRates = await getCdiRates(new Date(firstDay), closes[closes.length - 1]);
+
+  // Valores em cada fechamento: patrimônio (histórico lido uma vez para todos os pontos),
+  // preço do BTC e de 1 BRL na moeda de relatório
+  const equity = await getEquitySeriesAt(userId, accountIds, closes, convert);
+  const btcPrice: (number | null)[] = [];
+  const brlValue: (number | null)[] = [];
+  for (const at of closes) {
+    btcPrice.push(await convert(1, 'BTC', at));
+    brlValue.push(currency === 'BRL' ? 1 : await convert(1, 'BRL', at));
+  }
+
+  const startEquity = equity[0];
+  const series: Record<BenchmarkKey, Series> = {
+    portfolio: { growth: 1, shadow: startEquity, valid: startEquity !== null && startEquity > 0 },
+    btc: { growth: 1, shadow: startEquity, valid: btcPrice[0] !== null },
+    cdi: { growth: 1, shadow: startEquity, valid: brlValue[0] !== null },
+  };
+
+  const points: BenchmarkPoint[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const from = closes[i - 1].getTime();
+    const to = closes[i].getTime();
+    const flow = flows.filter(f => f.at.getTime() > from && f.at.getTime() <= to).reduce((sum, f) => sum + f.amount, 0);
+
+    // Carteira: patrimônio do fechamento sobre o anterior mais os fluxos do intervalo
+    const p = series.portfolio;
+    const base = equity[i - 1] !== null ? equity[i - 1]! + flow : null;
+    if (p.valid && equity[i] !== null && base !== null && base > 0) {
+      p.growth *= equity[i]! / base;
+    } else {
+      p.valid = false;
+    }
+    p.shadow = equity[i];
+
+    // BTC: variação do preço no intervalo
+    const btcReturn = btcPrice[i - 1] !== null && btcPrice[i] !== null ? btcPrice[i]! / btcPrice[i - 1]! : null;
+    // CDI: taxas dos dias úteis do intervalo, mais a variação do real na moeda de relatório
+    const cdiFactor = cdiRates
+      .filter(r => r.date.getTime() > startOfUtcDay(from) && r.date.getTime() <= startOfUtcDay(to))
+      .reduce((factor, r) => factor * (1 + r.rate / 100), 1);
+    const cdiReturn = brlValue[i - 1] !== null && brlValue[i] !== null ? cdiFactor * (brlValue[i]! / brlValue[i - 1]!) : null;
+
+    for (const [key, factor] of [['btc', btcReturn], ['cdi', cdiReturn]] as const) {
+      const s = series[key];
+      if (!s.valid || factor === null) {
+        s.valid = false;
+        continue;
+      }
+      s.growth *= factor;
+      s.shadow = s.shadow !== null ? (s.shadow + flow) * factor : null;
+    }
+
+    points.push({
+      date: new Date(startOfUtcDay(to)).toISOString().slice(0, 10),
+      portfolio: series.portfolio.valid ? series.portfolio.growth - 1 : null,
+      btc: series.btc.valid ? series.btc.growth - 1 : null,
+      cdi: series.cdi.valid ? series.cdi.growth - 1 : null,
+    });
+  }
+
+  const result = (key: BenchmarkKey): BenchmarkResult => ({
+    return: series[key].valid ? series[key].growth - 1 : null,
+    endValue: series[key].valid ? series[key].shadow : null,
+  });
+
+  return {
+    currency,
+    startDate: new Date(firstDay).toISOString().slice(0, 10),
+    endDate: new Date(lastDay).toISOString().slice(0, 10),
+    startEquity,
+    netFlows: flows.reduce((sum, f) => sum + f.amount, 0),
+    points,
+    results: { portfolio: result('portfolio'), btc: result('btc'), cdi: result('cdi') },
+  };
+}
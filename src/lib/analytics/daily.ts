@@ -0,0 +1,45 @@
+// PnL diário para o calendário do dashboard
+// Dias no fuso ?tz= (padrão UTC), os mesmos de startDate/endDate em /api/trades com o
+// mesmo tz, para que o clique num dia abra exatamente os trades somados nele.
+// Só dias com trades são retornados.
+// Cada dia traz os limites diários do usuário que foram estourados (lib/goals.ts).
+
+import { prisma } from '@/lib/prisma';
+import { getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getTradesWhere, summarizeTrades } from '@/lib/trades';
+import { dateKeyFormatter } from '@/lib/format';
+import { DayBreach, getDayBreaches, getTradingGoals } from '@/lib/goals';
+import { TradesQuery } from '@/lib/types';
+
+export interface DailyPnl {
+  date: string; // YYYY-MM-DD no fuso da consulta
+  pnl: number;
+  fees: number;
+  tradesCount: number; // ordens únicas
+  winRate: number;
+  breaches: DayBreach[];
+}
+
+export async function getDailyPnl(
+  query: TradesQuery & { userId: string }
+): Promise<{ currency: ReportingCurrency; days: DailyPnl[] }> {
+  const { where } = await getTradesWhere(query);
+  const trades = await prisma.trade.findMany({ where, orderBy: { executedAt: 'asc' } });
+
+  const dayOf = dateKeyFormatter(query.timeZone ?? 'UTC');
+  const byDay = new Map<string, typeof trades>();
+  for (const t of trades) {
+    const key = dayOf(t.executedAt);
+    const list = byDay.get(key) ?? [];
+    list.push(t);
+    byDay.set(key, list);
+  }
+
+  const goals = await getTradingGoals(query.userId);
+  const days = Array.from(byDay.entries()).map(([date, list]) => {
+    const { pnl, fees, tradesCount, winRate } = summarizeTrades(list);
+    return { date, pnl, fees, tradesCount, winRate, breaches: getDayBreaches({ pnl, tradesCount }, goals) };
+  });
+
+  return { currency: await getReportingCurrency(query.userId), days };
+}
@@ -0,0 +1,188 @@
+// Análise de taxas: quanto o período custou em atrito e de onde ele vem
+// Taxas de trading na moeda de relatório (câmbio da execução), quebradas por maker/taker,
+// mercado e símbolo, com o custo em % do volume negociado. Estima o desconto obtido
+// pagando taxas em BNB e soma as taxas de rede dos saques de cripto (Cashflow), que
+// dependem só de conta e período (filtros de mercado/símbolo/tag não se aplicam a elas).
+
+import { prisma } from '@/lib/prisma';
+import { createConverter, getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { resolveAssets } from '@/lib/symbolInfo';
+import { getTradesWhere } from '@/lib/trades';
+import { TradesQuery } from '@/lib/types';
+
+// Desconto da Binance para taxas pagas em BNB
+const BNB_DISCOUNT: Record<string, number> = { SPOT: 0.25, FUTURES: 0.10 };
+
+export type Liquidity = 'maker' | 'taker' | 'unknown';
+
+export interface FeeBucket {
+  fees: number; // moeda de relatório
+  volume: number; // notional na moeda de relatório
+  fills: number;
+  costPct: number | null; // fees / volume, em %
+}
+
+export interface NetworkFee {
+  asset: string;
+  network: string | null;
+  fee: number; // no próprio ativo
+  feeReporting: number | null;
+  withdrawals: number;
+}
+
+export interface FeeAnalytics {
+  currency: ReportingCurrency;
+  startDate: string;
+  endDate: string;
+  trading: FeeBucket;
+  byLiquidity: Record<Liquidity, FeeBucket>;
+  byMarket: (FeeBucket & { market: string })[];
+  bySymbol: (FeeBucket & { market: string; symbol: string })[];
+  byFeeAsset: { asset: string; fee: number; feeReporting: number }[];
+  bnb: {
+    fees: number; // taxas pagas em BNB, na moeda de relatório
+    savings: number; // estimativa do que foi economizado com o desconto
+    potentialSavings: number; // estimativa se as demais taxas tivessem sido pagas em BNB
+  };
+  network: { total: number; withdrawals: NetworkFee[] };
+  totalCost: number; // trading + rede
+  totalCostPct: number | null; // em % do volume
+  unconverted: number; // fills sem câmbio disponível, fora dos totais
+}
+
+function emptyBucket(): FeeBucket {
+  return { fees: 0, volume: 0, fills: 0, costPct: null };
+}
+
+function addTo(bucket: FeeBucket, fee: number, volume: number) {
+  bucket.fees += fee;
+  bucket.volume += volume;
+  bucket.fills += 1;
+}
+
+function withCostPct<T extends FeeBucket>(bucket: T): T {
+  return { ...bucket, costPct: bucket.volume > 0 ? (bucket.fees / bucket.volume) * 100 : null };
+}
+
+export async function getFeeAnalytics(query: TradesQuery & { userId: string }): Promise<FeeAnalytics> {
+  const { start, end, where } = await getTradesWhere(query);
+  const currency = await getReportingCurrency(query.userId);
+  const convert = createConverter(currency);
+
+  const trades = await prisma.trade.findMany({
+    where,
+    orderBy: { executedAt: 'asc' },
+    select: {
+      market: true, symbol: true, qty: true, price: true, feeValue: true, feeAsset: true,
+      feeQuote: true, feeReporting: true, isMaker: true, executedAt: true,
+    },
+  });
+
+  const spotAssets = await resolveAssets(trades.filter(t => t.market !== 'FUTURES').map(t => t.symbol), 'SPOT');
+  const futuresAssets = await resolveAssets(trades.filter(t => t.market === 'FUTURES').map(t => t.symbol), 'FUTURES');
+
+  const trading = emptyBucket();
+  const byLiquidity: Record<Liquidity, FeeBucket> = { maker: emptyBucket(), taker: emptyBucket(), unknown: emptyBucket() };
+  const byMarket = new Map<string, FeeBucket & { market: string }>();
+  const bySymbol = new Map<string, FeeBucket & { market: string; symbol: string }>();
+  const byFeeAsset = new Map<string, { asset: string; fee: number; feeReporting: number }>();
+  const bnb = { fees: 0, savings: 0, potentialSavings: 0 };
+  let unconverted = 0;
+
+  for (const t of trades) {
+    const feeValue = Number(t.feeValue);
+    const notional = Number(t.qty) * Number(t.price);
+    const fee = t.feeReporting !== null ? Number(t.feeReporting) : await convert(feeValue, t.feeAsset, t.executedAt);
+
+    // Notional na moeda de relatório: pelo câmbio implícito da taxa (relatório / cotação)
+    // quando existe, senão convertendo a cotação do par na data
+    const feeQuote = t.feeQuote !== null ? Number(t.feeQuote) : null;
+    const volume = fee !== null && feeQuote !== null && feeQuote > 0
+      ? notional * (fee / feeQuote)
+      : await convert(notional, (t.market === 'FUTURES' ? futuresAssets : spotAssets).get(t.symbol)!.quoteAsset, t.executedAt);
+
+    if (fee === null || volume === null) {
+      unconverted++;
+      continue;
+    }
+
+    addTo(trading, fee, volume);
+    addTo(byLiquidity[t.isMaker === null ? 'unknown' : t.isMaker ? 'maker' : 'taker'], fee, volume);
+
+    const market = byMarket.get(t.market) ?? { market: t.market, ...emptyBucket() };
+    addTo(market, fee, volume);
+    byMarket.set(t.market, market);
+
+    const symbolKey = `${t.market}:${t.symbol}`;
+    const symbol = bySymbol.get(symbolKey) ?? { market: t.market, symbol: t.symbol, ...emptyBucket() };
+    addTo(symbol, fee, volume);
+    bySymbol.set(symbolKey, symbol);
+
+    const asset = byFeeAsset.get(t.feeAsset) ?? { asset: t.feeAsset, fee: 0, feeReporting: 0 };
+    asset.fee += feeValue;
+    asset.feeReporting += fee;
+    byFeeAsset.set(t.feeAsset, asset);
+
+    // Taxa paga em BNB já veio com desconto: sem ele seria fee / (1 - desconto)
+    const discount = BNB_DISCOUNT[t.market] ?? BNB_DISCOUNT.SPOT;
+    if (t.feeAsset === 'BNB') {
+      bnb.fees += fee;
+      bnb.savings += fee * discount / (1 - discount);
+    } else {
+      bnb.potentialSavings += fee * discount;
+    }
+  }
+
+  // Taxas de rede dos saques de cripto no período, convertidas na data do saque
+  const accountIds = query.accountIds ?? (await prisma.binanceAccount.findMany({
+    where: { userId: query.userId },
+    select: { id: true },
+  })).map(a => a.id);
+  const cashflows = await prisma.cashflow.findMany({
+    where: {
+      accountId: { in: accountIds },
+      type: 'WITHDRAWAL',
+      network: { not: null },
+      fee: { gt: 0 },
+      at: { gte: start, lte: end },
+    },
+    select: { asset: true, network: true, fee: true, at: true },
+  });
+
+  const networkFees = new Map<string, NetworkFee>();
+  for (const cf of cashflows) {
+    const key = `${cf.asset}:${cf.network}`;
+    const row = networkFees.get(key) ?? { asset: cf.asset, network: cf.network, fee: 0, feeReporting: 0, withdrawals: 0 };
+    const fee = Number(cf.fee);
+    const feeReporting = await convert(fee, cf.asset, cf.at);
+    row.fee += fee;
+    row.feeReporting = row.feeReporting !== null && feeReporting !== null ? row.feeReporting + feeReporting : null;
+    row.withdrawals += 1;
+    networkFees.set(key, row);
+  }
+  const networkTotal = Array.from(networkFees.values()).reduce((sum, n) => sum + (n.feeReporting ?? 0), 0);
+  const totalCost = trading.fees + networkTotal;
+
+  return {
+    currency,
+    startDate: start.toISOString().slice(0, 10),
+    endDate: end.toISOString().slice(0, 10),
+    trading: withCostPct(trading),
+    byLiquidity: {
+      maker: withCostPct(byLiquidity.maker),
+      taker: withCostPct(byLiquidity.taker),
+      unknown: withCostPct(byLiquidity.unknown),
+    },
+    byMarket: Array.from(byMarket.values()).map(withCostPct).sort((a, b) => b.fees - a.fees),
+    bySymbol: Array.from(bySymbol.values()).map(withCostPct).sort((a, b) => b.fees - a.fees),
+    byFeeAsset: Array.from(byFeeAsset.values()).sort((a, b) => b.feeReporting - a.feeReporting),
+    bnb,
+    network: {
+      total: networkTotal,
+      withdrawals: Array.from(networkFees.values()).sort((a, b) => (b.feeReporting ?? 0) - (a.feeReporting ?? 0)),
+    },
+    totalCost,
+    totalCostPct: trading.volume > 0 ? (totalCost / trading.volume) * 100 : null,
+    unconverted,
+  };
+}
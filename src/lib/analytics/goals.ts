@@ -0,0 +1,62 @@
+// Progresso das metas e limites de risco no período (normalmente o mês corrente)
+// PnL e drawdown vêm do summary de getTrades (os mesmos números do dashboard);
+// perda diária e ordens por dia, dos agregados diários do calendário (dias no fuso ?tz=).
+
+import { getTradingGoals, TradingGoals } from '@/lib/goals';
+import { getTrades } from '@/lib/trades';
+import { TradesQuery } from '@/lib/types';
+import { DailyPnl, getDailyPnl } from '@/lib/analytics/daily';
+import { dateKeyFormatter } from '@/lib/format';
+
+export interface GoalProgress {
+  currency: string;
+  goals: TradingGoals;
+  pnl: number;
+  pnlProgress: number | null; // pnl / meta (fração)
+  maxDrawdown: number;
+  drawdownUsage: number | null; // drawdown / limite (fração)
+  drawdownBreached: boolean;
+  today: {
+    date: string; // YYYY-MM-DD no fuso da consulta
+    pnl: number;
+    tradesCount: number;
+    lossUsage: number | null; // perda do dia / limite (0 em dia positivo)
+    tradesUsage: number | null; // ordens do dia / limite
+  };
+  worstDay: DailyPnl | null;
+  busiestDay: DailyPnl | null;
+  breachDays: DailyPnl[]; // dias com algum limite diário estourado
+}
+
+export async function getGoalProgress(query: TradesQuery & { userId: string }): Promise<GoalProgress> {
+  const goals = await getTradingGoals(query.userId);
+  const { summary } = await getTrades({ ...query, page: 1, pageSize: 1 });
+  const { days } = await getDailyPnl(query);
+
+  const pnl = Number(summary.pnlMonth);
+  const maxDrawdown = Number(summary.maxDrawdown);
+  const todayKey = dateKeyFormatter(query.timeZone ?? 'UTC')(new Date());
+  const today = days.find(d => d.date === todayKey);
+  const todayPnl = today?.pnl ?? 0;
+  const todayTrades = today?.tradesCount ?? 0;
+
+  return {
+    currency: summary.currency,
+    goals,
+    pnl,
+    pnlProgress: goals.monthlyPnlTarget !== null ? pnl / goals.monthlyPnlTarget : null,
+    maxDrawdown,
+    drawdownUsage: goals.maxDrawdown !== null ? maxDrawdown / goals.maxDrawdown : null,
+    drawdownBreached: goals.maxDrawdown !== null && maxDrawdown > goals.maxDrawdown,
+    today: {
+      date: todayKey,
+      pnl: todayPnl,
+      tradesCount: todayTrades,
+      lossUsage: goals.maxDailyLoss !== null ? Math.max(0, -todayPnl) / goals.maxDailyLoss : null,
+      tradesUsage: goals.maxTradesPerDay !== null ? todayTrades / goals.maxTradesPerDay : null,
+    },
+    worstDay: days.reduce<DailyPnl | null>((worst, d) => (d.pnl < (worst?.pnl ?? 0) ? d : worst), null),
+    busiestDay: days.reduce<DailyPnl | null>((busiest, d) => (d.tradesCount > (busiest?.tradesCount ?? 0) ? d : busiest), null),
+    breachDays: days.filter(d => d.breaches.length > 0),
+  };
+}
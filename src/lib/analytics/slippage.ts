@@ -0,0 +1,153 @@
+// Qualidade de execução das ordens a mercado (slippage)
+// Compara o preço de cada fill com a candle de 1 minuto do instante da execução:
+// a abertura (preço logo antes da ordem) ou o meio da candle ((máxima + mínima) / 2).
+// Slippage positivo = executou pior que a referência (comprou acima / vendeu abaixo).
+// As klines vêm do spot (PriceCandle não separa mercados), então só fills SPOT entram.
+
+import { prisma } from '@/lib/prisma';
+import { createConverter, getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getMinuteCandles } from '@/lib/prices';
+import { isListedSymbol, resolveAssets } from '@/lib/symbolInfo';
+import { getTradesWhere } from '@/lib/trades';
+import { TradesQuery } from '@/lib/types';
+
+export type SlippageReference = 'open' | 'mid';
+
+// Tipos de ordem que executam a mercado (os stops disparam uma ordem a mercado)
+export const MARKET_ORDER_TYPES = ['MARKET', 'STOP_LOSS', 'TAKE_PROFIT', 'STOP_MARKET', 'TAKE_PROFIT_MARKET'];
+
+export interface SlippageGroup {
+  symbol: string;
+  orderType: string;
+  fills: number;
+  orders: number;
+  volume: number; // notional na moeda de relatório
+  avgBps: number | null; // slippage médio ponderado pelo volume, em bps
+  cost: number; // custo do slippage na moeda de relatório (negativo = melhora de preço)
+  fees: number; // taxas dos mesmos fills, para comparação
+}
+
+export interface SlippageAnalysis {
+  currency: ReportingCurrency;
+  reference: SlippageReference;
+  startDate: string;
+  endDate: string;
+  total: Omit<SlippageGroup, 'symbol' | 'orderType'>;
+  groups: SlippageGroup[];
+  skipped: number; // fills sem candle de 1m ou sem câmbio disponível, fora dos totais
+}
+
+export function isSlippageReference(value: unknown): value is SlippageReference {
+  return value === 'open' || value === 'mid';
+}
+
+type Group = Omit<SlippageGroup, 'avgBps' | 'orders'> & { orderIds: Set<string> };
+
+function emptyGroup(symbol: string, orderType: string): Group {
+  return { symbol, orderType, fills: 0, volume: 0, cost: 0, fees: 0, orderIds: new Set() };
+}
+
+function toResult({ orderIds, ...group }: Group): SlippageGroup {
+  return {
+    ...group,
+    orders: orderIds.size,
+    avgBps: group.volume > 0 ? (group.cost / group.volume) * 10000 : null,
+  };
+}
+
+export async function getSlippageAnalysis(
+  query: TradesQuery & { userId: string; reference?: SlippageReference }
+): Promise<SlippageAnalysis> {
+  const reference = query.reference ?? 'open';
+  const { start, end, where } = await getTradesWhere(query);
+  const currency = await getReportingCurrency(query.userId);
+  const convert = createConverter(currency);
+
+  // Filtro de mercado FUTURES não tem fills elegíveis
+  const trades = query.market === 'FUTURES' ? [] : await prisma.trade.findMany({
+    where: {
+      ...where,
+      market: 'SPOT',
+      orderType: { in: MARKET_ORDER_TYPES },
+    },
+    orderBy: { executedAt: 'asc' },
+    select: {
+      id: true, accountId: true, orderId: true, symbol: true, side: true, orderType: true,
+      qty: true, price: true, feeQuote: true, feeReporting: true, executedAt: true,
+    },
+  });
+
+  const assets = await resolveAssets(trades.map(t => t.symbol), 'SPOT');
+
+  // Candles de 1m por símbolo (símbolos fora do spot não têm klines)
+  const candlesBySymbol = new Map<string, Awaited<ReturnType<typeof getMinuteCandles>>>();
+  for (const symbol of Array.from(new Set(trades.map(t => t.symbol)))) {
+    if (!(await isListedSymbol(symbol))) continue;
+    try {
+      candlesBySymbol.set(symbol, await getMinuteCandles(symbol, trades.filter(t => t.symbol === symbol).map(t => t.executedAt)));
+    } catch (error) {
+      console.error(`[SLIPPAGE] Erro ao buscar candles de 1m de ${symbol}:`, error);
+    }
+  }
+
+  const groups = new Map<string, Group>();
+  const total = emptyGroup('', '');
+  let skipped = 0;
+
+  for (const t of trades) {
+    const minute = Math.floor(t.executedAt.getTime() / 60000) * 60000;
+    const candle = candlesBySymbol.get(t.symbol)?.get(minute);
+    const refPrice = candle ? (reference === 'open' ? candle.open : (candle.high + candle.low) / 2) : null;
+    if (refPrice === null || refPrice <= 0) {
+      skipped++;
+      continue;
+    }
+
+    const qty = Number(t.qty);
+    const price = Number(t.price);
+    const notional = qty * price;
+    // Na cotação do par: compra acima da referência ou venda abaixo dela é custo
+    const costQuote = (t.side === 'SELL' ? refPrice - price : price - refPrice) * qty;
+
+    // Cotação -> moeda de relatório pelo câmbio implícito da taxa, senão pelo câmbio da data
+    const feeQuote = t.feeQuote !== null ? Number(t.feeQuote) : null;
+    const rate = t.feeReporting !== null && feeQuote !== null && feeQuote > 0
+      ? Number(t.feeReporting) / feeQuote
+      : await convert(1, assets.get(t.symbol)!.quoteAsset, t.executedAt);
+    if (rate === null) {
+      skipped++;
+      continue;
+    }
+    const fee = t.feeReporting !== null ? Number(t.feeReporting) : feeQuote !== null ? feeQuote * rate : 0;
+
+    const orderType = t.orderType ?? 'MARKET';
+    const key = `${t.symbol}:${orderType}`;
+    const group = groups.get(key) ?? emptyGroup(t.symbol, orderType);
+    for (const g of [group, total]) {
+      g.fills += 1;
+      g.volume += notional * rate;
+      g.cost += costQuote * rate;
+      g.fees += fee;
+      g.orderIds.add(t.orderId ? `${t.accountId}_${t.orderId}` : t.id);
+    }
+    groups.set(key, group);
+  }
+
+  const totalResult = toResult(total);
+  return {
+    currency,
+    reference,
+    startDate: start.toISOString().slice(0, 10),
+    endDate: end.toISOString().slice(0, 10),
+    total: {
+      fills: totalResult.fills,
+      orders: totalResult.orders,
+      volume: totalResult.volume,
+      avgBps: totalResult.avgBps,
+      cost: totalResult.cost,
+      fees: totalResult.fees,
+    },
+    groups: Array.from(groups.values()).map(toResult).sort((a, b) => b.cost - a.cost),
+    skipped,
+  };
+}
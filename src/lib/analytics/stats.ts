@@ -0,0 +1,201 @@
+// Estatísticas de desempenho dos trades (página /stats)
+// Usa os mesmos filtros de /api/trades (período, contas, mercado, símbolo, tags).
+// Métricas por ordem (profit factor, expectancy, sequências) vêm de summarizeTrades;
+// Sharpe e Sortino usam retornos diários: PnL realizado do dia (só dos trades do filtro)
+// sobre o patrimônio no início do dia. O patrimônio das mesmas contas do filtro é
+// reconstruído antes da janela e acumula o PnL de todos os trades das contas e os
+// depósitos/saques (Cashflow) dia a dia. Com filtro de mercado, símbolo ou tag o retorno
+// é a contribuição daquela fatia para a carteira. Dias sem trade contam 0%.
+// Dias no fuso ?tz= (padrão UTC), os mesmos do período de getTradesWhere.
+// Métricas móveis usam uma janela de 30 dias terminando em cada dia do período.
+
+import { prisma } from '@/lib/prisma';
+import { createConverter, getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getEquityAtDate } from '@/lib/monthlyBalance';
+import { getTradesWhere, summarizeTrades, TradeMetrics } from '@/lib/trades';
+import { dateKeyFormatter, startOfDayInTimeZone } from '@/lib/format';
+import { TradesQuery } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const ROLLING_WINDOW_DAYS = 30;
+// Cripto negocia todos os dias
+const PERIODS_PER_YEAR = 365;
+
+export interface DailyReturn {
+  date: string; // YYYY-MM-DD no fuso da consulta
+  pnl: number;
+  equity: number | null; // patrimônio no início do dia
+  return: number | null; // fração
+}
+
+export interface RollingStats {
+  date: string;
+  pnl: number;
+  tradesCount: number;
+  winRate: number;
+  profitFactor: number | null;
+  expectancy: number;
+  sharpe: number | null;
+}
+
+export interface TradeStats {
+  currency: ReportingCurrency;
+  startDate: string;
+  endDate: string;
+  metrics: TradeMetrics;
+  sharpe: number | null; // anualizado
+  sortino: number | null; // anualizado
+  startEquity: number | null;
+  daily: DailyReturn[];
+  rolling: RollingStats[];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sharpe anualizado de retornos diários (taxa livre de risco 0).
+ * Null com menos de dois retornos ou sem variação.
+ */
+export function computeSharpe(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const avg = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - avg) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+  return std > 0 ? (avg / std) * Math.sqrt(PERIODS_PER_YEAR) : null;
+}
+
+/**
+ * Sortino anualizado: como o Sharpe, mas só a volatilidade dos dias negativos
+ * (desvio abaixo de 0) entra no denominador. Null sem dias negativos.
+ */
+export function computeSortino(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length);
+  return downside > 0 ? (mean(returns) / downside) * Math.sqrt(PERIODS_PER_YEAR) : null;
+}
+
+// Dia YYYY-MM-DD deslocado de `days` dias (datas de calendário, sem fuso)
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(day + 'T00:00:00.000Z') + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function toNumber(value: unknown): number {
+  const n = Number(value ?? 0);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+export async function getTradeStats(query: TradesQuery & { userId: string }): Promise<TradeStats> {
+  const { start, end, where } = await getTradesWhere(query);
+  const currency = await getReportingCurrency(query.userId);
+  const convert = createConverter(currency);
+
+  // Dias do período (até hoje) e início da janela móvel do primeiro dia
+  const timeZone = query.timeZone ?? 'UTC';
+  const dayOf = dateKeyFormatter(timeZone);
+  const firstDay = dayOf(start);
+  const lastDay = dayOf(new Date(Math.min(end.getTime(), Date.now())));
+  const windowStartDay = addDays(firstDay, -(ROLLING_WINDOW_DAYS - 1));
+  const windowStart = startOfDayInTimeZone(windowStartDay, timeZone);
+
+  const trades = await prisma.trade.findMany({
+    where: { ...where, executedAt: { gte: windowStart, lte: end } },
+    orderBy: { executedAt: 'asc' }, // drawdown e sequências dependem da ordem
+  });
+  const periodTrades = trades.filter(t => t.executedAt >= start);
+
+  // Trades e PnL agrupados por dia uma única vez (a janela móvel junta os dias)
+  const tradesByDay = new Map<string, typeof trades>();
+  const pnlByDay = new Map<string, number>();
+  for (const t of trades) {
+    const key = dayOf(t.executedAt);
+    const dayTrades = tradesByDay.get(key);
+    if (dayTrades) dayTrades.push(t);
+    else tradesByDay.set(key, [t]);
+    pnlByDay.set(key, (pnlByDay.get(key) || 0) + toNumber(t.realizedPnlReporting ?? t.realizedPnl));
+  }
+
+  // Base dos retornos: as mesmas contas do filtro (todas as do usuário sem filtro de conta)
+  const accountIds = query.accountIds && query.accountIds.length > 0
+    ? query.accountIds
+    : (await prisma.binanceAccount.findMany({ where: { userId: query.userId }, select: { id: true } })).map(a => a.id);
+
+  // Com filtro de mercado/símbolo/tag o patrimônio ainda anda com o PnL de todos os trades das contas
+  const filtered = !!(query.market || query.symbol || (query.tags && query.tags.length > 0));
+  let accountPnlByDay = pnlByDay;
+  if (filtered) {
+    accountPnlByDay = new Map<string, number>();
+    const accountTrades = await prisma.trade.findMany({
+      where: { accountId: { in: accountIds }, executedAt: { gte: windowStart, lte: end } },
+      select: { executedAt: true, realizedPnl: true, realizedPnlReporting: true },
+    });
+    for (const t of accountTrades) {
+      const key = dayOf(t.executedAt);
+      accountPnlByDay.set(key, (accountPnlByDay.get(key) || 0) + toNumber(t.realizedPnlReporting ?? t.realizedPnl));
+    }
+  }
+
+  // Depósitos/saques mudam a base do retorno a partir do dia seguinte
+  const flowsByDay = new Map<string, number>();
+  const cashflows = await prisma.cashflow.findMany({
+    where: {
+      accountId: { in: accountIds },
+      at: { gte: windowStart, lte: end },
+      NOT: [{ note: { contains: 'Expired' } }],
+    },
+    select: { asset: true, amount: true, at: true },
+  });
+  for (const row of cashflows) {
+    const value = await convert(Number(row.amount), row.asset.toUpperCase(), row.at);
+    if (value === null) continue;
+    const key = dayOf(row.at);
+    flowsByDay.set(key, (flowsByDay.get(key) || 0) + value);
+  }
+
+  let equity: number | null = null;
+  try {
+    equity = await getEquityAtDate(query.userId, new Date(windowStart.getTime() - 1), accountIds);
+  } catch (error) {
+    console.error('[STATS] Erro ao reconstruir patrimônio inicial:', error);
+  }
+
+  const daily: DailyReturn[] = [];
+  let startEquity: number | null = null;
+  for (let key = windowStartDay; key <= lastDay; key = addDays(key, 1)) {
+    const pnl = pnlByDay.get(key) || 0;
+    if (key === firstDay) startEquity = equity;
+    daily.push({ date: key, pnl, equity, return: equity !== null && equity > 0 ? pnl / equity : null });
+    if (equity !== null) equity += (accountPnlByDay.get(key) || 0) + (flowsByDay.get(key) || 0);
+  }
+
+  const returnsOf = (days: DailyReturn[]) => days.filter(d => d.return !== null).map(d => d.return!);
+  const periodDays = daily.filter(d => d.date >= firstDay);
+
+  const rolling: RollingStats[] = [];
+  for (let i = ROLLING_WINDOW_DAYS - 1; i < daily.length; i++) {
+    const window = daily.slice(i - ROLLING_WINDOW_DAYS + 1, i + 1);
+    const metrics = summarizeTrades(window.flatMap(d => tradesByDay.get(d.date) ?? []));
+    rolling.push({
+      date: daily[i].date,
+      pnl: metrics.pnl,
+      tradesCount: metrics.tradesCount,
+      winRate: metrics.winRate,
+      profitFactor: metrics.profitFactor,
+      expectancy: metrics.expectancy,
+      sharpe: computeSharpe(returnsOf(window)),
+    });
+  }
+
+  return {
+    currency,
+    startDate: firstDay,
+    endDate: dayOf(end),
+    metrics: summarizeTrades(periodTrades),
+    sharpe: computeSharpe(returnsOf(periodDays)),
+    sortino: computeSortino(returnsOf(periodDays)),
+    startEquity,
+    daily: periodDays,
+    rolling,
+  };
+}
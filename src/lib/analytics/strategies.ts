@@ -0,0 +1,93 @@
+// Desempenho por tag do diário (setup, estratégia, erro)
+// Mesmas métricas do summary de getTrades, calculadas para as ordens/posições de
+// cada tag, com o total do período e a quebra por mês ou semana para comparação.
+// Um trade com várias tags entra em todas; trades sem tag formam o grupo "Sem tag".
+
+import { prisma } from '@/lib/prisma';
+import { getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getTagAssignments, TagAssignment, TagKind } from '@/lib/journal';
+import { summarizeTrades, SummaryTrade, TradeMetrics } from '@/lib/trades';
+
+export type ComparisonPeriod = 'month' | 'week';
+
+export interface StrategyGroup {
+  tag: TagAssignment['tag'] | null; // null = trades sem tag
+  metrics: TradeMetrics;
+  byPeriod: { period: string; metrics: TradeMetrics }[];
+}
+
+export interface StrategyPerformance {
+  currency: ReportingCurrency;
+  periods: string[];
+  groups: StrategyGroup[];
+}
+
+export interface StrategyPerformanceQuery {
+  start: Date;
+  end: Date;
+  market?: string;
+  kind?: TagKind;
+  period?: ComparisonPeriod;
+}
+
+// Chave do período: YYYY-MM ou a segunda-feira da semana (YYYY-MM-DD), em UTC
+function periodKey(date: Date, period: ComparisonPeriod): string {
+  if (period === 'month') return date.toISOString().slice(0, 7);
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+function buildGroup(
+  tag: StrategyGroup['tag'],
+  trades: (SummaryTrade & { executedAt: Date })[],
+  period: ComparisonPeriod
+): StrategyGroup {
+  const byPeriod = new Map<string, (SummaryTrade & { executedAt: Date })[]>();
+  for (const t of trades) {
+    const key = periodKey(t.executedAt, period);
+    byPeriod.set(key, [...(byPeriod.get(key) ?? []), t]);
+  }
+  return {
+    tag,
+    metrics: summarizeTrades(trades),
+    byPeriod: Array.from(byPeriod.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, list]) => ({ period: key, metrics: summarizeTrades(list) })),
+  };
+}
+
+export async function getStrategyPerformance(userId: string, query: StrategyPerformanceQuery): Promise<StrategyPerformance> {
+  const period = query.period ?? 'month';
+  const accounts = await prisma.binanceAccount.findMany({ where: { userId }, select: { id: true } });
+  const trades = await prisma.trade.findMany({
+    where: {
+      accountId: { in: accounts.map(a => a.id) },
+      executedAt: { gte: query.start, lte: query.end },
+      ...(query.market ? { market: query.market } : {}),
+    },
+    orderBy: { executedAt: 'asc' }, // drawdown depende da ordem
+  });
+
+  const assignments = await getTagAssignments(userId, { kind: query.kind });
+  const tagged = new Set<string>();
+  const groups: StrategyGroup[] = [];
+  for (const { tag, orders, tradeIds } of assignments) {
+    const orderKeys = new Set(orders.map(o => `${o.accountId}_${o.orderId}`));
+    const ids = new Set(tradeIds);
+    const list = trades.filter(t => ids.has(t.id) || (t.orderId && orderKeys.has(`${t.accountId}_${t.orderId}`)));
+    if (list.length === 0) continue;
+    list.forEach(t => tagged.add(t.id));
+    groups.push(buildGroup(tag, list, period));
+  }
+
+  const untagged = trades.filter(t => !tagged.has(t.id));
+  if (untagged.length > 0) {
+    groups.push(buildGroup(null, untagged, period));
+  }
+
+  groups.sort((a, b) => b.metrics.pnl - a.metrics.pnl);
+  const periods = Array.from(new Set(groups.flatMap(g => g.byPeriod.map(p => p.period)))).sort();
+
+  return { currency: await getReportingCurrency(userId), periods, groups };
+}
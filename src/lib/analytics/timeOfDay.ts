@@ -0,0 +1,71 @@
+// Desempenho por hora do dia e dia da semana, no fuso do usuário
+// Cada ordem cai no bucket da sua primeira execução (uma ordem que atravessa a
+// virada da hora não é dividida). Métricas de cada bucket vêm de summarizeTrades.
+
+import { prisma } from '@/lib/prisma';
+import { getReportingCurrency, ReportingCurrency } from '@/lib/fx';
+import { getTradesWhere, summarizeTrades } from '@/lib/trades';
+import { TradesQuery } from '@/lib/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface TimeBucket {
+  pnl: number;
+  tradesCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+}
+
+export interface TimeOfDayPerformance {
+  timeZone: string;
+  currency: ReportingCurrency;
+  byHour: TimeBucket[]; // 0..23
+  byWeekday: TimeBucket[]; // 0 = domingo .. 6 = sábado
+  grid: TimeBucket[][]; // [dia da semana][hora]
+}
+
+type BucketTrade = Parameters<typeof summarizeTrades>[0][number];
+
+function toBucket(trades: BucketTrade[]): TimeBucket {
+  const { pnl, tradesCount, winningTrades, losingTrades, winRate } = summarizeTrades(trades);
+  return { pnl, tradesCount, winningTrades, losingTrades, winRate };
+}
+
+export async function getTimeOfDayPerformance(
+  query: TradesQuery & { userId: string; timeZone: string }
+): Promise<TimeOfDayPerformance> {
+  const { where } = await getTradesWhere(query);
+  const trades = await prisma.trade.findMany({ where, orderBy: { executedAt: 'asc' } });
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: query.timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  // Bucket (dia da semana, hora) da primeira execução de cada ordem
+  const orderSlots = new Map<string, [number, number]>();
+  const grid: BucketTrade[][][] = WEEKDAYS.map(() => Array.from({ length: 24 }, () => []));
+  for (const t of trades) {
+    const key = t.orderId ? `${t.accountId}_${t.orderId}` : t.id;
+    let slot = orderSlots.get(key);
+    if (!slot) {
+      const parts = formatter.formatToParts(t.executedAt);
+      const weekday = WEEKDAYS.indexOf(parts.find(p => p.type === 'weekday')!.value);
+      const hour = Number(parts.find(p => p.type === 'hour')!.value) % 24;
+      slot = [weekday, hour];
+      orderSlots.set(key, slot);
+    }
+    grid[slot[0]][slot[1]].push(t);
+  }
+
+  return {
+    timeZone: query.timeZone,
+    currency: await getReportingCurrency(query.userId),
+    byHour: Array.from({ length: 24 }, (_, hour) => toBucket(grid.flatMap(day => day[hour]))),
+    byWeekday: grid.map(day => toBucket(day.flat())),
+    grid: grid.map(day => day.map(toBucket)),
+  };
+}
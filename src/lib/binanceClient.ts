@@ -0,0 +1,278 @@
+// Cliente REST único da Binance
+// Assinatura HMAC, correção de drift do relógio (recvWindow/timestamp),
+// orçamento de peso por minuto (X-MBX-USED-WEIGHT), retry com backoff
+// para 429/5xx e bloqueio local após ban (418).
+// Escolhe entre o proxy (BINANCE_PROXY_URL) e a chamada direta.
+
+import crypto from 'crypto';
+import { getProxyUrl, proxyGet } from '@/lib/binanceProxyClient';
+
+export type BinanceMarket = 'SPOT' | 'FUTURES';
+
+export interface BinanceCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface BinanceRequestOptions {
+  market: BinanceMarket | string;
+  path: string;
+  params?: QueryParams;
+  // Requisições assinadas exigem credenciais (ou proxy com Authorization)
+  credentials?: BinanceCredentials;
+  // Peso estimado da requisição (documentação da Binance)
+  weight?: number;
+  // Rota equivalente no proxy, usada quando BINANCE_PROXY_URL está configurado
+  proxy?: {
+    path: string;
+    params?: QueryParams;
+    authHeader?: string;
+    // Rotas do proxy que respondem { ok, data } em vez do corpo da Binance
+    unwrap?: boolean;
+  };
+  maxRetries?: number;
+}
+
+export class BinanceApiError extends Error {
+  status: number;
+  code: number | null;
+  retryAfterMs: number | null;
+
+  constructor(status: number, code: number | null, message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'BinanceApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 429 = limite estourado, 418 = IP banido temporariamente
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof BinanceApiError && (error.status === 429 || error.status === 418);
+}
+
+const RECV_WINDOW = 5000;
+const TIME_SYNC_INTERVAL_MS = 30 * 60 * 1000;
+// Margem de segurança: parar de enviar ao atingir 80% do limite por minuto
+const WEIGHT_BUDGET_RATIO = 0.8;
+const DEFAULT_MAX_RETRIES = 3;
+
+const BASE_URLS: Record<BinanceMarket, string> = {
+  SPOT: 'https://api.binance.com',
+  FUTURES: 'https://fapi.binance.com',
+};
+
+const WEIGHT_LIMITS: Record<BinanceMarket, number> = {
+  SPOT: 6000,
+  FUTURES: 2400,
+};
+
+// Estado por host/família de endpoint (api, sapi, fapi) dentro da instância
+interface HostState {
+  usedWeight: number;
+  weightMinute: number;
+  bannedUntil: number;
+  timeOffset: number;
+  timeSyncedAt: number;
+}
+
+const hostStates = new Map<string, HostState>();
+
+function resolveMarket(market: string): BinanceMarket {
+  return market === 'FUTURES' ? 'FUTURES' : 'SPOT';
+}
+
+function getHostState(key: string): HostState {
+  let state = hostStates.get(key);
+  if (!state) {
+    state = { usedWeight: 0, weightMinute: 0, bannedUntil: 0, timeOffset: 0, timeSyncedAt: 0 };
+    hostStates.set(key, state);
+  }
+  return state;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function toSearchParams(params: QueryParams = {}): URLSearchParams {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+  return search;
+}
+
+function sign(queryString: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(queryString).digest('hex');
+}
+
+async function syncServerTime(market: BinanceMarket, state: HostState): Promise<void> {
+  const path = market === 'FUTURES' ? '/fapi/v1/time' : '/api/v3/time';
+  try {
+    const before = Date.now();
+    const response = await fetch(`${BASE_URLS[market]}${path}`, { cache: 'no-store' });
+    const after = Date.now();
+    if (!response.ok) return;
+    const data: { serverTime: number } = await response.json();
+    // Considerar o ponto médio da requisição como o instante da resposta
+    state.timeOffset = data.serverTime - Math.round((before + after) / 2);
+    state.timeSyncedAt = after;
+  } catch (error) {
+    console.error('[BINANCE] Erro ao sincronizar horário do servidor:', error);
+  }
+}
+
+// Aguarda o próximo minuto se o peso usado + estimado estourar o orçamento
+async function waitForWeightBudget(market: BinanceMarket, state: HostState, weight: number): Promise<void> {
+  const minute = Math.floor(Date.now() / 60000);
+  if (state.weightMinute !== minute) {
+    state.weightMinute = minute;
+    state.usedWeight = 0;
+  }
+  const budget = WEIGHT_LIMITS[market] * WEIGHT_BUDGET_RATIO;
+  if (state.usedWeight + weight > budget) {
+    const waitMs = 60000 - (Date.now() % 60000) + 250;
+    console.warn(`[BINANCE] Peso ${state.usedWeight}/${WEIGHT_LIMITS[market]} no minuto, aguardando ${waitMs}ms`);
+    await sleep(waitMs);
+    state.weightMinute = Math.floor(Date.now() / 60000);
+    state.usedWeight = 0;
+  }
+}
+
+function readUsedWeight(response: Response, state: HostState): void {
+  const header = response.headers.get('x-mbx-used-weight-1m') ?? response.headers.get('x-sapi-used-ip-weight-1m');
+  if (header) {
+    state.usedWeight = Number(header) || state.usedWeight;
+    state.weightMinute = Math.floor(Date.now() / 60000);
+  }
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+async function parseError(response: Response): Promise<BinanceApiError> {
+  const text = await response.text();
+  let code: number | null = null;
+  try {
+    const body = JSON.parse(text);
+    if (typeof body.code === 'number') code = body.code;
+  } catch {
+    // corpo não-JSON (ex.: página de erro do WAF)
+  }
+  return new BinanceApiError(
+    response.status,
+    code,
+    `Binance API error: ${response.status} - ${text}`,
+    parseRetryAfter(response)
+  );
+}
+
+/**
+ * Executa uma requisição GET na Binance.
+ * Com proxy configurado (e Authorization, no caso de requisições assinadas)
+ * a chamada vai para a rota equivalente do proxy, que assina do lado dele.
+ */
+export async function binanceGet<T>(options: BinanceRequestOptions): Promise<T> {
+  const proxyBase = getProxyUrl();
+  const signed = !!options.credentials;
+  if (options.proxy && proxyBase && (!signed || options.proxy.authHeader)) {
+    const query = toSearchParams(options.proxy.params).toString();
+    const path = `${options.proxy.path}${query ? `?${query}` : ''}`;
+    if (options.proxy.unwrap) {
+      const res = await proxyGet<{ ok: boolean; data: T }>(path, options.proxy.authHeader);
+      return res.data;
+    }
+    return proxyGet<T>(path, options.proxy.authHeader);
+  }
+
+  const market = resolveMarket(options.market);
+  const baseUrl = BASE_URLS[market];
+  const stateKey = options.path.startsWith('/sapi') ? `${market}:sapi` : market;
+  const state = getHostState(stateKey);
+  const weight = options.weight ?? 1;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (state.bannedUntil > Date.now()) {
+      throw new BinanceApiError(
+        418,
+        null,
+        `Binance API error: IP banido até ${new Date(state.bannedUntil).toISOString()}`,
+        state.bannedUntil - Date.now()
+      );
+    }
+
+    await waitForWeightBudget(market, state, weight);
+
+    const query = toSearchParams(options.params);
+    if (options.credentials) {
+      const timeState = getHostState(market);
+      if (Date.now() - timeState.timeSyncedAt > TIME_SYNC_INTERVAL_MS) {
+        await syncServerTime(market, timeState);
+      }
+      query.set('recvWindow', String(RECV_WINDOW));
+      query.set('timestamp', String(Date.now() + timeState.timeOffset));
+      query.set('signature', sign(query.toString(), options.credentials.apiSecret));
+    }
+
+    const queryString = query.toString();
+    const url = `${baseUrl}${options.path}${queryString ? `?${queryString}` : ''}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: options.credentials ? { 'X-MBX-APIKEY': options.credentials.apiKey } : undefined,
+        cache: 'no-store',
+      });
+    } catch (error) {
+      // Erro de rede: tentar de novo com backoff exponencial
+      if (attempt >= maxRetries) throw error;
+      await sleep(500 * 2 ** attempt);
+      continue;
+    }
+
+    readUsedWeight(response, state);
+
+    if (response.ok) {
+      return response.json();
+    }
+
+    const error = await parseError(response);
+
+    if (response.status === 418) {
+      // Ban: não adianta insistir, bloquear localmente até o fim do ban
+      state.bannedUntil = Date.now() + (error.retryAfterMs ?? 2 * 60 * 1000);
+      console.error(`[BINANCE] IP banido (418) até ${new Date(state.bannedUntil).toISOString()}`);
+      throw error;
+    }
+
+    if (response.status === 429 && attempt < maxRetries) {
+      const waitMs = error.retryAfterMs ?? 1000 * 2 ** attempt;
+      console.warn(`[BINANCE] Rate limit (429) em ${options.path}, aguardando ${waitMs}ms`);
+      await sleep(waitMs);
+      continue;
+    }
+
+    // -1021: timestamp fora do recvWindow, ressincronizar horário e tentar de novo
+    if (error.code === -1021 && options.credentials && attempt < maxRetries) {
+      await syncServerTime(market, getHostState(market));
+      continue;
+    }
+
+    if (response.status >= 500 && attempt < maxRetries) {
+      await sleep(500 * 2 ** attempt);
+      continue;
+    }
+
+    console.error('Binance API error:', response.status, error.message);
+    throw error;
+  }
+}
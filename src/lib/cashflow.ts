@@ -1,4 +1,54 @@
 import { prisma } from './prisma';
+import { resolveAssets } from './symbolInfo';
+
+type Balance = Map<string, { free: number; locked: number }>;
+
+function addToBalance(balance: Balance, asset: string, amount: number) {
+  balance.set(asset, {
+    free: (balance.get(asset)?.free || 0) + amount,
+    locked: (balance.get(asset)?.locked || 0)
+  });
+}
+
+/**
+ * Aplica um trade ao saldo: compra recebe o ativo base e entrega a cotação,
+ * venda faz o contrário; a taxa sai do ativo em que foi cobrada
+ */
+function applyTrade(
+  balance: Balance,
+  trade: { side: string; qty: unknown; price: unknown; feeValue: unknown; feeAsset: string },
+  { baseAsset, quoteAsset }: { baseAsset: string; quoteAsset: string }
+) {
+  const qty = Number(trade.qty);
+  const price = Number(trade.price);
+  const feeValue = Number(trade.feeValue);
+
+  if (trade.side === 'BUY') {
+    addToBalance(balance, baseAsset, qty);
+    addToBalance(balance, quoteAsset, -(qty * price));
+  } else if (trade.side === 'SELL') {
+    addToBalance(balance, baseAsset, -qty);
+    addToBalance(balance, quoteAsset, qty * price);
+  } else {
+    return;
+  }
+
+  // Deduzir fee do ativo em que foi cobrada (base, cotação ou terceiro, como BNB)
+  if (feeValue !== 0) {
+    addToBalance(balance, trade.feeAsset ? trade.feeAsset.toUpperCase() : quoteAsset, -feeValue);
+  }
+}
+
+// Converter para array no formato da Binance (só saldos diferentes de zero)
+function toBalanceList(balance: Balance): { asset: string; free: string; locked: string }[] {
+  const result: { asset: string; free: string; locked: string }[] = [];
+  for (const [asset, bal] of balance.entries()) {
+    if (bal.free !== 0 || bal.locked !== 0) {
+      result.push({ asset, free: bal.free.toString(), locked: bal.locked.toString() });
+    }
+  }
+  return result;
+}
 
 /**
  * Calcula o saldo (caixa) até uma data específica
@@ -17,82 +67,62 @@ export async function getCashflowAtDate(
     orderBy: { executedAt: 'asc' }
   });
 
-  // Calcular saldo acumulado por asset
-  const balance = new Map<string, { free: number; locked: number }>();
+  // Ativo base/cotação de cada par vêm do registro (cobre BTCFDUSD, ETHBTC, BRLUSDT...)
+  const market = trades.find(t => t.market === 'FUTURES') ? 'FUTURES' : 'SPOT';
+  const assetsBySymbol = await resolveAssets(trades.map(t => t.symbol), market);
 
+  // Calcular saldo acumulado por asset
+  const balance: Balance = new Map();
   for (const trade of trades) {
-    // Determinar qual asset recebe/entrega baseado no símbolo e side
-    const baseAsset = trade.symbol.replace('BRL', '').replace('USDT', '');
-    const quoteAsset = trade.symbol.includes('BRL') ? 'BRL' : 'USDT';
-
-    const qty = Number(trade.qty);
-    const price = Number(trade.price);
-    const feeValue = Number(trade.feeValue);
+    applyTrade(balance, trade, assetsBySymbol.get(trade.symbol)!);
+  }
 
-    if (trade.side === 'BUY') {
-      // Compra: recebe base asset, entrega quote asset
-      balance.set(baseAsset, {
-        free: (balance.get(baseAsset)?.free || 0) + qty,
-        locked: (balance.get(baseAsset)?.locked || 0)
-      });
+  return toBalanceList(balance);
+}
 
-      balance.set(quoteAsset, {
-        free: (balance.get(quoteAsset)?.free || 0) - (qty * price),
-        locked: (balance.get(quoteAsset)?.locked || 0)
-      });
+/**
+ * Saldo em carteira no instante de cada data (em ordem crescente): o resultado dos
+ * trades somado aos depósitos e saques. Lê o histórico da conta uma vez só e vai
+ * acumulando de uma data para a seguinte.
+ */
+export async function getHoldingsSeries(
+  accountId: string,
+  dates: Date[]
+): Promise<{ asset: string; free: string; locked: string }[][]> {
+  if (dates.length === 0) return [];
+  const last = dates[dates.length - 1];
 
-      // Deduzir fee
-      if (trade.feeAsset === baseAsset) {
-        balance.set(baseAsset, {
-          free: (balance.get(baseAsset)?.free || 0) - feeValue,
-          locked: (balance.get(baseAsset)?.locked || 0)
-        });
-      } else {
-        balance.set(quoteAsset, {
-          free: (balance.get(quoteAsset)?.free || 0) - feeValue,
-          locked: (balance.get(quoteAsset)?.locked || 0)
-        });
-      }
-    } else if (trade.side === 'SELL') {
-      // Venda: entrega base asset, recebe quote asset
-      balance.set(baseAsset, {
-        free: (balance.get(baseAsset)?.free || 0) - qty,
-        locked: (balance.get(baseAsset)?.locked || 0)
-      });
+  const trades = await prisma.trade.findMany({
+    where: { accountId, executedAt: { lte: last } },
+    orderBy: { executedAt: 'asc' },
+    select: { symbol: true, market: true, side: true, qty: true, price: true, feeValue: true, feeAsset: true, executedAt: true }
+  });
+  const market = trades.find(t => t.market === 'FUTURES') ? 'FUTURES' : 'SPOT';
+  const assetsBySymbol = await resolveAssets(trades.map(t => t.symbol), market);
 
-      balance.set(quoteAsset, {
-        free: (balance.get(quoteAsset)?.free || 0) + (qty * price),
-        locked: (balance.get(quoteAsset)?.locked || 0)
-      });
+  // Depósitos e saques (amount já vem com sinal), ignorando ordens expiradas
+  const cashflows = await prisma.cashflow.findMany({
+    where: {
+      accountId,
+      at: { lte: last },
+      NOT: [{ note: { contains: 'Expired' } }]
+    },
+    orderBy: { at: 'asc' },
+    select: { asset: true, amount: true, at: true }
+  });
 
-      // Deduzir fee
-      if (trade.feeAsset === baseAsset) {
-        balance.set(baseAsset, {
-          free: (balance.get(baseAsset)?.free || 0) - feeValue,
-          locked: (balance.get(baseAsset)?.locked || 0)
-        });
-      } else {
-        balance.set(quoteAsset, {
-          free: (balance.get(quoteAsset)?.free || 0) - feeValue,
-          locked: (balance.get(quoteAsset)?.locked || 0)
-        });
-      }
+  const balance: Balance = new Map();
+  const series: { asset: string; free: string; locked: string }[][] = [];
+  let t = 0;
+  let c = 0;
+  for (const date of dates) {
+    for (; t < trades.length && trades[t].executedAt <= date; t++) {
+      applyTrade(balance, trades[t], assetsBySymbol.get(trades[t].symbol)!);
     }
-  }
-
-  // Converter para array no formato da Binance
-  const result: { asset: string; free: string; locked: string }[] = [];
-  for (const [asset, bal] of balance.entries()) {
-    // Só incluir se o saldo não for zero
-    if (bal.free !== 0 || bal.locked !== 0) {
-      result.push({
-        asset,
-        free: bal.free.toString(),
-        locked: bal.locked.toString()
-      });
+    for (; c < cashflows.length && cashflows[c].at <= date; c++) {
+      addToBalance(balance, cashflows[c].asset.toUpperCase(), Number(cashflows[c].amount));
     }
+    series.push(toBalanceList(balance));
   }
-
-  return result;
+  return series;
 }
-
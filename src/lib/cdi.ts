@@ -0,0 +1,137 @@
+// Taxa DI (CDI) diária para o benchmark de renda fixa
+// Fonte: série 12 do SGS do Banco Central (% ao dia, só dias úteis), ou CSV importado
+// pelo admin no mesmo formato (data;valor), por exemplo o download do próprio SGS.
+// A tabela é global (sem userId): usuários só disparam a busca no SGS.
+
+import { prisma } from '@/lib/prisma';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// O SGS limita consultas de séries diárias a 10 anos por requisição
+const SGS_MAX_WINDOW_MS = 5 * 365 * DAY_MS;
+// Tabela sem taxa há mais que isso no início ou no fim do período: busca no SGS
+const MAX_RATE_AGE_MS = 7 * DAY_MS;
+
+const SGS_CDI_URL = 'https://api.bcb.gov.br/dados/serie/bcdata.sgs.12/dados';
+
+export interface CdiRateInput {
+  date: Date; // dia (UTC, 00:00)
+  rate: number; // % ao dia
+}
+
+function startOfUtcDay(time: number): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+// dd/MM/yyyy, formato de data do SGS
+function sgsDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(8, 10)}/${iso.slice(5, 7)}/${iso.slice(0, 4)}`;
+}
+
+function parseDate(value: string): Date | null {
+  const v = value.trim().replace(/"/g, '');
+  const br = v.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const iso = br ? `${br[3]}-${br[2]}-${br[1]}` : v.match(/^\d{4}-\d{2}-\d{2}$/) ? v : null;
+  if (!iso) return null;
+  const date = new Date(iso + 'T00:00:00.000Z');
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseRate(value: string): number | null {
+  const n = Number(value.trim().replace(/"/g, '').replace(',', '.'));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Lê um CSV `data;valor` (dd/MM/yyyy ou yyyy-MM-dd; decimal com vírgula ou ponto).
+ * Linhas que não são data + taxa (cabeçalho, rodapé do SGS) são ignoradas.
+ */
+export function parseCdiCsv(text: string): CdiRateInput[] {
+  const rows: CdiRateInput[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    // Separador ; ou tab; com vírgula, só a primeira separa (a taxa pode usar vírgula decimal)
+    const comma = line.indexOf(',');
+    const parts = line.includes(';') || line.includes('\t')
+      ? line.split(/[;\t]/)
+      : comma >= 0 ? [line.slice(0, comma), line.slice(comma + 1)] : [];
+    if (parts.length < 2) continue;
+    const date = parseDate(parts[0]);
+    const rate = parseRate(parts[1]);
+    if (date && rate !== null) rows.push({ date, rate });
+  }
+  return rows;
+}
+
+/**
+ * Grava taxas importadas. Taxas já existentes para o dia são substituídas.
+ */
+export async function importCdiRates(rows: CdiRateInput[]): Promise<number> {
+  let saved = 0;
+  for (const row of rows) {
+    await prisma.cdiRate.upsert({
+      where: { date: startOfUtcDay(row.date.getTime()) },
+      create: { date: startOfUtcDay(row.date.getTime()), rate: row.rate.toString(), source: 'import' },
+      update: { rate: row.rate.toString(), source: 'import' },
+    });
+    saved++;
+  }
+  console.log(`[CDI] ${saved} taxas importadas`);
+  return saved;
+}
+
+/**
+ * Preenche CdiRate entre `start` e `end` com a série 12 do SGS.
+ */
+export async function syncCdiRates(start: Date, end: Date): Promise<number> {
+  let inserted = 0;
+  for (let from = start.getTime(); from <= end.getTime(); from += SGS_MAX_WINDOW_MS) {
+    const to = new Date(Math.min(from + SGS_MAX_WINDOW_MS - DAY_MS, end.getTime()));
+    const url = `${SGS_CDI_URL}?formato=json&dataInicial=${sgsDate(new Date(from))}&dataFinal=${sgsDate(to)}`;
+    const res = await fetch(url, { cache: 'no-store' });
+    // 404 = nenhum dia útil na janela
+    if (res.status === 404) continue;
+    if (!res.ok) {
+      throw new Error(`SGS request failed: ${res.status}`);
+    }
+    const data = await res.json() as { data: string; valor: string }[];
+    const rows = data
+      .map(d => ({ date: parseDate(d.data), rate: parseRate(d.valor) }))
+      .filter((r): r is CdiRateInput => r.date !== null && r.rate !== null);
+    if (rows.length === 0) continue;
+    const result = await prisma.cdiRate.createMany({
+      data: rows.map(r => ({ date: r.date, rate: r.rate.toString(), source: 'bcb' })),
+      skipDuplicates: true,
+    });
+    inserted += result.count;
+  }
+  if (inserted > 0) {
+    console.log(`[CDI] ${inserted} taxas gravadas do SGS`);
+  }
+  return inserted;
+}
+
+/**
+ * Taxas diárias (% a.d.) entre `start` e `end`, em ordem. Busca no SGS se a tabela
+ * não cobrir o início ou o fim do período.
+ */
+export async function getCdiRates(start: Date, end: Date): Promise<CdiRateInput[]> {
+  const find = () => prisma.cdiRate.findMany({
+    where: { date: { gte: startOfUtcDay(start.getTime()), lte: end } },
+    orderBy: { date: 'asc' },
+    select: { date: true, rate: true },
+  });
+
+  let rows = await find();
+  const covered = rows.length > 0
+    && rows[0].date.getTime() - start.getTime() <= MAX_RATE_AGE_MS
+    && Math.min(end.getTime(), Date.now()) - rows[rows.length - 1].date.getTime() <= MAX_RATE_AGE_MS;
+  if (!covered) {
+    try {
+      await syncCdiRates(start, new Date(Math.min(end.getTime(), Date.now())));
+    } catch (error) {
+      console.error(`[CDI] Erro ao buscar taxas de ${start.toISOString()} a ${end.toISOString()}:`, error);
+    }
+    rows = await find();
+  }
+  return rows.map(r => ({ date: r.date, rate: Number(r.rate) }));
+}
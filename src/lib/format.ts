@@ -24,4 +24,43 @@ export function monthRange(monthYYYYMM: string): { start: Date; end: Date; label
   return { start: first, end, label: format(first, 'yyyy-MM') };
 }
 
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Data local (YYYY-MM-DD) de cada instante no fuso informado; um formatter só por lote
+export function dateKeyFormatter(timeZone: string): (date: Date) => string {
+  const formatter = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  return (date) => formatter.format(date);
+}
 
+// Diferença (ms) entre o relógio local no fuso e UTC no instante `at`
+function timeZoneOffset(at: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find(p => p.type === type)!.value);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return local - Math.floor(at / 1000) * 1000;
+}
+
+// Instante da meia-noite de `day` (YYYY-MM-DD) no fuso informado
+export function startOfDayInTimeZone(day: string, timeZone: string): Date {
+  const [y, m, d] = day.split('-').map((v) => Number(v));
+  const utcMidnight = Date.UTC(y, m - 1, d);
+  // Segunda passada: no horário de verão o offset da meia-noite local difere do da meia-noite UTC
+  const guess = utcMidnight - timeZoneOffset(utcMidnight, timeZone);
+  return new Date(utcMidnight - timeZoneOffset(guess, timeZone));
+}
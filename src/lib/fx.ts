@@ -0,0 +1,236 @@
+// Câmbio histórico (USDT/BRL e USD/BRL) e conversão para a moeda de relatório
+// PnL e taxas ficam na moeda do par (BRL, USDT, BTC...) e também são gravados
+// na moeda de relatório do usuário, no câmbio do momento da execução, para
+// que somas misturando spot em BRL e futuros em USDT façam sentido.
+
+import { prisma } from '@/lib/prisma';
+import { getPriceAt, syncPriceCandles } from '@/lib/prices';
+import { resolveAssets, USD_STABLECOINS } from '@/lib/symbolInfo';
+
+export type ReportingCurrency = 'BRL' | 'USD' | 'USDT';
+
+export const REPORTING_CURRENCIES: ReportingCurrency[] = ['BRL', 'USD', 'USDT'];
+
+export type FxPair = 'USDTBRL' | 'USDBRL';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// PTAX não sai em fins de semana/feriados: aceita o último câmbio até 7 dias antes
+const MAX_RATE_AGE_MS = 7 * DAY_MS;
+// Janela buscada sob demanda quando falta câmbio para uma data
+const ON_DEMAND_WINDOW_MS = 60 * DAY_MS;
+
+const PTAX_URL = 'https://olinda.bcb.gov.br/olinda/servico/PTAX/versao/v1/odata';
+
+export function isReportingCurrency(value: unknown): value is ReportingCurrency {
+  return typeof value === 'string' && (REPORTING_CURRENCIES as string[]).includes(value);
+}
+
+export async function getReportingCurrency(userId: string): Promise<ReportingCurrency> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { reportingCurrency: true },
+  });
+  return isReportingCurrency(settings?.reportingCurrency) ? settings.reportingCurrency : 'BRL';
+}
+
+function startOfUtcDay(time: number): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+// MM-DD-YYYY, formato exigido pela API OData do Banco Central
+function ptaxDate(date: Date): string {
+  const iso = date.toISOString();
+  return `${iso.slice(5, 7)}-${iso.slice(8, 10)}-${iso.slice(0, 4)}`;
+}
+
+async function fetchPtaxRates(start: Date, end: Date): Promise<{ date: Date; rate: number }[]> {
+  const url = `${PTAX_URL}/CotacaoDolarPeriodo(dataInicial=@dataInicial,dataFinalCotacao=@dataFinalCotacao)`
+    + `?@dataInicial='${ptaxDate(start)}'&@dataFinalCotacao='${ptaxDate(end)}'`
+    + `&$select=cotacaoVenda,dataHoraCotacao&$format=json`;
+  const res = await fetch(url, { cache: 'no-store' });
+  if (!res.ok) {
+    throw new Error(`PTAX request failed: ${res.status}`);
+  }
+  const data = await res.json() as { value?: { cotacaoVenda: number; dataHoraCotacao: string }[] };
+  return (data.value || []).map(v => ({
+    date: startOfUtcDay(new Date(v.dataHoraCotacao.slice(0, 10) + 'T00:00:00.000Z').getTime()),
+    rate: v.cotacaoVenda,
+  }));
+}
+
+/**
+ * Preenche FxRate entre `start` e `end`.
+ * USDTBRL vem das candles diárias da Binance (fechamento); USDBRL da PTAX venda.
+ */
+export async function syncFxRates(pair: FxPair, start: Date, end: Date): Promise<number> {
+  let rows: { date: Date; rate: number }[];
+  let source: string;
+
+  if (pair === 'USDTBRL') {
+    await syncPriceCandles('USDTBRL', '1d', start, end);
+    const candles = await prisma.priceCandle.findMany({
+      where: { symbol: 'USDTBRL', interval: '1d', openTime: { gte: startOfUtcDay(start.getTime()), lte: end } },
+      select: { openTime: true, close: true },
+    });
+    rows = candles.map(c => ({ date: c.openTime, rate: Number(c.close) }));
+    source = 'binance';
+  } else {
+    rows = await fetchPtaxRates(start, end);
+    source = 'bcb';
+  }
+
+  if (rows.length === 0) return 0;
+  const result = await prisma.fxRate.createMany({
+    data: rows.map(r => ({ pair, date: r.date, rate: r.rate.toString(), source })),
+    skipDuplicates: true,
+  });
+  if (result.count > 0) {
+    console.log(`[FX] ${pair}: ${result.count} cotações gravadas`);
+  }
+  return result.count;
+}
+
+/**
+ * Câmbio do par no dia de `at` (ou o último dia útil antes dele).
+ * Busca a janela ao redor da data se ainda não estiver guardada.
+ */
+export async function getFxRate(pair: FxPair, at: Date): Promise<number | null> {
+  const find = () => prisma.fxRate.findFirst({
+    where: { pair, date: { lte: at, gte: new Date(at.getTime() - MAX_RATE_AGE_MS) } },
+    orderBy: { date: 'desc' },
+    select: { rate: true },
+  });
+
+  let row = await find();
+  if (!row) {
+    const end = new Date(Math.min(at.getTime() + ON_DEMAND_WINDOW_MS / 2, Date.now()));
+    try {
+      await syncFxRates(pair, new Date(at.getTime() - ON_DEMAND_WINDOW_MS / 2), end);
+    } catch (error) {
+      console.error(`[FX] Erro ao buscar ${pair} para ${at.toISOString()}:`, error);
+    }
+    row = await find();
+  }
+  return row ? Number(row.rate) : null;
+}
+
+// Valor de 1 unidade do ativo em BRL no instante (pivô de todas as conversões)
+async function brlValueOf(asset: string, at: Date): Promise<number | null> {
+  if (asset === 'BRL') return 1;
+  if (asset === 'USD') return getFxRate('USDBRL', at);
+  const usdtBrl = await getFxRate('USDTBRL', at);
+  if (usdtBrl === null) return null;
+  if (USD_STABLECOINS.includes(asset)) return usdtBrl;
+  const priceUsdt = await getPriceAt(asset, 'USDT', at);
+  return priceUsdt === null ? null : priceUsdt * usdtBrl;
+}
+
+export type CurrencyConverter = (amount: number, asset: string, at: Date) => Promise<number | null>;
+
+/**
+ * Conversor para uma moeda de relatório, com cache por ativo e hora
+ * (evita consultar o mesmo câmbio a cada trade de um lote).
+ */
+export function createConverter(currency: ReportingCurrency): CurrencyConverter {
+  const cache = new Map<string, Promise<number | null>>();
+  const valueOf = (asset: string, at: Date) => {
+    const key = `${asset}_${Math.floor(at.getTime() / (60 * 60 * 1000))}`;
+    if (!cache.has(key)) cache.set(key, brlValueOf(asset, at));
+    return cache.get(key)!;
+  };
+
+  return async (amount, asset, at) => {
+    if (amount === 0) return 0;
+    const from = USD_STABLECOINS.includes(asset) && currency === 'USDT' ? 'USDT' : asset;
+    if (from === currency) return amount;
+    const [fromBrl, toBrl] = await Promise.all([valueOf(from, at), valueOf(currency, at)]);
+    if (fromBrl === null || toBrl === null || toBrl === 0) return null;
+    return amount * fromBrl / toBrl;
+  };
+}
+
+function sameValue(stored: unknown, value: number | null): boolean {
+  if (stored === null || stored === undefined) return value === null;
+  return value !== null && Math.abs(Number(stored) - value) < 1e-9;
+}
+
+/**
+ * Grava PnL/taxas dos trades e o income de futuros da conta na moeda de relatório
+ * do usuário. Sem `from`/`to`, converte o histórico inteiro.
+ * Valores sem câmbio disponível ficam null (os relatórios caem no valor original).
+ */
+export async function convertAccountToReportingCurrency(
+  accountId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<{ trades: number; incomes: number }> {
+  const account = await prisma.binanceAccount.findUnique({
+    where: { id: accountId },
+    select: { userId: true },
+  });
+  if (!account) {
+    throw new Error('Account not found');
+  }
+
+  const currency = await getReportingCurrency(account.userId);
+  const convert = createConverter(currency);
+  const range = options.from || options.to
+    ? { ...(options.from ? { gte: options.from } : {}), ...(options.to ? { lte: options.to } : {}) }
+    : undefined;
+
+  const trades = await prisma.trade.findMany({
+    where: { accountId, ...(range ? { executedAt: range } : {}) },
+    select: {
+      id: true, market: true, symbol: true, feeAsset: true, feeValue: true, realizedPnl: true, executedAt: true,
+      realizedPnlReporting: true, feeReporting: true, reportingCurrency: true,
+    },
+  });
+
+  // PnL fica na moeda de cotação do par
+  const spotAssets = await resolveAssets(trades.filter(t => t.market !== 'FUTURES').map(t => t.symbol), 'SPOT');
+  const futuresAssets = await resolveAssets(trades.filter(t => t.market === 'FUTURES').map(t => t.symbol), 'FUTURES');
+
+  let tradesUpdated = 0;
+  let missing = 0;
+  for (const t of trades) {
+    const { quoteAsset } = (t.market === 'FUTURES' ? futuresAssets : spotAssets).get(t.symbol)!;
+    const pnl = await convert(Number(t.realizedPnl), quoteAsset, t.executedAt);
+    const fee = await convert(Number(t.feeValue), t.feeAsset, t.executedAt);
+    if (pnl === null || fee === null) missing++;
+
+    if (t.reportingCurrency === currency && sameValue(t.realizedPnlReporting, pnl) && sameValue(t.feeReporting, fee)) {
+      continue;
+    }
+    await prisma.trade.update({
+      where: { id: t.id },
+      data: {
+        realizedPnlReporting: pnl !== null ? pnl.toString() : null,
+        feeReporting: fee !== null ? fee.toString() : null,
+        reportingCurrency: currency,
+      },
+    });
+    tradesUpdated++;
+  }
+
+  const incomes = await prisma.futuresIncome.findMany({
+    where: { accountId, ...(range ? { time: range } : {}) },
+    select: { id: true, asset: true, income: true, time: true, incomeReporting: true, reportingCurrency: true },
+  });
+
+  let incomesUpdated = 0;
+  for (const row of incomes) {
+    const value = await convert(Number(row.income), row.asset, row.time);
+    if (value === null) missing++;
+    if (row.reportingCurrency === currency && sameValue(row.incomeReporting, value)) continue;
+    await prisma.futuresIncome.update({
+      where: { id: row.id },
+      data: { incomeReporting: value !== null ? value.toString() : null, reportingCurrency: currency },
+    });
+    incomesUpdated++;
+  }
+
+  if (missing > 0) {
+    console.warn(`[FX] Conta ${accountId}: ${missing} valores sem câmbio disponível para ${currency}`);
+  }
+  console.log(`[FX] Conta ${accountId}: ${tradesUpdated} trades e ${incomesUpdated} incomes convertidos para ${currency}`);
+  return { trades: tradesUpdated, incomes: incomesUpdated };
+}
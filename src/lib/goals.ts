@@ -0,0 +1,64 @@
+// Metas e limites de risco do usuário (UserSettings), na moeda de relatório
+// Meta de PnL e drawdown valem para o mês; perda máxima e número de ordens, por dia (no fuso
+// do usuário, os mesmos dias do calendário do dashboard).
+
+import { prisma } from '@/lib/prisma';
+
+export interface TradingGoals {
+  monthlyPnlTarget: number | null;
+  maxDailyLoss: number | null;
+  maxDrawdown: number | null;
+  maxTradesPerDay: number | null;
+}
+
+export type GoalField = keyof TradingGoals;
+
+export const GOAL_FIELDS: GoalField[] = ['monthlyPnlTarget', 'maxDailyLoss', 'maxDrawdown', 'maxTradesPerDay'];
+
+// Limites diários estourados num dia
+export type DayBreach = 'dailyLoss' | 'tradesPerDay';
+
+/**
+ * Valida os campos de metas presentes em `body` (número positivo ou null para remover).
+ * Campos ausentes ficam de fora do resultado.
+ */
+export function parseGoals(body: Record<string, unknown>): { goals: Partial<TradingGoals>; error?: string } {
+  const goals: Partial<TradingGoals> = {};
+  for (const field of GOAL_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === '') {
+      goals[field] = null;
+      continue;
+    }
+    const n = Number(value);
+    if (!Number.isFinite(n) || n <= 0) {
+      return { goals, error: `${field} must be a positive number or null` };
+    }
+    if (field === 'maxTradesPerDay' && !Number.isInteger(n)) {
+      return { goals, error: 'maxTradesPerDay must be an integer' };
+    }
+    goals[field] = n;
+  }
+  return { goals };
+}
+
+export async function getTradingGoals(userId: string): Promise<TradingGoals> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { monthlyPnlTarget: true, maxDailyLoss: true, maxDrawdown: true, maxTradesPerDay: true },
+  });
+  return {
+    monthlyPnlTarget: settings?.monthlyPnlTarget != null ? Number(settings.monthlyPnlTarget) : null,
+    maxDailyLoss: settings?.maxDailyLoss != null ? Number(settings.maxDailyLoss) : null,
+    maxDrawdown: settings?.maxDrawdown != null ? Number(settings.maxDrawdown) : null,
+    maxTradesPerDay: settings?.maxTradesPerDay ?? null,
+  };
+}
+
+export function getDayBreaches(day: { pnl: number; tradesCount: number }, goals: TradingGoals): DayBreach[] {
+  const breaches: DayBreach[] = [];
+  if (goals.maxDailyLoss !== null && day.pnl < -goals.maxDailyLoss) breaches.push('dailyLoss');
+  if (goals.maxTradesPerDay !== null && day.tradesCount > goals.maxTradesPerDay) breaches.push('tradesPerDay');
+  return breaches;
+}
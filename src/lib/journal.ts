@@ -0,0 +1,356 @@
+// Diário de trades: anotações, tags (setup/estratégia), estado emocional e screenshots
+// Uma entrada pertence a uma ordem (accountId + orderId) ou a uma posição reconstruída
+// (accountId + positionId, ver lib/positions.ts). Screenshots ficam no disco local,
+// em JOURNAL_UPLOAD_DIR/<userId>/, e são servidos só para o dono.
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getPositions } from '@/lib/positions';
+
+export type TagKind = 'setup' | 'strategy' | 'mistake';
+export const TAG_KINDS: TagKind[] = ['setup', 'strategy', 'mistake'];
+
+export const MIN_EMOTION = 1;
+export const MAX_EMOTION = 5;
+
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+const SCREENSHOT_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+const SCREENSHOT_NAME = /^[0-9a-f-]{36}\.(png|jpg|webp|gif)$/;
+
+export class JournalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'JournalError';
+    this.status = status;
+  }
+}
+
+export interface JournalEntryInput {
+  accountId: string;
+  orderId?: string | null;
+  positionId?: string | null;
+  symbol?: string | null;
+  notes?: string | null;
+  emotion?: number | null;
+  tags?: string[]; // nomes; tags inexistentes são criadas como 'setup'
+}
+
+export function isTagKind(value: unknown): value is TagKind {
+  return typeof value === 'string' && (TAG_KINDS as string[]).includes(value);
+}
+
+function getUploadDir(userId: string): string {
+  const base = process.env.JOURNAL_UPLOAD_DIR || path.join(process.cwd(), 'uploads', 'journal');
+  return path.join(base, userId);
+}
+
+const entryInclude = { tags: { select: { id: true, name: true, kind: true, color: true } } };
+
+export async function getJournalEntry(
+  userId: string,
+  where: { accountId: string; orderId?: string; positionId?: string }
+) {
+  if (!where.orderId && !where.positionId) {
+    throw new JournalError('orderId or positionId is required');
+  }
+  return prisma.journalEntry.findFirst({
+    where: {
+      userId,
+      accountId: where.accountId,
+      ...(where.orderId ? { orderId: where.orderId } : { positionId: where.positionId }),
+    },
+    include: entryInclude,
+  });
+}
+
+/**
+ * Cria ou atualiza a entrada da ordem/posição. As tags enviadas substituem as atuais.
+ */
+export async function saveJournalEntry(userId: string, input: JournalEntryInput) {
+  if (!input.orderId && !input.positionId) {
+    throw new JournalError('orderId or positionId is required');
+  }
+  if (input.emotion != null && (!Number.isInteger(input.emotion) || input.emotion < MIN_EMOTION || input.emotion > MAX_EMOTION)) {
+    throw new JournalError(`emotion must be an integer between ${MIN_EMOTION} and ${MAX_EMOTION}`);
+  }
+  const account = await prisma.binanceAccount.findFirst({ where: { id: input.accountId, userId }, select: { id: true } });
+  if (!account) {
+    throw new JournalError('Account not found', 404);
+  }
+
+  const tagNames = Array.from(new Set((input.tags ?? []).map(t => t.trim()).filter(Boolean)));
+  const tags = tagNames.map(name => ({
+    where: { userId_name: { userId, name } },
+    create: { userId, name },
+  }));
+  const data = {
+    symbol: input.symbol ?? null,
+    notes: input.notes?.trim() || null,
+    emotion: input.emotion ?? null,
+  };
+
+  const existing = await getJournalEntry(userId, {
+    accountId: input.accountId,
+    orderId: input.orderId ?? undefined,
+    positionId: input.positionId ?? undefined,
+  });
+  if (existing) {
+    return prisma.journalEntry.update({
+      where: { id: existing.id },
+      data: { ...data, tags: { set: [], connectOrCreate: tags } },
+      include: entryInclude,
+    });
+  }
+  return prisma.journalEntry.create({
+    data: {
+      ...data,
+      userId,
+      accountId: input.accountId,
+      orderId: input.orderId || null,
+      positionId: input.orderId ? null : input.positionId ?? null,
+      tags: { connectOrCreate: tags },
+    },
+    include: entryInclude,
+  });
+}
+
+export async function deleteJournalEntry(userId: string, id: string): Promise<void> {
+  const entry = await prisma.journalEntry.findFirst({ where: { id, userId } });
+  if (!entry) {
+    throw new JournalError('Journal entry not found', 404);
+  }
+  for (const name of entry.screenshots) {
+    await unlink(path.join(getUploadDir(userId), name)).catch(() => undefined);
+  }
+  await prisma.journalEntry.delete({ where: { id } });
+}
+
+export async function addScreenshot(userId: string, entryId: string, file: File): Promise<string> {
+  const entry = await prisma.journalEntry.findFirst({ where: { id: entryId, userId }, select: { id: true } });
+  if (!entry) {
+    throw new JournalError('Journal entry not found', 404);
+  }
+  const ext = SCREENSHOT_TYPES[file.type];
+  if (!ext) {
+    throw new JournalError('Screenshot must be PNG, JPEG, WEBP or GIF');
+  }
+  if (file.size > MAX_SCREENSHOT_BYTES) {
+    throw new JournalError('Screenshot must be at most 5 MB');
+  }
+
+  const name = `${randomUUID()}.${ext}`;
+  const dir = getUploadDir(userId);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, name), Buffer.from(await file.arrayBuffer()));
+  await prisma.journalEntry.update({ where: { id: entryId }, data: { screenshots: { push: name } } });
+  return name;
+}
+
+export async function removeScreenshot(userId: string, entryId: string, name: string): Promise<void> {
+  const entry = await prisma.journalEntry.findFirst({ where: { id: entryId, userId } });
+  if (!entry || !entry.screenshots.includes(name)) {
+    throw new JournalError('Screenshot not found', 404);
+  }
+  await unlink(path.join(getUploadDir(userId), name)).catch(() => undefined);
+  await prisma.journalEntry.update({
+    where: { id: entryId },
+    data: { screenshots: entry.screenshots.filter(s => s !== name) },
+  });
+}
+
+export async function readScreenshot(userId: string, name: string): Promise<{ data: Buffer; contentType: string }> {
+  // Nome gerado por addScreenshot; qualquer outra coisa (../ etc.) é recusada
+  if (!SCREENSHOT_NAME.test(name)) {
+    throw new JournalError('Invalid screenshot name');
+  }
+  // Só arquivos ainda ligados a uma entrada do usuário (não os que sobraram no disco)
+  const entry = await prisma.journalEntry.findFirst({ where: { userId, screenshots: { has: name } }, select: { id: true } });
+  if (!entry) {
+    throw new JournalError('Screenshot not found', 404);
+  }
+  const ext = name.split('.').pop()!;
+  const contentType = Object.entries(SCREENSHOT_TYPES).find(([, e]) => e === ext)![0];
+  try {
+    return { data: await readFile(path.join(getUploadDir(userId), name)), contentType };
+  } catch {
+    throw new JournalError('Screenshot not found', 404);
+  }
+}
+
+// Resto abaixo disso (em fração da execução de abertura) conta como zerado
+const FLAT_TOLERANCE = 1e-8;
+
+// Símbolo, lado em hedge mode e abertura da posição, tirados do id (ver openPosition em lib/positions.ts)
+function parsePositionId(positionId: string): { symbol: string; hedge: string | null; openedAt: Date } | null {
+  const parts = positionId.split('_');
+  const time = Number(parts[parts.length - 1]);
+  if (parts.length < 3 || parts.length > 4 || !Number.isFinite(time)) return null;
+  return { symbol: parts[1], hedge: parts.length === 4 ? parts[2] : null, openedAt: new Date(time) };
+}
+
+/**
+ * Execuções das posições anotadas. Em vez do histórico inteiro, reconstrói só conta +
+ * mercado + símbolo + lado das posições, a partir da abertura mais antiga entre elas
+ * (o lado estava zerado nesse instante). Se essa abertura foi uma virada de mão no
+ * one-way (saldo anterior não zerado), o lado é reconstruído desde o início.
+ */
+async function getPositionTradeIds(
+  userId: string,
+  entries: { accountId: string; positionId: string }[]
+): Promise<Map<string, string[]>> {
+  const tradeIdsByPosition = new Map<string, string[]>();
+  const refs = entries.flatMap(e => {
+    const parsed = parsePositionId(e.positionId);
+    return parsed ? [{ ...e, ...parsed }] : [];
+  });
+  if (refs.length === 0) return tradeIdsByPosition;
+
+  // Mercado e lado vêm da execução que abriu a posição (o id é igual no SPOT e em FUTURES)
+  const openings = await prisma.trade.findMany({
+    where: { OR: refs.map(r => ({ accountId: r.accountId, symbol: r.symbol, executedAt: r.openedAt })) },
+    select: { accountId: true, market: true, symbol: true, positionSide: true, qty: true, executedAt: true },
+  });
+  const groups = new Map<string, {
+    accountId: string;
+    market: string;
+    symbol: string;
+    positionSide: string;
+    from: Date;
+    openingQty: number;
+    positionIds: Set<string>;
+  }>();
+  for (const r of refs) {
+    for (const o of openings) {
+      if (o.accountId !== r.accountId || o.symbol !== r.symbol || o.executedAt.getTime() !== r.openedAt.getTime()) continue;
+      const positionSide = o.positionSide === 'LONG' || o.positionSide === 'SHORT' ? o.positionSide : 'BOTH';
+      if ((r.hedge ?? 'BOTH') !== positionSide) continue;
+      const key = `${o.accountId}_${o.market}_${o.symbol}_${positionSide}`;
+      const group = groups.get(key);
+      if (!group) {
+        groups.set(key, {
+          accountId: o.accountId,
+          market: o.market,
+          symbol: o.symbol,
+          positionSide,
+          from: o.executedAt,
+          openingQty: Number(o.qty),
+          positionIds: new Set([r.positionId]),
+        });
+        continue;
+      }
+      group.positionIds.add(r.positionId);
+      if (o.executedAt < group.from) {
+        group.from = o.executedAt;
+        group.openingQty = Number(o.qty);
+      }
+    }
+  }
+
+  for (const group of groups.values()) {
+    // One-way: saldo com sinal antes da abertura diferente de zero = virada de mão
+    let fillsFrom: Date | undefined = group.from;
+    if (group.market === 'FUTURES' && group.positionSide === 'BOTH') {
+      const sums = await prisma.trade.groupBy({
+        by: ['side'],
+        where: {
+          accountId: group.accountId,
+          market: group.market,
+          symbol: group.symbol,
+          OR: [{ positionSide: null }, { positionSide: '' }, { positionSide: 'BOTH' }],
+          executedAt: { lt: group.from },
+        },
+        _sum: { qty: true },
+      });
+      const net = sums.reduce((n, row) => n + (row.side === 'BUY' ? 1 : -1) * Number(row._sum.qty ?? 0), 0);
+      if (Math.abs(net) > group.openingQty * FLAT_TOLERANCE) fillsFrom = undefined;
+    }
+
+    const positions = await getPositions({
+      userId,
+      accountIds: [group.accountId],
+      market: group.market,
+      symbol: group.symbol,
+      fillsFrom,
+      excursions: false,
+    });
+    for (const p of positions) {
+      if (group.positionIds.has(p.id)) tradeIdsByPosition.set(p.id, p.tradeIds);
+    }
+  }
+  return tradeIdsByPosition;
+}
+
+export interface TagAssignment {
+  tag: { id: string; name: string; kind: string; color: string | null };
+  orders: { accountId: string; orderId: string }[]; // ordens anotadas com a tag
+  tradeIds: string[]; // execuções das posições anotadas com a tag
+}
+
+/**
+ * Ordens e execuções marcadas com cada tag do usuário (opcionalmente só as tags
+ * com esses nomes ou desse tipo). Posições anotadas são reconstruídas (só os
+ * símbolos e o período delas) para achar as execuções que as compõem.
+ */
+export async function getTagAssignments(
+  userId: string,
+  filter: { names?: string[]; kind?: TagKind } = {}
+): Promise<TagAssignment[]> {
+  const tags = await prisma.tag.findMany({
+    where: {
+      userId,
+      ...(filter.names ? { name: { in: filter.names } } : {}),
+      ...(filter.kind ? { kind: filter.kind } : {}),
+    },
+    select: {
+      id: true,
+      name: true,
+      kind: true,
+      color: true,
+      entries: { select: { accountId: true, orderId: true, positionId: true } },
+    },
+  });
+
+  const tradeIdsByPosition = await getPositionTradeIds(
+    userId,
+    tags.flatMap(t => t.entries.filter(e => e.positionId).map(e => ({ accountId: e.accountId, positionId: e.positionId! })))
+  );
+
+  return tags.map(({ entries, ...tag }) => ({
+    tag,
+    orders: entries.filter(e => e.orderId).map(e => ({ accountId: e.accountId, orderId: e.orderId! })),
+    tradeIds: entries.flatMap(e => (e.positionId && tradeIdsByPosition.get(e.positionId)) || []),
+  }));
+}
+
+/**
+ * Filtro de trades (where do Prisma) para as tags: ordens anotadas com alguma das
+ * tags e execuções das posições anotadas. Retorna null se nenhuma entrada usa as tags.
+ */
+export async function getTradeFilterForTags(userId: string, tagNames: string[]) {
+  const assignments = await getTagAssignments(userId, { names: tagNames });
+  const or: ({ accountId: string; orderId: { in: string[] } } | { id: { in: string[] } })[] = [];
+
+  const ordersByAccount = new Map<string, string[]>();
+  for (const { accountId, orderId } of assignments.flatMap(a => a.orders)) {
+    ordersByAccount.set(accountId, [...(ordersByAccount.get(accountId) ?? []), orderId]);
+  }
+  for (const [accountId, orderIds] of ordersByAccount) {
+    or.push({ accountId, orderId: { in: orderIds } });
+  }
+
+  const tradeIds = assignments.flatMap(a => a.tradeIds);
+  if (tradeIds.length > 0) {
+    or.push({ id: { in: tradeIds } });
+  }
+
+  return or.length > 0 ? { OR: or } : null;
+}
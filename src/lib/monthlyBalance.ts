@@ -0,0 +1,227 @@
+// Reconstrução automática do saldo inicial de cada mês
+// Saldo inicial do mês = patrimônio no fechamento do mês anterior: ativos em carteira
+// (depósitos/saques + trades em SPOT, ledger de income em FUTURES) avaliados a
+// preço histórico e convertidos para a moeda de relatório do usuário.
+// Valores digitados pelo usuário (source = 'manual') nunca são sobrescritos.
+// Valores calculados são um cache: sync/recálculo que mexe em trades, depósitos/saques
+// ou income apaga os meses seguintes (invalidateMonthlyBalances) e eles são refeitos
+// na próxima leitura.
+
+import { prisma } from '@/lib/prisma';
+import { getHoldingsSeries } from '@/lib/cashflow';
+import { createConverter, getReportingCurrency } from '@/lib/fx';
+import { monthRange } from '@/lib/format';
+
+export type MonthlyBalanceSource = 'manual' | 'calculated';
+
+// Carteira de futuros USDⓈ-M em cada data (em ordem crescente): soma de todo o income
+// (transferências, PnL, taxas, funding...) até a data
+async function getFuturesWalletSeries(accountId: string, dates: Date[]): Promise<{ asset: string; amount: number }[][]> {
+  if (dates.length === 0) return [];
+  const rows = await prisma.futuresIncome.findMany({
+    where: { accountId, time: { lte: dates[dates.length - 1] } },
+    orderBy: { time: 'asc' },
+    select: { asset: true, income: true, time: true },
+  });
+
+  const wallet = new Map<string, number>();
+  const series: { asset: string; amount: number }[][] = [];
+  let i = 0;
+  for (const date of dates) {
+    for (; i < rows.length && rows[i].time <= date; i++) {
+      wallet.set(rows[i].asset, (wallet.get(rows[i].asset) || 0) + Number(rows[i].income));
+    }
+    series.push(Array.from(wallet.entries()).map(([asset, amount]) => ({ asset, amount })));
+  }
+  return series;
+}
+
+/**
+ * Patrimônio do usuário no instante de cada data (em ordem crescente), na moeda de
+ * relatório. O histórico de cada conta é lido uma vez e acumulado de uma data para a
+ * seguinte. Com `accountIds`, só as contas informadas entram na soma.
+ * Saldos negativos (histórico incompleto antes do primeiro depósito importado)
+ * e ativos sem preço na data (poeira de pares delistados, tokens sem par) são
+ * ignorados. Uma data fica null só se havia saldo e nenhum ativo pôde ser avaliado.
+ */
+export async function getEquitySeries(userId: string, dates: Date[], accountIds?: string[]): Promise<(number | null)[]> {
+  const accounts = await prisma.binanceAccount.findMany({
+    where: { userId, ...(accountIds ? { id: { in: accountIds } } : {}) },
+    select: { id: true, market: true },
+  });
+  const convert = createConverter(await getReportingCurrency(userId));
+
+  const holdingsByAccount: { accountId: string; series: { asset: string; amount: number }[][] }[] = [];
+  for (const acc of accounts) {
+    const series = acc.market === 'FUTURES'
+      ? await getFuturesWalletSeries(acc.id, dates)
+      : (await getHoldingsSeries(acc.id, dates)).map(list => list.map(b => ({ asset: b.asset, amount: Number(b.free) + Number(b.locked) })));
+    holdingsByAccount.push({ accountId: acc.id, series });
+  }
+
+  const result: (number | null)[] = [];
+  for (let d = 0; d < dates.length; d++) {
+    const date = dates[d];
+    let equity = 0;
+    let priced = 0;
+    const unpriced: string[] = [];
+    for (const { accountId, series } of holdingsByAccount) {
+      for (const { asset, amount } of series[d]) {
+        if (amount <= 0) {
+          if (amount < 0) {
+            console.warn(`[MONTHLY BALANCE] Conta ${accountId}: saldo negativo de ${asset} em ${date.toISOString()} (${amount}), ignorado`);
+          }
+          continue;
+        }
+        const value = await convert(amount, asset, date);
+        if (value === null) {
+          unpriced.push(`${asset} (${amount})`);
+          continue;
+        }
+        equity += value;
+        priced++;
+      }
+    }
+    if (unpriced.length > 0) {
+      console.warn(`[MONTHLY BALANCE] Sem preço em ${date.toISOString()}, fora do patrimônio: ${unpriced.join(', ')}`);
+      if (priced === 0) {
+        result.push(null);
+        continue;
+      }
+    }
+    result.push(equity);
+  }
+  return result;
+}
+
+// Patrimônio do usuário no instante `date` (ver getEquitySeries)
+export async function getEquityAtDate(userId: string, date: Date, accountIds?: string[]): Promise<number | null> {
+  return (await getEquitySeries(userId, [date], accountIds))[0];
+}
+
+// Saldo inicial = patrimônio no último instante do mês anterior
+export async function computeOpeningBalance(userId: string, month: string): Promise<number | null> {
+  const { start } = monthRange(month);
+  return getEquityAtDate(userId, new Date(start.getTime() - 1));
+}
+
+async function saveCalculatedBalance(userId: string, month: string, value: number): Promise<void> {
+  await prisma.monthlyBalance.upsert({
+    where: { userId_month: { userId, month } },
+    update: { initialBalance: value.toFixed(2), source: 'calculated', calculatedAt: new Date() },
+    create: { userId, month, initialBalance: value.toFixed(2), source: 'calculated', calculatedAt: new Date() },
+  });
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Apaga os saldos calculados que dependem do histórico da conta a partir de `from`
+ * (meses posteriores ao de `from`; sem `from`, todos). Saldos manuais ficam.
+ * Chamado por quem grava ou apaga trades, depósitos/saques e income.
+ */
+export async function invalidateMonthlyBalances(accountId: string, from?: Date): Promise<void> {
+  const account = await prisma.binanceAccount.findUnique({
+    where: { id: accountId },
+    select: { userId: true },
+  });
+  if (!account) return;
+
+  const result = await prisma.monthlyBalance.deleteMany({
+    where: {
+      userId: account.userId,
+      source: 'calculated',
+      ...(from ? { month: { gt: monthKey(from) } } : {}),
+    },
+  });
+  if (result.count > 0) {
+    console.log(`[MONTHLY BALANCE] Conta ${accountId}: ${result.count} saldos calculados invalidados${from ? ` após ${monthKey(from)}` : ''}`);
+  }
+}
+
+// Meses desde a primeira movimentação do usuário até o mês atual (YYYY-MM)
+async function getActivityMonths(userId: string): Promise<string[]> {
+  const accounts = await prisma.binanceAccount.findMany({ where: { userId }, select: { id: true } });
+  const where = { accountId: { in: accounts.map(a => a.id) } };
+  const [firstTrade, firstCashflow, firstIncome] = await Promise.all([
+    prisma.trade.findFirst({ where, orderBy: { executedAt: 'asc' }, select: { executedAt: true } }),
+    prisma.cashflow.findFirst({ where, orderBy: { at: 'asc' }, select: { at: true } }),
+    prisma.futuresIncome.findFirst({ where, orderBy: { time: 'asc' }, select: { time: true } }),
+  ]);
+  const dates = [firstTrade?.executedAt, firstCashflow?.at, firstIncome?.time].filter((d): d is Date => !!d);
+  if (dates.length === 0) return [];
+
+  const months: string[] = [];
+  const cursor = new Date(Math.min(...dates.map(d => d.getTime())));
+  cursor.setUTCDate(1);
+  const last = monthKey(new Date());
+  while (monthKey(cursor) <= last) {
+    months.push(monthKey(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  return months;
+}
+
+export interface RebuildMonthlyBalancesResult {
+  calculated: number;
+  skippedManual: number;
+  failed: number;
+}
+
+/**
+ * Recalcula o saldo inicial de todos os meses com atividade (a partir de `fromMonth`).
+ * Meses com saldo manual são mantidos.
+ */
+export async function rebuildMonthlyBalances(
+  userId: string,
+  options: { fromMonth?: string; onProgress?: (done: number, total: number, month: string) => Promise<void> } = {}
+): Promise<RebuildMonthlyBalancesResult> {
+  const months = (await getActivityMonths(userId)).filter(m => !options.fromMonth || m >= options.fromMonth);
+  const manual = new Set((await prisma.monthlyBalance.findMany({
+    where: { userId, source: 'manual' },
+    select: { month: true },
+  })).map(b => b.month));
+
+  const result: RebuildMonthlyBalancesResult = { calculated: 0, skippedManual: 0, failed: 0 };
+  for (let i = 0; i < months.length; i++) {
+    const month = months[i];
+    if (options.onProgress) {
+      await options.onProgress(i, months.length, month);
+    }
+    if (manual.has(month)) {
+      result.skippedManual++;
+      continue;
+    }
+    const value = await computeOpeningBalance(userId, month);
+    if (value === null) {
+      result.failed++;
+      continue;
+    }
+    await saveCalculatedBalance(userId, month, value);
+    result.calculated++;
+  }
+
+  console.log(`[MONTHLY BALANCE] Usuário ${userId}: ${result.calculated} meses calculados, ${result.skippedManual} manuais mantidos, ${result.failed} sem preço`);
+  return result;
+}
+
+/**
+ * Saldo inicial do mês: o salvo (manual ou calculado) ou, se ainda não existir
+ * (nunca calculado ou invalidado por um sync), calcula e grava no cache.
+ * Retorna null se não foi possível calcular.
+ */
+export async function ensureMonthlyBalance(userId: string, month: string): Promise<{ value: string; source: MonthlyBalanceSource } | null> {
+  const existing = await prisma.monthlyBalance.findUnique({
+    where: { userId_month: { userId, month } },
+  });
+  if (existing) {
+    return { value: existing.initialBalance, source: existing.source === 'calculated' ? 'calculated' : 'manual' };
+  }
+
+  const value = await computeOpeningBalance(userId, month);
+  if (value === null) return null;
+  await saveCalculatedBalance(userId, month, value);
+  return { value: value.toFixed(2), source: 'calculated' };
+}
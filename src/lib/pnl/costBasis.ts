@@ -0,0 +1,242 @@
+// Custo de aquisição e PnL realizado de SPOT
+// Métodos: FIFO, LIFO e custo médio ponderado (exigido pela Receita Federal)
+// Usado tanto na sincronização quanto no job de recálculo, para que os
+// mesmos trades sempre gerem o mesmo PnL.
+// Taxas entram no cálculo, como no custo médio da Receita: a taxa da compra soma ao custo
+// do lote e a da venda sai do valor recebido. Usa a taxa na cotação do par (feeQuote);
+// trades sem ela (taxa em ativo sem preço) entram sem taxa.
+
+import { prisma } from '@/lib/prisma';
+import { resolveAssets } from '@/lib/symbolInfo';
+import { convertAccountToReportingCurrency } from '@/lib/fx';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
+import { backfillTradeFees } from '@/lib/sync/fees';
+import { computeFuturesRealizedPnl } from './futures';
+
+export type CostBasisMethod = 'FIFO' | 'LIFO' | 'AVERAGE';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['FIFO', 'LIFO', 'AVERAGE'];
+
+export interface CostBasisFill {
+  id: string;
+  symbol: string;
+  side: string; // BUY | SELL
+  qty: number;
+  price: number;
+  fee: number; // taxa na cotação do par (feeQuote), 0 se desconhecida
+  executedAt: Date;
+}
+
+export interface OpenLot {
+  symbol: string;
+  qty: number;
+  originalQty: number;
+  price: number; // custo unitário, com a taxa da compra
+  acquiredAt: Date;
+  tradeId: string;
+}
+
+export interface CostBasisResult {
+  realized: Map<string, number>; // id da venda -> PnL realizado
+  openLots: OpenLot[]; // o que sobrou em carteira, por símbolo
+}
+
+// Diferenças menores que isso são ruído de ponto flutuante
+const PNL_EPSILON = 1e-9;
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return typeof value === 'string' && (COST_BASIS_METHODS as string[]).includes(value);
+}
+
+/**
+ * Calcula o PnL realizado de cada venda a partir dos fills em ordem cronológica,
+ * e os lotes que continuam abertos no fim. Vendas sem compras anteriores suficientes
+ * realizam PnL apenas sobre a quantidade casada (histórico incompleto).
+ */
+export function computeCostBasis(fills: CostBasisFill[], method: CostBasisMethod): CostBasisResult {
+  const lotsBySymbol = new Map<string, OpenLot[]>();
+  const realized = new Map<string, number>();
+
+  for (const fill of fills) {
+    if (!lotsBySymbol.has(fill.symbol)) {
+      lotsBySymbol.set(fill.symbol, []);
+    }
+    const lots = lotsBySymbol.get(fill.symbol)!;
+
+    if (fill.side === 'BUY') {
+      if (fill.qty <= 0) continue;
+      const cost = fill.qty * fill.price + fill.fee;
+      if (method === 'AVERAGE' && lots.length > 0) {
+        // Custo médio: um único lote com o preço médio ponderado
+        const lot = lots[0];
+        const totalQty = lot.qty + fill.qty;
+        lot.price = (lot.qty * lot.price + cost) / totalQty;
+        lot.qty = totalQty;
+        lot.originalQty += fill.qty;
+      } else {
+        lots.push({
+          symbol: fill.symbol,
+          qty: fill.qty,
+          originalQty: fill.qty,
+          price: cost / fill.qty,
+          acquiredAt: fill.executedAt,
+          tradeId: fill.id,
+        });
+      }
+      continue;
+    }
+
+    if (fill.side !== 'SELL' || fill.qty <= 0 || fill.price <= 0) continue;
+
+    let remainingQty = fill.qty;
+    let pnl = 0;
+    // FIFO consome do lote mais antigo; LIFO do mais recente; AVERAGE tem um lote só
+    while (remainingQty > 0 && lots.length > 0) {
+      const index = method === 'LIFO' ? lots.length - 1 : 0;
+      const lot = lots[index];
+      const qtyToUse = Math.min(lot.qty, remainingQty);
+      pnl += (fill.price - lot.price) * qtyToUse;
+      lot.qty -= qtyToUse;
+      remainingQty -= qtyToUse;
+      if (lot.qty <= PNL_EPSILON) {
+        lots.splice(index, 1);
+      }
+    }
+
+    // Taxa da venda proporcional à quantidade casada com lotes
+    pnl -= fill.fee * ((fill.qty - remainingQty) / fill.qty);
+
+    realized.set(fill.id, pnl);
+  }
+
+  const openLots = Array.from(lotsBySymbol.values()).flat().filter(lot => lot.qty > PNL_EPSILON);
+  return { realized, openLots };
+}
+
+export async function getCostBasisMethod(userId: string): Promise<CostBasisMethod> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { costBasisMethod: true },
+  });
+  return isCostBasisMethod(settings?.costBasisMethod) ? settings.costBasisMethod : 'FIFO';
+}
+
+export interface RecalculateResult {
+  processed: number;
+  updated: number;
+}
+
+/**
+ * Recalcula o realizedPnl de todos os trades da conta e regrava os lotes abertos.
+ * O cálculo sempre parte do primeiro trade (o custo depende do histórico inteiro),
+ * mas só grava trades a partir de `from` e até `to`, quando informados.
+ * SPOT usa o método de custo do usuário; FUTURES usa o PnL da Binance (ver pnl/futures.ts).
+ * Antes completa as taxas na cotação (ver sync/fees.ts), que entram no custo SPOT;
+ * no fim converte PnL e taxas do trecho recalculado para a moeda de relatório (ver fx.ts).
+ */
+export async function recalculateAccountPnl(
+  accountId: string,
+  options: { from?: Date; to?: Date; onProgress?: (processed: number, total: number) => Promise<void> } = {}
+): Promise<RecalculateResult> {
+  const account = await prisma.binanceAccount.findUnique({
+    where: { id: accountId },
+    select: { userId: true },
+  });
+  if (!account) {
+    throw new Error('Account not found');
+  }
+
+  const method = await getCostBasisMethod(account.userId);
+
+  // Taxas ainda sem valor na cotação do par (CSV, trades antigos): o custo depende delas
+  await backfillTradeFees(accountId, { to: options.to });
+
+  const trades = await prisma.trade.findMany({
+    where: {
+      accountId,
+      ...(options.to ? { executedAt: { lte: options.to } } : {}),
+    },
+    orderBy: [{ executedAt: 'asc' }, { id: 'asc' }],
+  });
+
+  const spotTrades = trades.filter(t => t.market !== 'FUTURES');
+  const futuresTrades = trades.filter(t => t.market === 'FUTURES');
+
+  const { realized: pnlById, openLots } = computeCostBasis(
+    spotTrades.map(t => ({
+      id: t.id,
+      symbol: t.symbol,
+      side: t.side,
+      qty: Number(t.qty),
+      price: Number(t.price),
+      fee: t.feeQuote !== null ? Number(t.feeQuote) : 0,
+      executedAt: t.executedAt,
+    })),
+    method
+  );
+  const futuresPnl = computeFuturesRealizedPnl(futuresTrades.map(t => ({
+    symbol: t.symbol,
+    side: t.side,
+    positionSide: t.positionSide,
+    qty: Number(t.qty),
+    price: Number(t.price),
+    exchangeRealizedPnl: t.exchangeRealizedPnl !== null ? Number(t.exchangeRealizedPnl) : null,
+  })));
+  futuresTrades.forEach((t, i) => pnlById.set(t.id, futuresPnl[i]));
+
+  const toUpdate = options.from ? trades.filter(t => t.executedAt >= options.from!) : trades;
+  let processed = 0;
+  let updated = 0;
+
+  for (const trade of toUpdate) {
+    processed++;
+    // Compras SPOT não realizam PnL
+    const pnl = pnlById.get(trade.id) ?? 0;
+    if (Math.abs(pnl - Number(trade.realizedPnl)) > PNL_EPSILON) {
+      await prisma.trade.update({
+        where: { id: trade.id },
+        data: { realizedPnl: pnl.toString() },
+      });
+      updated++;
+    }
+    if (options.onProgress) {
+      await options.onProgress(processed, toUpdate.length);
+    }
+  }
+
+  // Lotes abertos só fazem sentido com o histórico completo (sem corte em `to`)
+  if (!options.to) {
+    await saveOpenLots(accountId, openLots);
+  }
+
+  // PnL mudou: regravar na moeda de relatório do usuário
+  await convertAccountToReportingCurrency(accountId, { from: options.from, to: options.to });
+
+  // Trades novos ou removidos mudam o saldo inicial dos meses seguintes
+  await invalidateMonthlyBalances(accountId, options.from);
+
+  return { processed, updated };
+}
+
+async function saveOpenLots(accountId: string, openLots: OpenLot[]): Promise<void> {
+  const assetsBySymbol = await resolveAssets(openLots.map(lot => lot.symbol), 'SPOT');
+  await prisma.$transaction([
+    prisma.lot.deleteMany({ where: { accountId } }),
+    prisma.lot.createMany({
+      data: openLots.map(lot => {
+        const { baseAsset, quoteAsset } = assetsBySymbol.get(lot.symbol)!;
+        return {
+          accountId,
+          symbol: lot.symbol,
+          asset: baseAsset,
+          quoteAsset,
+          qty: lot.qty.toString(),
+          originalQty: lot.originalQty.toString(),
+          costPrice: lot.price.toString(),
+          acquiredAt: lot.acquiredAt,
+          tradeId: lot.tradeId,
+        };
+      }),
+    }),
+  ]);
+}
@@ -0,0 +1,78 @@
+// PnL de futuros
+// Em futuros um SELL pode abrir posição (short) e, em hedge mode, LONG e SHORT
+// do mesmo símbolo são posições independentes. O FIFO de compras do spot não se aplica.
+// Regra: usar o realizedPnl informado pela Binance; sem ele (ex.: trades antigos),
+// calcular pelo preço médio de entrada da posição, como a Binance faz.
+
+export interface FuturesFill {
+  symbol: string;
+  side: string; // BUY | SELL
+  positionSide?: string | null; // BOTH | LONG | SHORT
+  qty: number;
+  price: number;
+  exchangeRealizedPnl?: number | null;
+}
+
+// qty com sinal: > 0 comprado (long), < 0 vendido (short)
+interface FuturesPosition {
+  qty: number;
+  entryPrice: number;
+}
+
+function positionKey(fill: FuturesFill): string {
+  return `${fill.symbol}:${fill.positionSide || 'BOTH'}`;
+}
+
+/**
+ * Aplica um fill na posição e retorna o PnL realizado pelo preço médio de entrada.
+ * Fills que aumentam a posição recalculam o preço médio; fills no sentido oposto
+ * realizam PnL e, se passarem do tamanho da posição, viram a mão (one-way mode).
+ */
+function applyFill(position: FuturesPosition, fill: FuturesFill): number {
+  const delta = fill.side === 'SELL' ? -fill.qty : fill.qty;
+  if (delta === 0) return 0;
+
+  // Abrindo ou aumentando posição
+  if (position.qty === 0 || Math.sign(position.qty) === Math.sign(delta)) {
+    const newQty = position.qty + delta;
+    position.entryPrice = (Math.abs(position.qty) * position.entryPrice + fill.qty * fill.price) / Math.abs(newQty);
+    position.qty = newQty;
+    return 0;
+  }
+
+  // Reduzindo/fechando posição
+  const closeQty = Math.min(Math.abs(position.qty), fill.qty);
+  const pnl = (fill.price - position.entryPrice) * closeQty * Math.sign(position.qty);
+  const remaining = fill.qty - closeQty;
+
+  if (remaining > 0) {
+    // Virou a mão: o excedente abre posição no sentido oposto
+    position.qty = Math.sign(delta) * remaining;
+    position.entryPrice = fill.price;
+  } else {
+    position.qty += delta;
+    if (position.qty === 0) position.entryPrice = 0;
+  }
+
+  return pnl;
+}
+
+/**
+ * Calcula o PnL realizado de cada fill (na mesma ordem recebida, que deve ser cronológica).
+ * Quando o fill tem exchangeRealizedPnl, esse valor é usado; a posição é sempre
+ * atualizada para que os fills seguintes sem valor da Binance sejam calculados corretamente.
+ */
+export function computeFuturesRealizedPnl(fills: FuturesFill[]): number[] {
+  const positions = new Map<string, FuturesPosition>();
+
+  return fills.map(fill => {
+    const key = positionKey(fill);
+    if (!positions.has(key)) {
+      positions.set(key, { qty: 0, entryPrice: 0 });
+    }
+    const computed = applyFill(positions.get(key)!, fill);
+    return fill.exchangeRealizedPnl !== null && fill.exchangeRealizedPnl !== undefined
+      ? fill.exchangeRealizedPnl
+      : computed;
+  });
+}
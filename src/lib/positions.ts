@@ -0,0 +1,323 @@
+// Reconstrução de posições (round trips) a partir das execuções
+// Uma posição vai de zerado → aberto → zerado de novo, por conta e símbolo.
+// FUTURES: compra soma e venda subtrai; uma execução que vira a mão fecha a posição
+// atual e abre outra no sentido oposto com o restante da quantidade.
+// Em hedge mode, LONG e SHORT do mesmo símbolo são posições independentes (como em
+// pnl/futures.ts): cada lado tem sua sequência de fills e nunca vira a mão.
+// SPOT: só posições compradas; vendas sem posição aberta (saldo anterior ao
+// histórico importado) são ignoradas.
+// PnL e taxas na moeda de relatório quando já convertidos (senão, na moeda do par).
+
+import { prisma } from '@/lib/prisma';
+import { CANDLE_INTERVAL_MS, CandleInterval, HOURLY_HISTORY_MS } from '@/lib/prices';
+
+// Resto abaixo disso (em fração do maior tamanho da posição) conta como zerado
+const FLAT_TOLERANCE = 1e-8;
+
+export type PositionSide = 'LONG' | 'SHORT';
+export type PositionStatus = 'OPEN' | 'CLOSED';
+
+export interface RoundTripPosition {
+  id: string;
+  accountId: string;
+  market: string;
+  symbol: string;
+  side: PositionSide;
+  status: PositionStatus;
+  openedAt: Date;
+  closedAt: Date | null;
+  holdingMs: number | null; // tempo em posição (null enquanto aberta)
+  size: number; // maior tamanho atingido, no ativo base
+  entryQty: number;
+  exitQty: number;
+  entryVwap: number;
+  exitVwap: number | null;
+  realizedPnl: number;
+  fees: number;
+  funding: number; // funding fee atribuído à posição (só FUTURES)
+  netPnl: number; // realizado - taxas + funding (no SPOT o realizado já desconta as taxas)
+  mae: number | null; // máxima excursão adversa, fração do preço de entrada (<= 0)
+  mfe: number | null; // máxima excursão favorável, fração do preço de entrada (>= 0)
+  fills: number;
+  tradeIds: string[];
+}
+
+export interface PositionsQuery {
+  userId: string;
+  startDate?: Date;
+  endDate?: Date;
+  accountIds?: string[];
+  market?: string;
+  symbol?: string;
+  status?: PositionStatus;
+  excursions?: boolean; // calcular MAE/MFE (padrão: sim)
+  fillsFrom?: Date; // lê só as execuções a partir daqui (cada conta/símbolo/lado precisa estar zerado nessa data)
+}
+
+interface Fill {
+  id: string;
+  accountId: string;
+  market: string;
+  symbol: string;
+  side: string;
+  positionSide: string | null; // FUTURES: BOTH (one-way), LONG ou SHORT (hedge mode)
+  qty: number;
+  price: number;
+  fee: number;
+  realizedPnl: number;
+  executedAt: Date;
+}
+
+interface OpenPosition {
+  position: RoundTripPosition;
+  net: number; // quantidade com sinal (+ comprado, - vendido)
+  entryNotional: number;
+  exitNotional: number;
+}
+
+// Lado fixo da posição em hedge mode; null em one-way (BOTH) e no spot
+function hedgeSide(fill: Fill): PositionSide | null {
+  return fill.positionSide === 'LONG' || fill.positionSide === 'SHORT' ? fill.positionSide : null;
+}
+
+function openPosition(fill: Fill, qty: number, fee: number): OpenPosition {
+  const side: PositionSide = fill.side === 'BUY' ? 'LONG' : 'SHORT';
+  const hedge = hedgeSide(fill);
+  return {
+    net: side === 'LONG' ? qty : -qty,
+    entryNotional: qty * fill.price,
+    exitNotional: 0,
+    position: {
+      // Em hedge mode o lado entra no id: LONG e SHORT podem abrir no mesmo instante
+      id: hedge
+        ? `${fill.accountId}_${fill.symbol}_${hedge}_${fill.executedAt.getTime()}`
+        : `${fill.accountId}_${fill.symbol}_${fill.executedAt.getTime()}`,
+      accountId: fill.accountId,
+      market: fill.market,
+      symbol: fill.symbol,
+      side,
+      status: 'OPEN',
+      openedAt: fill.executedAt,
+      closedAt: null,
+      holdingMs: null,
+      size: qty,
+      entryQty: qty,
+      exitQty: 0,
+      entryVwap: fill.price,
+      exitVwap: null,
+      realizedPnl: 0,
+      fees: fee,
+      funding: 0,
+      netPnl: 0,
+      mae: null,
+      mfe: null,
+      fills: 1,
+      tradeIds: [fill.id],
+    },
+  };
+}
+
+/**
+ * Agrupa as execuções de um mesmo símbolo/conta/lado (em ordem cronológica) em posições.
+ */
+export function buildRoundTrips(fills: Fill[]): RoundTripPosition[] {
+  const positions: RoundTripPosition[] = [];
+  let current: OpenPosition | null = null;
+
+  for (const fill of fills) {
+    if (fill.qty <= 0) continue;
+
+    const hedge = hedgeSide(fill);
+    if (!current) {
+      // SPOT não abre posição vendida
+      if (fill.market !== 'FUTURES' && fill.side !== 'BUY') continue;
+      // Hedge mode: só a compra abre LONG e só a venda abre SHORT (o resto é histórico anterior)
+      if (hedge && (fill.side === 'BUY' ? 'LONG' : 'SHORT') !== hedge) continue;
+      current = openPosition(fill, fill.qty, fill.fee);
+      current.position.realizedPnl += fill.realizedPnl;
+      continue;
+    }
+
+    const p = current.position;
+    const sign = fill.side === 'BUY' ? 1 : -1;
+    const increases = Math.sign(current.net) === sign;
+    p.fills++;
+    p.tradeIds.push(fill.id);
+
+    if (increases) {
+      current.net += sign * fill.qty;
+      current.entryNotional += fill.qty * fill.price;
+      p.entryQty += fill.qty;
+      p.entryVwap = current.entryNotional / p.entryQty;
+      p.size = Math.max(p.size, Math.abs(current.net));
+      p.fees += fill.fee;
+      p.realizedPnl += fill.realizedPnl;
+      continue;
+    }
+
+    // Reduz (ou vira) a posição: só a parte que fecha fica nesta posição
+    const closingQty = Math.min(fill.qty, Math.abs(current.net));
+    const share = closingQty / fill.qty;
+    current.net += sign * closingQty;
+    current.exitNotional += closingQty * fill.price;
+    p.exitQty += closingQty;
+    p.exitVwap = current.exitNotional / p.exitQty;
+    p.fees += fill.fee * share;
+    p.realizedPnl += fill.realizedPnl;
+
+    if (Math.abs(current.net) <= p.size * FLAT_TOLERANCE) {
+      p.status = 'CLOSED';
+      p.closedAt = fill.executedAt;
+      p.holdingMs = fill.executedAt.getTime() - p.openedAt.getTime();
+      positions.push(p);
+      current = null;
+
+      // Virar a mão só existe em one-way mode; em hedge o excedente não abre o lado oposto
+      const remaining = fill.qty - closingQty;
+      if (fill.market === 'FUTURES' && !hedge && remaining > fill.qty * FLAT_TOLERANCE) {
+        current = openPosition(fill, remaining, fill.fee * (1 - share));
+      }
+    }
+  }
+
+  if (current) positions.push(current.position);
+  return positions;
+}
+
+function toNumber(value: unknown): number {
+  const n = Number(value ?? 0);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+// MAE/MFE pelas máximas e mínimas das velas guardadas (1h recente, 1d antigo)
+async function applyExcursions(position: RoundTripPosition): Promise<void> {
+  const end = position.closedAt ?? new Date();
+  const interval: CandleInterval = Date.now() - position.openedAt.getTime() <= HOURLY_HISTORY_MS ? '1h' : '1d';
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const agg = await prisma.priceCandle.aggregate({
+    where: {
+      symbol: position.symbol,
+      interval,
+      openTime: {
+        gte: new Date(Math.floor(position.openedAt.getTime() / intervalMs) * intervalMs),
+        lte: end,
+      },
+    },
+    _min: { low: true },
+    _max: { high: true },
+  });
+  if (agg._min.low === null || agg._max.high === null) return;
+
+  const low = Number(agg._min.low);
+  const high = Number(agg._max.high);
+  const entry = position.entryVwap;
+  if (position.side === 'LONG') {
+    position.mae = Math.min(0, (low - entry) / entry);
+    position.mfe = Math.max(0, (high - entry) / entry);
+  } else {
+    position.mae = Math.min(0, (entry - high) / entry);
+    position.mfe = Math.max(0, (entry - low) / entry);
+  }
+}
+
+/**
+ * Posições do usuário. Com período, retorna as fechadas dentro dele e as ainda abertas.
+ * O histórico anterior ao período é lido para saber o estado de cada posição.
+ */
+export async function getPositions(query: PositionsQuery): Promise<RoundTripPosition[]> {
+  const accounts = await prisma.binanceAccount.findMany({
+    where: {
+      userId: query.userId,
+      ...(query.accountIds && query.accountIds.length > 0 ? { id: { in: query.accountIds } } : {}),
+    },
+    select: { id: true },
+  });
+  const accountIds = accounts.map(a => a.id);
+  if (accountIds.length === 0) return [];
+
+  const trades = await prisma.trade.findMany({
+    where: {
+      accountId: { in: accountIds },
+      ...(query.market ? { market: query.market } : {}),
+      ...(query.symbol ? { symbol: query.symbol } : {}),
+      ...(query.fillsFrom || query.endDate
+        ? {
+            executedAt: {
+              ...(query.fillsFrom ? { gte: query.fillsFrom } : {}),
+              ...(query.endDate ? { lte: query.endDate } : {}),
+            },
+          }
+        : {}),
+    },
+    orderBy: [{ executedAt: 'asc' }, { id: 'asc' }],
+  });
+
+  // Execuções por conta + símbolo + lado (LONG/SHORT em hedge mode; BOTH em one-way e spot)
+  const groups = new Map<string, Fill[]>();
+  for (const t of trades) {
+    const key = `${t.accountId}_${t.market}_${t.symbol}_${t.positionSide || 'BOTH'}`;
+    const list = groups.get(key) ?? [];
+    list.push({
+      id: t.id,
+      accountId: t.accountId,
+      market: t.market,
+      symbol: t.symbol,
+      side: t.side,
+      positionSide: t.positionSide,
+      qty: toNumber(t.qty),
+      price: toNumber(t.price),
+      // Sem conversão, a taxa na cotação do par (feeValue pode estar em BNB ou no ativo base)
+      fee: toNumber(t.feeReporting ?? t.feeQuote),
+      realizedPnl: toNumber(t.realizedPnlReporting ?? t.realizedPnl),
+      executedAt: t.executedAt,
+    });
+    groups.set(key, list);
+  }
+
+  let positions = Array.from(groups.values()).flatMap(buildRoundTrips);
+  positions = positions.filter(p => {
+    if (query.status && p.status !== query.status) return false;
+    if (p.status === 'OPEN') return true;
+    if (query.startDate && p.closedAt! < query.startDate) return false;
+    if (query.endDate && p.closedAt! > query.endDate) return false;
+    return true;
+  });
+
+  // Funding pago/recebido enquanto a posição estava aberta
+  const futures = positions.filter(p => p.market === 'FUTURES');
+  if (futures.length > 0) {
+    const from = new Date(Math.min(...futures.map(p => p.openedAt.getTime())));
+    const funding = await prisma.futuresIncome.findMany({
+      where: {
+        accountId: { in: accountIds },
+        incomeType: 'FUNDING_FEE',
+        time: { gte: from },
+        symbol: { in: Array.from(new Set(futures.map(p => p.symbol))) },
+      },
+      select: { accountId: true, symbol: true, time: true, income: true, incomeReporting: true },
+    });
+    for (const row of funding) {
+      const open = futures.filter(f =>
+        f.accountId === row.accountId &&
+        f.symbol === row.symbol &&
+        row.time >= f.openedAt &&
+        (f.closedAt === null || row.time <= f.closedAt)
+      );
+      // O income não diz o lado: em hedge mode LONG e SHORT abertos dividem pelo tamanho
+      const totalSize = open.reduce((sum, f) => sum + f.size, 0);
+      for (const p of open) {
+        p.funding += toNumber(row.incomeReporting ?? row.income) * (totalSize > 0 ? p.size / totalSize : 1 / open.length);
+      }
+    }
+  }
+
+  for (const p of positions) {
+    // PnL do SPOT vem do custo com taxas (pnl/costBasis.ts); o de FUTURES, bruto da Binance
+    p.netPnl = p.market === 'FUTURES' ? p.realizedPnl - p.fees + p.funding : p.realizedPnl;
+    if (query.excursions !== false) {
+      await applyExcursions(p);
+    }
+  }
+
+  return positions.sort((a, b) => (b.closedAt ?? b.openedAt).getTime() - (a.closedAt ?? a.openedAt).getTime());
+}
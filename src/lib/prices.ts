@@ -0,0 +1,303 @@
+// Cotações da Binance: atuais (ticker/price) e históricas (klines em PriceCandle)
+
+import { prisma } from '@/lib/prisma';
+import { binanceGet } from '@/lib/binanceClient';
+import { findTradingPairs, isListedSymbol, SymbolAssets, USD_STABLECOINS } from '@/lib/symbolInfo';
+
+export async function fetchTickerPrice(symbol: string): Promise<number> {
+  const data = await binanceGet<{ price: string }>({
+    market: 'SPOT',
+    path: '/api/v3/ticker/price',
+    params: { symbol },
+    weight: 2,
+    proxy: { path: '/ticker/price', params: { symbol } },
+  });
+  return Number(data.price);
+}
+
+/**
+ * Cotação USDT/BRL atual. Sem acesso ao ticker, usa o último câmbio guardado
+ * em FxRate (em vez de um valor fixo).
+ */
+export async function getCurrentUsdtBrl(): Promise<number> {
+  try {
+    return await fetchTickerPrice('USDTBRL');
+  } catch (error) {
+    console.error('Error fetching USDT/BRL price:', error);
+  }
+  const latest = await prisma.fxRate.findFirst({
+    where: { pair: 'USDTBRL' },
+    orderBy: { date: 'desc' },
+    select: { rate: true, date: true },
+  });
+  if (!latest) {
+    throw new Error('Cotação USDT/BRL indisponível (ticker falhou e não há câmbio guardado)');
+  }
+  console.warn(`[PRICES] Usando USDT/BRL guardado de ${latest.date.toISOString().slice(0, 10)}`);
+  return Number(latest.rate);
+}
+
+// Cotações preferidas para precificar um ativo, em ordem
+const PRICE_QUOTES = ['USDT', 'FDUSD', 'USDC', 'BUSD', 'TUSD', 'BTC', 'ETH', 'BNB', 'BRL'];
+
+async function getQuotePriceInUSDT(quote: string): Promise<number> {
+  if (USD_STABLECOINS.includes(quote)) return 1;
+  if (quote === 'BRL') {
+    // Buscar cotação BRL/USDT
+    return getCurrentUsdtBrl()
+      .then(p => 1 / p)
+      .catch(() => 0);
+  }
+  return fetchTickerPrice(`${quote}USDT`).catch(() => 0);
+}
+
+export async function getPriceInUSDT(asset: string): Promise<number> {
+  // Stablecoins de dólar valem 1 USDT
+  if (USD_STABLECOINS.includes(asset)) return 1;
+
+  // Pares em negociação com o ativo como base, segundo o registro de símbolos
+  let quotes = PRICE_QUOTES;
+  try {
+    const pairs = await findTradingPairs(asset);
+    if (pairs.length > 0) {
+      const available = new Set(pairs.map(p => p.quoteAsset));
+      quotes = PRICE_QUOTES.filter(q => available.has(q));
+    }
+  } catch (error) {
+    console.error(`Error loading pairs for ${asset}:`, error);
+  }
+
+  for (const quote of quotes) {
+    if (asset === quote) continue;
+    try {
+      const price = await fetchTickerPrice(`${asset}${quote}`);
+      if (quote === 'USDT') return price;
+      return price * await getQuotePriceInUSDT(quote);
+    } catch (error) {
+      console.error(`Error fetching price for ${asset}${quote}:`, error);
+    }
+  }
+
+  return 0;
+}
+
+// ---------------------------------------------------------------------------
+// Histórico de preços (klines) para avaliar ativos em datas passadas
+// ---------------------------------------------------------------------------
+
+export type CandleInterval = '1m' | '1h' | '1d';
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const KLINES_LIMIT = 1000;
+// Candles de hora só para datas recentes; antes disso o fechamento diário basta
+export const HOURLY_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+
+// [openTime, open, high, low, close, volume, closeTime, ...]
+type KlineRow = [number, string, string, string, string, string, number, ...unknown[]];
+
+async function fetchKlines(symbol: string, interval: CandleInterval, startTime: number, endTime: number): Promise<KlineRow[]> {
+  return binanceGet<KlineRow[]>({
+    market: 'SPOT',
+    path: '/api/v3/klines',
+    params: { symbol, interval, startTime, endTime, limit: KLINES_LIMIT },
+    weight: 2,
+  });
+}
+
+/**
+ * Garante as candles de `symbol` entre `start` e `end` no banco.
+ * Páginas já completas no banco não são buscadas de novo; a candle ainda
+ * aberta (em formação) nunca é gravada. Retorna quantas candles foram inseridas.
+ */
+export async function syncPriceCandles(symbol: string, interval: CandleInterval, start: Date, end: Date): Promise<number> {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  // Só candles fechadas
+  const lastClosedOpen = Math.floor(Date.now() / intervalMs) * intervalMs - intervalMs;
+  const endTime = Math.min(end.getTime(), lastClosedOpen);
+  let cursor = Math.floor(start.getTime() / intervalMs) * intervalMs;
+  let inserted = 0;
+
+  while (cursor <= endTime) {
+    const pageEnd = Math.min(cursor + (KLINES_LIMIT - 1) * intervalMs, endTime);
+    const expected = Math.floor((pageEnd - cursor) / intervalMs) + 1;
+    const stored = await prisma.priceCandle.count({
+      where: { symbol, interval, openTime: { gte: new Date(cursor), lte: new Date(pageEnd) } },
+    });
+
+    if (stored < expected) {
+      const rows = await fetchKlines(symbol, interval, cursor, pageEnd);
+      if (rows.length > 0) {
+        const result = await prisma.priceCandle.createMany({
+          data: rows.map(k => ({
+            symbol,
+            interval,
+            openTime: new Date(k[0]),
+            open: k[1],
+            high: k[2],
+            low: k[3],
+            close: k[4],
+            volume: k[5],
+          })),
+          skipDuplicates: true,
+        });
+        inserted += result.count;
+      }
+    }
+
+    cursor = pageEnd + intervalMs;
+  }
+
+  if (inserted > 0) {
+    console.log(`[PRICES] ${symbol} ${interval}: ${inserted} candles gravadas`);
+  }
+  return inserted;
+}
+
+export interface MinuteCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Candles de 1 minuto de `symbol` que contêm cada instante de `times`, por openTime (ms).
+ * Minutos que não estão no banco são buscados na Binance em janelas de uma página
+ * ao redor do instante (fills próximos saem da mesma busca). Minutos sem candle
+ * (par sem negociação, candle ainda aberta) ficam fora do mapa.
+ */
+export async function getMinuteCandles(symbol: string, times: Date[]): Promise<Map<number, MinuteCandle>> {
+  const intervalMs = CANDLE_INTERVAL_MS['1m'];
+  const minutes = Array.from(new Set(times.map(t => Math.floor(t.getTime() / intervalMs) * intervalMs))).sort((a, b) => a - b);
+  const result = new Map<number, MinuteCandle>();
+  if (minutes.length === 0) return result;
+
+  const load = async (openTimes: number[]) => {
+    const rows = await prisma.priceCandle.findMany({
+      where: { symbol, interval: '1m', openTime: { in: openTimes.map(t => new Date(t)) } },
+      select: { openTime: true, open: true, high: true, low: true, close: true },
+    });
+    for (const r of rows) {
+      result.set(r.openTime.getTime(), { open: Number(r.open), high: Number(r.high), low: Number(r.low), close: Number(r.close) });
+    }
+  };
+
+  await load(minutes);
+  const missing = minutes.filter(m => !result.has(m));
+  if (missing.length === 0) return result;
+
+  const half = (KLINES_LIMIT / 2) * intervalMs;
+  let syncedUntil = -Infinity;
+  for (const minute of missing) {
+    if (minute <= syncedUntil) continue;
+    await syncPriceCandles(symbol, '1m', new Date(minute - half), new Date(minute + half));
+    syncedUntil = minute + half;
+  }
+  await load(missing);
+  return result;
+}
+
+/**
+ * Fechamento do par na candle que contém `at` (horária se recente, diária se antiga).
+ * Busca na Binance sob demanda quando a candle não está no banco.
+ * Para o período ainda em formação usa o ticker atual. Retorna null se o par não
+ * tinha negociação na data.
+ */
+export async function getSymbolCloseAt(symbol: string, at: Date): Promise<number | null> {
+  const interval: CandleInterval = Date.now() - at.getTime() < HOURLY_HISTORY_MS ? '1h' : '1d';
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const openTime = Math.floor(at.getTime() / intervalMs) * intervalMs;
+
+  if (openTime + intervalMs > Date.now()) {
+    return fetchTickerPrice(symbol).catch(() => null);
+  }
+
+  const find = () => prisma.priceCandle.findUnique({
+    where: { symbol_interval_openTime: { symbol, interval, openTime: new Date(openTime) } },
+    select: { close: true },
+  });
+
+  let candle = await find();
+  if (!candle) {
+    // Busca uma página inteira ao redor da data: consultas próximas saem do banco
+    const half = (KLINES_LIMIT / 2) * intervalMs;
+    await syncPriceCandles(symbol, interval, new Date(openTime - half), new Date(openTime + half));
+    candle = await find();
+  }
+  return candle ? Number(candle.close) : null;
+}
+
+/**
+ * Preço de `asset` em `quote` no instante `at`.
+ * Usa o par direto, o par invertido ou, se não houver, a ponte via USDT.
+ * Stablecoins de dólar são tratadas como USDT.
+ */
+export async function getPriceAt(asset: string, quote: string, at: Date): Promise<number | null> {
+  const base = USD_STABLECOINS.includes(asset) ? 'USDT' : asset;
+  const target = USD_STABLECOINS.includes(quote) ? 'USDT' : quote;
+  if (base === target) return 1;
+
+  if (await isListedSymbol(`${base}${target}`)) {
+    const price = await getSymbolCloseAt(`${base}${target}`, at);
+    if (price !== null) return price;
+  }
+  if (await isListedSymbol(`${target}${base}`)) {
+    const price = await getSymbolCloseAt(`${target}${base}`, at);
+    if (price !== null && price > 0) return 1 / price;
+  }
+
+  // Ponte via USDT (ex.: SOL -> BRL = SOLUSDT * USDTBRL)
+  if (base !== 'USDT' && target !== 'USDT') {
+    const baseUsdt = await getPriceAt(base, 'USDT', at);
+    const usdtTarget = baseUsdt !== null ? await getPriceAt('USDT', target, at) : null;
+    if (baseUsdt !== null && usdtTarget !== null) return baseUsdt * usdtTarget;
+  }
+
+  return null;
+}
+
+/**
+ * Taxa de um fill na moeda de cotação do par, no preço da execução.
+ * Taxa no ativo base usa o próprio preço do fill; em outro ativo (ex.: BNB),
+ * o preço desse ativo na cotação naquele instante. Null se não houver preço.
+ */
+export async function getFeeInQuote(
+  fee: number,
+  feeAsset: string,
+  assets: SymbolAssets,
+  price: number,
+  at: Date,
+  rateOf: (asset: string, quote: string, at: Date) => Promise<number | null> = getPriceAt
+): Promise<number | null> {
+  if (fee === 0) return 0;
+  if (feeAsset === assets.quoteAsset) return fee;
+  if (feeAsset === assets.baseAsset) return fee * price;
+  const rate = await rateOf(feeAsset, assets.quoteAsset, at);
+  return rate !== null ? fee * rate : null;
+}
+
+export type FeeConverter = (fee: number, feeAsset: string, assets: SymbolAssets, price: number, at: Date) => Promise<number | null>;
+
+/**
+ * getFeeInQuote com cache de preço por ativo, cotação e hora (como createConverter
+ * em fx.ts): um lote de fills pagos em BNB não busca o mesmo preço a cada fill.
+ */
+export function createFeeConverter(): FeeConverter {
+  const cache = new Map<string, Promise<number | null>>();
+  const rateOf = (asset: string, quote: string, at: Date) => {
+    const key = `${asset}_${quote}_${Math.floor(at.getTime() / (60 * 60 * 1000))}`;
+    if (!cache.has(key)) cache.set(key, getPriceAt(asset, quote, at));
+    return cache.get(key)!;
+  };
+  return (fee, feeAsset, assets, price, at) => getFeeInQuote(fee, feeAsset, assets, price, at, rateOf);
+}
+
+// Taxa em % do notional (qty * price) do fill
+export function getFeePct(feeQuote: number | null, qty: number, price: number): number {
+  return feeQuote !== null && qty > 0 && price > 0 ? (feeQuote / (qty * price)) * 100 : 0;
+}
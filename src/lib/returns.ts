@@ -0,0 +1,229 @@
+// Rentabilidade que desconta depósitos e saques
+// TWR (time-weighted): encadeia os sub-períodos entre os dias com Cashflow, então
+// o tamanho do capital não pesa — serve para comparar meses com bancas diferentes.
+// XIRR (money-weighted): taxa interna de retorno dos fluxos datados, pesa o capital.
+// Fluxos externos: depósitos/saques (Cashflow) e transferências para a carteira de
+// futuros (income TRANSFER), que entram no patrimônio das contas FUTURES.
+// Patrimônio vem dos snapshots diários (AccountSnapshot) e, sem snapshot no dia,
+// da reconstrução pelo histórico (getEquitySeries). Tudo na moeda de relatório.
+
+import { prisma } from '@/lib/prisma';
+import { createConverter, CurrencyConverter, getReportingCurrency } from '@/lib/fx';
+import { getEquitySeries } from '@/lib/monthlyBalance';
+import { INCOME_TYPES_NOT_PNL } from '@/lib/sync/income';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+
+// Aporte (+) ou retirada (-) externo, do ponto de vista da carteira
+export interface ExternalFlow {
+  at: Date;
+  amount: number;
+}
+
+export interface ReturnsResult {
+  twr: number | null; // retorno do período, fração (0.05 = 5%)
+  irr: number | null; // XIRR desanualizado para o período, fração
+  xirr: number | null; // XIRR anualizado, fração
+  startEquity: number | null;
+  endEquity: number | null;
+  netFlows: number;
+}
+
+/**
+ * TWR encadeado: `preFlowEquity[i]` é o patrimônio imediatamente antes de `flows[i]`
+ * e o último elemento é o patrimônio final. Sub-períodos sem capital são ignorados.
+ */
+export function computeTwr(startEquity: number, flows: ExternalFlow[], preFlowEquity: number[]): number | null {
+  if (preFlowEquity.length !== flows.length + 1) {
+    throw new Error('preFlowEquity deve ter um valor por fluxo mais o patrimônio final');
+  }
+  let base = startEquity;
+  let growth = 1;
+  let periods = 0;
+  for (let i = 0; i < preFlowEquity.length; i++) {
+    if (base > 0) {
+      growth *= preFlowEquity[i] / base;
+      periods++;
+    }
+    if (i < flows.length) {
+      base = preFlowEquity[i] + flows[i].amount;
+    }
+  }
+  return periods > 0 ? growth - 1 : null;
+}
+
+// Valor presente dos fluxos (do ponto de vista do investidor) à taxa anual `rate`
+function npv(rate: number, cashflows: ExternalFlow[], t0: number): number {
+  return cashflows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, (cf.at.getTime() - t0) / YEAR_MS), 0);
+}
+
+/**
+ * XIRR anualizado. `cashflows` do ponto de vista do investidor: aportes negativos,
+ * resgates e patrimônio final positivos. Newton-Raphson com fallback em bissecção.
+ * Retorna null se não houver fluxos dos dois sinais ou a raiz não convergir.
+ */
+export function computeXirr(cashflows: ExternalFlow[]): number | null {
+  const flows = cashflows.filter(cf => cf.amount !== 0);
+  if (!flows.some(cf => cf.amount > 0) || !flows.some(cf => cf.amount < 0)) return null;
+  const t0 = Math.min(...flows.map(cf => cf.at.getTime()));
+  if (Math.max(...flows.map(cf => cf.at.getTime())) === t0) return null;
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate, flows, t0);
+    const derivative = flows.reduce((sum, cf) => {
+      const years = (cf.at.getTime() - t0) / YEAR_MS;
+      return sum - years * cf.amount / Math.pow(1 + rate, years + 1);
+    }, 0);
+    if (Math.abs(value) < 1e-7) return rate;
+    if (derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bissecção entre -99,99% e +1.000.000% ao ano
+  let low = -0.9999;
+  let high = 10000;
+  let lowValue = npv(low, flows, t0);
+  if (lowValue * npv(high, flows, t0) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, flows, t0);
+    if (Math.abs(midValue) < 1e-7) return mid;
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+}
+
+function startOfUtcDay(time: number): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Patrimônio no fechamento do dia de cada data (em ordem crescente): soma dos snapshots
+ * nos dias em que todas as contas têm um; nos demais, reconstruído pelo histórico,
+ * lido uma vez só para todas as datas (getEquitySeries).
+ */
+export async function getEquitySeriesAt(
+  userId: string,
+  accountIds: string[],
+  dates: Date[],
+  convert: CurrencyConverter
+): Promise<(number | null)[]> {
+  const snapshots = await prisma.accountSnapshot.findMany({
+    where: { accountId: { in: accountIds }, date: { in: dates.map(at => startOfUtcDay(at.getTime())) } },
+    select: { date: true, totalUSDT: true },
+  });
+  const byDay = new Map<number, { count: number; totalUSDT: number }>();
+  for (const s of snapshots) {
+    const day = byDay.get(s.date.getTime()) ?? { count: 0, totalUSDT: 0 };
+    day.count++;
+    day.totalUSDT += Number(s.totalUSDT);
+    byDay.set(s.date.getTime(), day);
+  }
+
+  const equity: (number | null)[] = [];
+  const missing: number[] = [];
+  for (const at of dates) {
+    const day = byDay.get(startOfUtcDay(at.getTime()).getTime());
+    if (accountIds.length > 0 && day?.count === accountIds.length) {
+      equity.push(await convert(day.totalUSDT, 'USDT', at));
+    } else {
+      missing.push(equity.length);
+      equity.push(null);
+    }
+  }
+
+  if (missing.length > 0) {
+    const rebuilt = await getEquitySeries(userId, missing.map(i => dates[i]), accountIds);
+    missing.forEach((i, j) => { equity[i] = rebuilt[j]; });
+  }
+  return equity;
+}
+
+/**
+ * Depósitos (+) e saques (-) das contas entre `start` e `end`, mais as transferências
+ * de/para a carteira de futuros, na moeda de relatório, somados por dia (UTC) e
+ * datados no início do dia.
+ */
+export async function getExternalFlows(
+  accountIds: string[],
+  start: Date,
+  end: Date,
+  convert: CurrencyConverter
+): Promise<ExternalFlow[]> {
+  const rows = await prisma.cashflow.findMany({
+    where: {
+      accountId: { in: accountIds },
+      at: { gte: start, lte: end },
+      NOT: [{ note: { contains: 'Expired' } }],
+    },
+    orderBy: { at: 'asc' },
+    select: { asset: true, amount: true, at: true },
+  });
+  const transfers = await prisma.futuresIncome.findMany({
+    where: {
+      accountId: { in: accountIds },
+      incomeType: { in: INCOME_TYPES_NOT_PNL },
+      time: { gte: start, lte: end },
+    },
+    select: { asset: true, income: true, time: true },
+  });
+
+  const byDay = new Map<number, number>();
+  for (const row of [...rows, ...transfers.map(t => ({ asset: t.asset, amount: t.income, at: t.time }))]) {
+    const value = await convert(Number(row.amount), row.asset.toUpperCase(), row.at);
+    if (value === null) {
+      console.warn(`[RETURNS] Sem câmbio para ${row.asset} em ${row.at.toISOString()}, fluxo ignorado`);
+      continue;
+    }
+    const day = startOfUtcDay(row.at.getTime()).getTime();
+    byDay.set(day, (byDay.get(day) || 0) + value);
+  }
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([day, amount]) => ({ at: new Date(day), amount }));
+}
+
+/**
+ * TWR e XIRR do usuário entre `start` e `end`, considerando os fluxos externos do período.
+ * Os fluxos são agrupados por dia e tratados como ocorridos no início do dia.
+ */
+export async function getReturns(userId: string, start: Date, end: Date): Promise<ReturnsResult> {
+  const accounts = await prisma.binanceAccount.findMany({ where: { userId }, select: { id: true } });
+  const accountIds = accounts.map(a => a.id);
+  const convert = createConverter(await getReportingCurrency(userId));
+
+  const flows = await getExternalFlows(accountIds, start, end, convert);
+  const netFlows = flows.reduce((sum, f) => sum + f.amount, 0);
+
+  // Fechamento da véspera do início, da véspera de cada dia com fluxo e do fim
+  const endAt = new Date(Math.min(end.getTime(), Date.now()));
+  const startAt = new Date(start.getTime() - 1);
+  const preFlowAt = flows.map(f => (f.at.getTime() <= start.getTime() ? startAt : new Date(f.at.getTime() - 1)));
+  const equity = await getEquitySeriesAt(userId, accountIds, [startAt, ...preFlowAt, endAt], convert);
+  const startEquity = equity[0];
+  const endEquity = equity[equity.length - 1];
+
+  const empty: ReturnsResult = { twr: null, irr: null, xirr: null, startEquity, endEquity, netFlows };
+  if (startEquity === null || endEquity === null || equity.some(e => e === null)) return empty;
+  const preFlowEquity = equity.slice(1) as number[];
+
+  const twr = computeTwr(startEquity, flows, preFlowEquity);
+  const xirr = computeXirr([
+    { at: start, amount: -startEquity },
+    ...flows.map(f => ({ at: f.at, amount: -f.amount })),
+    { at: endAt, amount: endEquity },
+  ]);
+  const irr = xirr === null ? null : Math.pow(1 + xirr, (endAt.getTime() - start.getTime()) / YEAR_MS) - 1;
+
+  return { twr, irr, xirr, startEquity, endEquity, netFlows };
+}
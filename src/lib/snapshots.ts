@@ -0,0 +1,197 @@
+// Snapshots diários de patrimônio por conta (AccountSnapshot)
+// 'live': saldo atual lido da conta e precificado pelo ticker (cron diário às 23:55 UTC)
+// 'binance': histórico de /sapi/v1/accountSnapshot, precificado pelas klines do dia
+// Um snapshot por conta e dia (UTC); o backfill nunca sobrescreve um snapshot 'live'.
+
+import { prisma } from '@/lib/prisma';
+import { decrypt } from '@/lib/encryption';
+import { binanceGet, BinanceCredentials } from '@/lib/binanceClient';
+import { fetchBinanceAccountBalance } from '@/lib/sync/binance';
+import { getCurrentUsdtBrl, getPriceAt, getPriceInUSDT } from '@/lib/prices';
+import { getFxRate } from '@/lib/fx';
+import { USD_STABLECOINS } from '@/lib/symbolInfo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A Binance guarda no máximo 30 snapshots por requisição (e só do último mês)
+const BACKFILL_DAYS = 30;
+
+export type SnapshotSource = 'live' | 'binance';
+
+export interface SnapshotBalance {
+  asset: string;
+  qty: string;
+  valueUSDT: string;
+}
+
+export interface EquityPoint {
+  date: string; // YYYY-MM-DD
+  totalUSDT: number;
+  totalBRL: number;
+}
+
+interface SnapshotAccount {
+  id: string;
+  market: string;
+  apiKeyEnc: string;
+  apiSecretEnc: string;
+}
+
+interface SpotSnapshotData { balances?: { asset: string; free: string; locked: string }[] }
+interface FuturesSnapshotData { assets?: { asset: string; walletBalance: string; marginBalance: string }[] }
+interface AccountSnapshotResponse {
+  code: number;
+  msg: string;
+  snapshotVos?: { type: string; updateTime: number; data: SpotSnapshotData | FuturesSnapshotData }[];
+}
+
+function startOfUtcDay(time: number): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+async function getCredentials(account: SnapshotAccount): Promise<BinanceCredentials> {
+  return {
+    apiKey: await decrypt(account.apiKeyEnc),
+    apiSecret: await decrypt(account.apiSecretEnc),
+  };
+}
+
+// Soma os valores em USDT. Ativos sem preço (poeira, tokens delistados) ficam de fora e
+// são contados em `unpriced`, como em getEquityAtDate; null só se havia saldo e nenhum
+// ativo pôde ser avaliado
+async function valueBalances(
+  holdings: { asset: string; qty: number }[],
+  priceOf: (asset: string) => Promise<number | null>
+): Promise<{ balances: SnapshotBalance[]; totalUSDT: number; unpriced: number } | null> {
+  const balances: SnapshotBalance[] = [];
+  const unpriced: string[] = [];
+  let totalUSDT = 0;
+  for (const { asset, qty } of holdings) {
+    if (qty <= 0) continue;
+    const price = USD_STABLECOINS.includes(asset) ? 1 : await priceOf(asset);
+    if (price === null) {
+      unpriced.push(`${asset} (${qty})`);
+      continue;
+    }
+    const valueUSDT = qty * price;
+    totalUSDT += valueUSDT;
+    balances.push({ asset, qty: qty.toString(), valueUSDT: valueUSDT.toFixed(8) });
+  }
+  if (unpriced.length > 0) {
+    console.warn(`[SNAPSHOTS] Sem preço, fora do snapshot: ${unpriced.join(', ')}`);
+    if (balances.length === 0) return null;
+  }
+  return { balances, totalUSDT, unpriced: unpriced.length };
+}
+
+/**
+ * Grava o snapshot de hoje com o saldo atual da conta (sobrescreve o do dia, se houver).
+ * Em FUTURES usa o walletBalance de cada ativo de margem. Retorna false se nenhum ativo teve preço.
+ */
+export async function takeAccountSnapshot(account: SnapshotAccount, authHeader?: string): Promise<boolean> {
+  const credentials = await getCredentials(account);
+  const raw = await fetchBinanceAccountBalance(credentials, account.market, authHeader, account.id);
+  const holdings = raw.map(b => ({
+    asset: b.asset,
+    qty: account.market === 'FUTURES' ? Number(b.locked) : Number(b.free) + Number(b.locked),
+  }));
+
+  // Ticker atual; ativo sem par em USDT entra com valor 0, como em /api/balance
+  const valued = await valueBalances(holdings, asset => getPriceInUSDT(asset));
+  if (!valued) return false;
+  const usdtBrl = await getCurrentUsdtBrl();
+
+  const date = startOfUtcDay(Date.now());
+  const data = {
+    source: 'live',
+    balances: valued.balances as unknown as object[],
+    totalUSDT: valued.totalUSDT.toFixed(8),
+    totalBRL: (valued.totalUSDT * usdtBrl).toFixed(8),
+  };
+  await prisma.accountSnapshot.upsert({
+    where: { accountId_date: { accountId: account.id, date } },
+    update: data,
+    create: { accountId: account.id, date, ...data },
+  });
+  console.log(`[SNAPSHOTS] Conta ${account.id}: ${valued.totalUSDT.toFixed(2)} USDT em ${date.toISOString().slice(0, 10)}${valued.unpriced > 0 ? ` (${valued.unpriced} ativos sem preço)` : ''}`);
+  return true;
+}
+
+/**
+ * Preenche os últimos 30 dias a partir dos snapshots diários da Binance.
+ * Dias que já têm snapshot não são alterados. Retorna quantos dias foram gravados.
+ */
+export async function backfillAccountSnapshots(account: SnapshotAccount): Promise<number> {
+  const credentials = await getCredentials(account);
+  const endTime = Date.now();
+  const startTime = endTime - BACKFILL_DAYS * DAY_MS;
+  const data = await binanceGet<AccountSnapshotResponse>({
+    market: 'SPOT',
+    path: '/sapi/v1/accountSnapshot',
+    params: { type: account.market === 'FUTURES' ? 'FUTURES' : 'SPOT', startTime, endTime, limit: BACKFILL_DAYS },
+    credentials,
+    weight: 2400,
+  });
+  if (data.code !== 200) {
+    throw new Error(`Binance API error: ${data.msg || 'Unknown error'}`);
+  }
+
+  const existing = new Set((await prisma.accountSnapshot.findMany({
+    where: { accountId: account.id, date: { gte: startOfUtcDay(startTime) } },
+    select: { date: true },
+  })).map(s => s.date.getTime()));
+
+  let created = 0;
+  for (const vo of data.snapshotVos || []) {
+    const date = startOfUtcDay(vo.updateTime);
+    if (existing.has(date.getTime())) continue;
+
+    const holdings = account.market === 'FUTURES'
+      ? ((vo.data as FuturesSnapshotData).assets || []).map(a => ({ asset: a.asset, qty: Number(a.walletBalance) }))
+      : ((vo.data as SpotSnapshotData).balances || []).map(b => ({ asset: b.asset, qty: Number(b.free) + Number(b.locked) }));
+
+    const at = new Date(vo.updateTime);
+    const valued = await valueBalances(holdings, asset => getPriceAt(asset, 'USDT', at));
+    const usdtBrl = await getFxRate('USDTBRL', at);
+    if (!valued || usdtBrl === null) {
+      console.warn(`[SNAPSHOTS] Conta ${account.id}: snapshot de ${date.toISOString().slice(0, 10)} ignorado (sem preço)`);
+      continue;
+    }
+
+    await prisma.accountSnapshot.create({
+      data: {
+        accountId: account.id,
+        date,
+        source: 'binance',
+        balances: valued.balances as unknown as object[],
+        totalUSDT: valued.totalUSDT.toFixed(8),
+        totalBRL: (valued.totalUSDT * usdtBrl).toFixed(8),
+      },
+    });
+    existing.add(date.getTime());
+    created++;
+  }
+
+  console.log(`[SNAPSHOTS] Conta ${account.id}: ${created} snapshots importados da Binance`);
+  return created;
+}
+
+/**
+ * Curva de patrimônio do usuário: soma dos snapshots de todas as contas por dia.
+ */
+export async function getEquityCurve(userId: string, start: Date, end: Date): Promise<EquityPoint[]> {
+  const snapshots = await prisma.accountSnapshot.findMany({
+    where: { account: { userId }, date: { gte: start, lte: end } },
+    orderBy: { date: 'asc' },
+    select: { date: true, totalUSDT: true, totalBRL: true },
+  });
+
+  const byDate = new Map<string, EquityPoint>();
+  for (const s of snapshots) {
+    const date = s.date.toISOString().slice(0, 10);
+    const point = byDate.get(date) ?? { date, totalUSDT: 0, totalBRL: 0 };
+    point.totalUSDT += Number(s.totalUSDT);
+    point.totalBRL += Number(s.totalBRL);
+    byDate.set(date, point);
+  }
+  return Array.from(byDate.values());
+}
@@ -0,0 +1,176 @@
+// Registro de metadados dos pares (ativo base, cotação, status e precisão)
+// Atualizado a partir do exchangeInfo da Binance e guardado em SymbolInfo,
+// para não depender de cortar strings ("BTCFDUSD", "ETHBTC", "BRLUSDT"...).
+
+import { prisma } from '@/lib/prisma';
+import { binanceGet } from '@/lib/binanceClient';
+
+export interface SymbolAssets {
+  baseAsset: string;
+  quoteAsset: string;
+}
+
+interface ExchangeFilter {
+  filterType: string;
+  tickSize?: string;
+  stepSize?: string;
+}
+
+interface ExchangeSymbol {
+  symbol: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  baseAssetPrecision?: number; // SPOT
+  quoteAssetPrecision?: number; // SPOT
+  pricePrecision?: number; // FUTURES
+  quantityPrecision?: number; // FUTURES
+  filters?: ExchangeFilter[];
+}
+
+// Stablecoins pareadas ao dólar (valem ~1 USDT)
+export const USD_STABLECOINS = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'TUSD', 'USDP', 'DAI'];
+
+// Moedas de cotação conhecidas, usadas só quando o par não está no registro
+const FALLBACK_QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'BRL', 'EUR', 'TRY', 'BTC', 'ETH', 'BNB'];
+
+// Registro é recarregado da Binance depois desse tempo
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Cache em memória por mercado (symbol -> ativos), evita ir ao banco a cada trade
+const memoryCache = new Map<string, { loadedAt: number; assets: Map<string, SymbolAssets> }>();
+
+function normalizeMarket(market: string): 'SPOT' | 'FUTURES' {
+  return market === 'FUTURES' ? 'FUTURES' : 'SPOT';
+}
+
+export function guessSymbolAssets(symbol: string): SymbolAssets {
+  const quote = FALLBACK_QUOTE_ASSETS.find(q => symbol.endsWith(q) && symbol.length > q.length);
+  return quote
+    ? { baseAsset: symbol.slice(0, -quote.length), quoteAsset: quote }
+    : { baseAsset: symbol, quoteAsset: 'USDT' };
+}
+
+export async function fetchExchangeSymbols(market: string): Promise<ExchangeSymbol[]> {
+  const data = await binanceGet<{ symbols?: ExchangeSymbol[] }>({
+    market,
+    path: market === 'FUTURES' ? '/fapi/v1/exchangeInfo' : '/api/v3/exchangeInfo',
+    weight: market === 'FUTURES' ? 1 : 20,
+  });
+  return data.symbols || [];
+}
+
+/**
+ * Recarrega o registro de um mercado a partir do exchangeInfo.
+ * Substitui todas as linhas do mercado de uma vez (pares removidos somem do registro
+ * e passam a ser resolvidos pelo fallback).
+ */
+export async function refreshSymbolInfo(market: string): Promise<ExchangeSymbol[]> {
+  const normalized = normalizeMarket(market);
+  const symbols = await fetchExchangeSymbols(normalized);
+  if (symbols.length === 0) {
+    console.warn(`[SYMBOL INFO] exchangeInfo ${normalized} vazio, registro mantido`);
+    return symbols;
+  }
+
+  await prisma.$transaction([
+    prisma.symbolInfo.deleteMany({ where: { market: normalized } }),
+    prisma.symbolInfo.createMany({
+      data: symbols.map(s => {
+        const priceFilter = s.filters?.find(f => f.filterType === 'PRICE_FILTER');
+        const lotSize = s.filters?.find(f => f.filterType === 'LOT_SIZE');
+        return {
+          market: normalized,
+          symbol: s.symbol,
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          status: s.status,
+          pricePrecision: s.pricePrecision ?? s.quoteAssetPrecision ?? null,
+          qtyPrecision: s.quantityPrecision ?? s.baseAssetPrecision ?? null,
+          tickSize: priceFilter?.tickSize ?? null,
+          stepSize: lotSize?.stepSize ?? null,
+        };
+      }),
+    }),
+  ]);
+
+  memoryCache.delete(normalized);
+  console.log(`[SYMBOL INFO] ${symbols.length} pares ${normalized} atualizados`);
+  return symbols;
+}
+
+// Carrega o registro do mercado, atualizando da Binance se estiver vazio ou velho
+async function loadMarket(market: 'SPOT' | 'FUTURES'): Promise<Map<string, SymbolAssets>> {
+  const cached = memoryCache.get(market);
+  if (cached && Date.now() - cached.loadedAt < REFRESH_INTERVAL_MS) {
+    return cached.assets;
+  }
+
+  const newest = await prisma.symbolInfo.findFirst({
+    where: { market },
+    orderBy: { updatedAt: 'desc' },
+    select: { updatedAt: true },
+  });
+  if (!newest || Date.now() - newest.updatedAt.getTime() > REFRESH_INTERVAL_MS) {
+    try {
+      await refreshSymbolInfo(market);
+    } catch (error) {
+      // Sem acesso à Binance: segue com o que houver no banco (ou com o fallback)
+      console.error(`[SYMBOL INFO] Erro ao atualizar registro ${market}:`, error);
+    }
+  }
+
+  const rows = await prisma.symbolInfo.findMany({
+    where: { market },
+    select: { symbol: true, baseAsset: true, quoteAsset: true },
+  });
+  const assets = new Map(rows.map(r => [r.symbol, { baseAsset: r.baseAsset, quoteAsset: r.quoteAsset }]));
+  memoryCache.set(market, { loadedAt: Date.now(), assets });
+  return assets;
+}
+
+/**
+ * Resolve ativo base e cotação de vários símbolos de uma vez.
+ * Procura no mercado informado, depois no outro mercado, e só então
+ * cai no corte por sufixo de moedas de cotação conhecidas.
+ */
+export async function resolveAssets(symbols: string[], market: string = 'SPOT'): Promise<Map<string, SymbolAssets>> {
+  const primary = normalizeMarket(market);
+  const secondary = primary === 'SPOT' ? 'FUTURES' : 'SPOT';
+  const result = new Map<string, SymbolAssets>();
+  const unique = Array.from(new Set(symbols));
+  if (unique.length === 0) return result;
+
+  const primaryAssets = await loadMarket(primary);
+  const missing = unique.filter(s => !primaryAssets.has(s));
+  const secondaryAssets = missing.length > 0 ? await loadMarket(secondary) : new Map<string, SymbolAssets>();
+
+  for (const symbol of unique) {
+    const assets = primaryAssets.get(symbol) ?? secondaryAssets.get(symbol);
+    if (!assets) {
+      console.warn(`[SYMBOL INFO] ${symbol} não está no registro, separando pelo sufixo`);
+    }
+    result.set(symbol, assets ?? guessSymbolAssets(symbol));
+  }
+  return result;
+}
+
+export async function resolveSymbolAssets(symbol: string, market: string = 'SPOT'): Promise<SymbolAssets> {
+  const assets = await resolveAssets([symbol], market);
+  return assets.get(symbol)!;
+}
+
+// Pares SPOT em negociação que têm o ativo como base (para achar uma cotação)
+export async function findTradingPairs(baseAsset: string): Promise<{ symbol: string; quoteAsset: string }[]> {
+  await loadMarket('SPOT');
+  return prisma.symbolInfo.findMany({
+    where: { market: 'SPOT', baseAsset, status: 'TRADING' },
+    select: { symbol: true, quoteAsset: true },
+  });
+}
+
+// Par listado no registro (qualquer status), para escolher rota de conversão de preço
+export async function isListedSymbol(symbol: string, market: string = 'SPOT'): Promise<boolean> {
+  const assets = await loadMarket(normalizeMarket(market));
+  return assets.has(symbol);
+}
@@ -1,66 +1,59 @@
 import { prisma } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
-import { getProxyUrl, proxyGet } from '@/lib/binanceProxyClient';
+import { binanceGet, BinanceCredentials, isRateLimitError } from '@/lib/binanceClient';
 import { setProgress } from './progress';
-import crypto from 'crypto';
+import { recalculateAccountPnl } from '@/lib/pnl/costBasis';
+import { discoverAccountSymbols, getAccountSymbols } from './symbols';
+import { resolveAssets } from '@/lib/symbolInfo';
+import { createFeeConverter, getFeePct } from '@/lib/prices';
 
 export interface SyncResult {
   inserted: number;
   updated: number;
+  errors?: { symbol: string; message: string }[];
+  pagesBySymbol?: Record<string, number>;
 }
 
-async function createSignature(queryString: string, secret: string): Promise<string> {
-  return crypto.createHmac('sha256', secret).update(queryString).digest('hex');
-}
+interface SpotBalanceItem { asset: string; free: string; locked: string }
+interface FuturesAssetItem { asset: string; availableBalance: string; walletBalance: string }
+interface SpotAccountResponse { balances?: SpotBalanceItem[] }
+interface FuturesAccountResponse { assets?: FuturesAssetItem[] }
 
-async function fetchBinanceAccountBalance(
-  apiKey: string,
-  apiSecret: string,
-  market: string
+/**
+ * Saldos atuais da conta no formato { asset, free, locked }.
+ * Em SPOT retorna só ativos com saldo; em FUTURES, os ativos de margem.
+ */
+export async function fetchBinanceAccountBalance(
+  credentials: BinanceCredentials,
+  market: string,
+  authHeader?: string,
+  accountId?: string
 ): Promise<{ asset: string; free: string; locked: string }[]> {
-  const baseUrl = market === 'FUTURES' 
-    ? 'https://fapi.binance.com' 
-    : 'https://api.binance.com';
-  
-  const endpoint = market === 'FUTURES'
-    ? '/fapi/v2/account'
-    : '/api/v3/account';
-  
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const params: any = {};
-  params.recvWindow = 5000;
-  params.timestamp = Date.now();
-  
-  const queryString = new URLSearchParams(params).toString();
-  const signature = await createSignature(queryString, apiSecret);
-  const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-  
-  const response = await fetch(fullUrl, {
-    headers: {
-      'X-MBX-APIKEY': apiKey,
-    },
+  const data = await binanceGet<SpotAccountResponse | FuturesAccountResponse>({
+    market,
+    path: market === 'FUTURES' ? '/fapi/v2/account' : '/api/v3/account',
+    credentials,
+    weight: market === 'FUTURES' ? 5 : 20,
+    proxy: accountId ? {
+      path: '/account',
+      params: { market, accountId },
+      authHeader,
+      unwrap: true,
+    } : undefined,
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Binance API error:', response.status, errorText);
-    throw new Error(`Binance API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
   
   // Para SPOT, retorna balances array
   // Para FUTURES, retorna assets com totalWalletBalance
   if (market === 'FUTURES') {
-    return data.assets?.map((asset: { asset: string; availableBalance: string; walletBalance: string }) => ({
+    return (data as FuturesAccountResponse).assets?.map(asset => ({
       asset: asset.asset,
       free: asset.availableBalance,
       locked: asset.walletBalance,
     })) || [];
   } else {
-    return data.balances?.filter((b: { free: string; locked: string }) => 
+    return (data as SpotAccountResponse).balances?.filter(b => 
       Number(b.free) > 0 || Number(b.locked) > 0
-    ).map((b: { asset: string; free: string; locked: string }) => ({
+    ).map(b => ({
       asset: b.asset,
       free: b.free,
       locked: b.locked,
@@ -78,76 +71,69 @@ interface BinanceTrade {
   price: string;
   commission: string;
   commissionAsset: string;
-  realizedPnl?: string;
+  realizedPnl?: string; // FUTURES: PnL realizado calculado pela Binance
+  positionSide?: string; // FUTURES: BOTH, LONG ou SHORT
   time: number;
   isBuyer?: boolean; // Usado em SPOT para determinar se comprou ou vendeu
   isMaker?: boolean; // true = LIMIT (maker), false = MARKET (taker)
+  maker?: boolean; // FUTURES: mesmo significado de isMaker
 }
 
+// Limite máximo de trades por requisição nos endpoints myTrades/userTrades
+const TRADES_PAGE_LIMIT = 1000;
+
+// Ids por consulta ao pré-carregar trades e ordens do lote
+const PRELOAD_CHUNK_SIZE = 1000;
+
+// Janela máxima entre startTime e endTime aceita por myTrades (24h) e userTrades (7 dias)
+const TRADES_TIME_WINDOW_MS: Record<string, number> = {
+  SPOT: 24 * 60 * 60 * 1000,
+  FUTURES: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Posição da paginação: por id (padrão) ou por intervalo de tempo (quando o trade não traz id)
+type TradesPageQuery = { fromId: number } | { startTime: number; endTime: number };
+
+/**
+ * Busca uma página de trades a partir de um fromId (inclusive) ou dentro de um intervalo de tempo.
+ * fromId = 0 retorna os trades mais antigos da conta para o símbolo.
+ */
 async function fetchBinanceTrades(
-  apiKey: string,
-  apiSecret: string,
+  credentials: BinanceCredentials,
   market: string,
-  symbol?: string,
-  startTime?: number,
-  endTime?: number,
+  symbol: string,
+  query: TradesPageQuery,
   authHeader?: string
 ): Promise<BinanceTrade[]> {
-  // Usar proxy quando configurado e quando houver Authorization
-  const proxyBase = getProxyUrl();
-  if (proxyBase && authHeader) {
-    const params = new URLSearchParams();
-    params.set('market', market);
-    if (symbol) params.set('symbol', symbol);
-    if (startTime) params.set('startTime', String(startTime));
-    if (endTime) params.set('endTime', String(endTime));
-    params.set('limit', '1000');
-    const res = await proxyGet<{ ok: boolean; data: BinanceTrade[] }>(`/trades?${params.toString()}`, authHeader);
-    return res.data || [];
-  }
-  const baseUrl = market === 'FUTURES' 
-    ? 'https://fapi.binance.com' 
-    : 'https://api.binance.com';
-  
-  const endpoint = market === 'FUTURES'
-    ? '/fapi/v1/userTrades'
-    : '/api/v3/myTrades';
-
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const params: any = {};
-  if (symbol) params.symbol = symbol;
-  if (startTime) params.startTime = startTime;
-  if (endTime) params.endTime = endTime;
-  params.limit = 1000;
-  params.recvWindow = 5000;
-  params.timestamp = Date.now();
-
-  const queryString = new URLSearchParams(params).toString();
-  const signature = await createSignature(queryString, apiSecret);
-  const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-  
-  console.log('Binance request:', fullUrl.substring(0, 100) + '...');
-
-  const response = await fetch(fullUrl, {
-    headers: {
-      'X-MBX-APIKEY': apiKey,
+  console.log(`Binance request: ${market} ${symbol}`, query);
+  const trades = await binanceGet<BinanceTrade[]>({
+    market,
+    path: market === 'FUTURES' ? '/fapi/v1/userTrades' : '/api/v3/myTrades',
+    params: { symbol, ...query, limit: TRADES_PAGE_LIMIT },
+    credentials,
+    weight: market === 'FUTURES' ? 5 : 20,
+    // Usar proxy quando configurado e quando houver Authorization
+    proxy: {
+      path: '/trades',
+      params: { market, symbol, ...query, limit: TRADES_PAGE_LIMIT },
+      authHeader,
+      unwrap: true,
     },
   });
+  return trades || [];
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('Binance API error:', response.status, errorText);
-    throw new Error(`Binance API error: ${response.status} - ${errorText}`);
-  }
-
-  return response.json();
+function tradeKey(trade: BinanceTrade): string {
+  return trade.id !== undefined
+    ? String(trade.id)
+    : `${trade.orderId}_${trade.time}_${trade.qty ?? trade.quantity}_${trade.price}`;
 }
 
 export async function syncAccount(
   account: { id: string; market: string }, 
   startDate: string = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], 
   endDate: string = new Date().toISOString().split('T')[0], 
-  symbols: string[] = ['BTCBRL', 'ETHBRL', 'BNBBRL'],
+  requestedSymbols?: string[],
   authHeader?: string,
   jobId?: string,
   userId?: string
@@ -172,17 +158,26 @@ export async function syncAccount(
     console.log('Verificação:', verifyAccount ? 'EXISTE' : 'NÃO EXISTE');
 
     // Descriptografar credenciais
-    const apiKey = await decrypt(acc.apiKeyEnc);
-    const apiSecret = await decrypt(acc.apiSecretEnc);
+    const credentials: BinanceCredentials = {
+      apiKey: await decrypt(acc.apiKeyEnc),
+      apiSecret: await decrypt(acc.apiSecretEnc),
+    };
+
+    // Sem lista explícita: usar os símbolos descobertos para a conta (descobrir se ainda não houver)
+    let symbols = requestedSymbols && requestedSymbols.length > 0
+      ? requestedSymbols
+      : await getAccountSymbols(acc.id);
+    if (symbols.length === 0) {
+      symbols = await discoverAccountSymbols(acc.id, authHeader);
+    }
+    console.log(`Sincronizando ${symbols.length} símbolos:`, symbols.join(', '));
 
     // Converter datas para timestamps
     const startTimestamp = new Date(startDate).getTime();
     const endTimestamp = new Date(endDate + 'T23:59:59').getTime();
-    const oneDayMs = 24 * 60 * 60 * 1000;
 
-    // Calcular total de steps para progresso
-    const days = Math.ceil((endTimestamp - startTimestamp) / oneDayMs);
-    const totalSteps = days * symbols.length;
+    // Um step por símbolo: cada símbolo é paginado a partir do seu cursor
+    const totalSteps = symbols.length;
     let currentStep = 0;
 
     // Atualizar o job existente com o totalSteps correto (se já foi criado)
@@ -197,16 +192,33 @@ export async function syncAccount(
       });
     }
 
-    let allTrades: BinanceTrade[] = [];
+    const allTrades: BinanceTrade[] = [];
+    // Novas posições de cursor, gravadas apenas depois que os trades forem salvos
+    const cursorUpdates = new Map<string, { lastTrade: BinanceTrade | null; backfilledFrom: Date | null }>();
+    const symbolErrors: { symbol: string; message: string }[] = [];
+    // Páginas buscadas por símbolo, para conferir se dias com muitos fills vieram completos
+    const pagesBySymbol: Record<string, number> = {};
     
-    // Buscar dia por dia para respeitar limite de 24h da API
-    for (let currentStart = startTimestamp; currentStart < endTimestamp; currentStart += oneDayMs) {
-      const currentEnd = Math.min(currentStart + oneDayMs, endTimestamp);
-      const currentDateStr = new Date(currentStart).toISOString().split('T')[0];
-      
-      for (const symbol of symbols) {
-        try {
-          currentStep++;
+    for (const symbol of symbols) {
+      try {
+        currentStep++;
+        const cursor = await prisma.syncCursor.findUnique({
+          where: { accountId_symbol: { accountId: acc.id, symbol } }
+        });
+
+        // Sem cursor, ou pedido de período anterior ao já coberto: refazer backfill desde o primeiro trade
+        const needsBackfill = !cursor?.lastTradeId ||
+          (cursor.backfilledFrom !== null && startTimestamp < cursor.backfilledFrom.getTime());
+        let query: TradesPageQuery = { fromId: needsBackfill ? 0 : Number(cursor!.lastTradeId) + 1 };
+        let lastTrade: BinanceTrade | null = null;
+        let pages = 0;
+        let reachedEnd = false;
+        // Na paginação por tempo a próxima janela começa no último trade, então pode repetir fills
+        const seen = new Set<string>();
+        const timeWindow = TRADES_TIME_WINDOW_MS[account.market] ?? TRADES_TIME_WINDOW_MS.SPOT;
+
+        while (!reachedEnd) {
+          pages++;
           if (jobId && userId) {
             await setProgress(jobId, {
               jobId,
@@ -214,21 +226,74 @@ export async function syncAccount(
               totalSteps,
               currentStep,
               currentSymbol: symbol,
-              currentDate: currentDateStr,
+              currentDate: lastTrade ? new Date(lastTrade.time).toISOString().split('T')[0] : undefined,
               status: 'running',
-              message: `Buscando ${symbol} para ${currentDateStr}...`
+              message: `Buscando ${symbol} (página ${pages})...`
             });
           }
-          
-          console.log(`Buscando trades para ${symbol} de ${currentDateStr}...`);
-          const trades = await fetchBinanceTrades(apiKey, apiSecret, account.market, symbol, currentStart, currentEnd, authHeader);
-          console.log(`API retornou ${trades.length} trades para ${symbol}`);
-          if (trades.length > 0) {
-            console.log('Exemplo de trade completo:', trades[0]);
+
+          console.log(`Buscando trades para ${symbol} (página ${pages})...`);
+          const page = await fetchBinanceTrades(credentials, account.market, symbol, query, authHeader);
+          console.log(`API retornou ${page.length} trades para ${symbol}`);
+
+          for (const trade of page) {
+            if (trade.time > endTimestamp) {
+              reachedEnd = true;
+              break;
+            }
+            const key = tradeKey(trade);
+            if (seen.has(key)) continue;
+            seen.add(key);
+            lastTrade = trade;
+            // No backfill, ignorar trades anteriores ao início pedido
+            // No modo incremental tudo que vem depois do cursor é novo
+            if (!needsBackfill || trade.time >= startTimestamp) {
+              allTrades.push(trade);
+            }
+          }
+          if (reachedEnd) break;
+
+          const last = page[page.length - 1];
+          if (page.length < TRADES_PAGE_LIMIT) {
+            // Janela de tempo esgotada: seguir para a próxima até o fim do período
+            if ('endTime' in query && query.endTime < endTimestamp) {
+              const windowEnd: number = query.endTime;
+              query = { startTime: windowEnd + 1, endTime: Math.min(windowEnd + timeWindow, endTimestamp) };
+              continue;
+            }
+            break;
+          }
+
+          // Página cheia: ainda há trades na janela
+          if (last.id !== undefined) {
+            query = { fromId: last.id + 1 };
+          } else {
+            if ('startTime' in query && last.time === query.startTime) {
+              // Mais de uma página inteira no mesmo milissegundo: não há como avançar sem perder fills
+              throw new Error(`Mais de ${TRADES_PAGE_LIMIT} trades de ${symbol} em ${new Date(last.time).toISOString()}, paginação incompleta`);
+            }
+            query = { startTime: last.time, endTime: Math.min(last.time + timeWindow - 1, endTimestamp) };
           }
-          allTrades = allTrades.concat(trades);
-        } catch (error) {
-          console.error(`Erro ao buscar trades para ${symbol}:`, error);
+        }
+
+        pagesBySymbol[symbol] = pages;
+        if (jobId && userId) {
+          await setProgress(jobId, { jobId, userId, pagesBySymbol: { [symbol]: pages } });
+        }
+
+        const previousBackfill = cursor?.backfilledFrom ?? null;
+        cursorUpdates.set(symbol, {
+          lastTrade,
+          backfilledFrom: needsBackfill
+            ? new Date(Math.min(startTimestamp, previousBackfill?.getTime() ?? startTimestamp))
+            : previousBackfill,
+        });
+      } catch (error) {
+        console.error(`Erro ao buscar trades para ${symbol}:`, error);
+        symbolErrors.push({ symbol, message: error instanceof Error ? error.message : 'Unknown error' });
+        // Rate limit/ban: parar de consultar os demais símbolos, mas salvar o que já foi buscado
+        if (isRateLimitError(error)) {
+          break;
         }
       }
     }
@@ -247,36 +312,42 @@ export async function syncAccount(
       });
     }
 
-    // Buscar compras anteriores no banco para calcular PnL corretamente
-    // Buscar todas as compras (BUY) anteriores ao período sincronizado
-    const existingBuys = await prisma.trade.findMany({
-      where: {
-        accountId: acc.id,
-        side: 'BUY',
-        executedAt: { lt: new Date(startTimestamp) }
-      },
-      orderBy: { executedAt: 'asc' }
-    });
+    // Ordenar trades por data (mais antigo primeiro)
+    allTrades.sort((a, b) => a.time - b.time);
+    const firstNewTradeTime = allTrades.length > 0 ? allTrades[0].time : endTimestamp;
 
-    // Criar mapa de posições a partir das compras existentes no banco
-    const positions = new Map<string, Array<{ qty: number; price: number; isBuyer: boolean; time: number }>>();
-    
-    for (const buy of existingBuys) {
-      const symbol = buy.symbol;
-      if (!positions.has(symbol)) {
-        positions.set(symbol, []);
-      }
-      positions.get(symbol)!.push({
-        qty: Number(buy.qty),
-        price: Number(buy.price),
-        isBuyer: true,
-        time: buy.executedAt.getTime()
+    // FUTURES guarda o PnL realizado informado pela Binance (respeita shorts e hedge mode)
+    // SPOT é calculado depois de salvar, pelo método de custo do usuário (pnl/costBasis.ts)
+    const isFutures = account.market === 'FUTURES';
+
+    // Símbolos com falha ao salvar não avançam o cursor (serão buscados de novo)
+    const failedSymbols = new Set<string>();
+
+    // Base/cotação dos pares, para converter a taxa (BNB, base...) na cotação
+    const assetsBySymbol = await resolveAssets(allTrades.map(t => t.symbol), account.market);
+    const feeInQuote = createFeeConverter();
+
+    // Trades já salvos e ordens já sincronizadas do lote, carregados de uma vez
+    const existingTrades = new Map<string, { orderRefId: string | null; orderType: string | null }>();
+    const ordersByKey = new Map<string, { id: string; type: string }>();
+    for (let i = 0; i < allTrades.length; i += PRELOAD_CHUNK_SIZE) {
+      const chunk = allTrades.slice(i, i + PRELOAD_CHUNK_SIZE);
+      const tradeRows = await prisma.trade.findMany({
+        where: { id: { in: chunk.map(t => `${acc.id}_${t.id || `${t.orderId}_${t.symbol}`}`) } },
+        select: { id: true, orderRefId: true, orderType: true },
       });
+      for (const row of tradeRows) existingTrades.set(row.id, row);
+      const orderRows = await prisma.order.findMany({
+        where: {
+          accountId: acc.id,
+          market: account.market,
+          orderId: { in: Array.from(new Set(chunk.map(t => t.orderId.toString()))) },
+        },
+        select: { id: true, type: true, symbol: true, orderId: true },
+      });
+      for (const row of orderRows) ordersByKey.set(`${row.symbol}_${row.orderId}`, row);
     }
 
-    // Ordenar trades por data (mais antigo primeiro) para calcular PnL corretamente
-    allTrades.sort((a, b) => a.time - b.time);
-
     for (const trade of allTrades) {
       const tradeId = trade.id || `${trade.orderId}_${trade.symbol}`;
       // Se não vier side direto da API, tentar inferir de isBuyer
@@ -291,55 +362,27 @@ export async function syncAccount(
       
       // Inferir tipo de ordem baseado em isMaker
       // isMaker = true significa LIMIT (maker), false significa MARKET (taker)
-      // Nota: STOP_LOSS, TAKE_PROFIT, etc. precisariam ser buscados via orderId
-      const orderType = trade.isMaker === true ? 'LIMIT' : trade.isMaker === false ? 'MARKET' : null;
-      
-      // Calcular qty e price como números
-      const qty = Number(trade.qty || trade.quantity || '0');
-      const price = Number(trade.price);
-      
-      // Inicializar array de posições para o símbolo se não existir
-      if (!positions.has(trade.symbol)) {
-        positions.set(trade.symbol, []);
-      }
-      const symbolPositions = positions.get(trade.symbol)!;
-      
-      // Calcular PnL se for uma venda
-      let realizedPnl = trade.realizedPnl || '0';
+      // STOP_LOSS, TAKE_PROFIT, etc. vêm da ordem sincronizada (ver sync/orders.ts)
+      const isMaker = trade.isMaker ?? trade.maker ?? null;
+      const orderType = isMaker === true ? 'LIMIT' : isMaker === false ? 'MARKET' : null;
+
+      // Taxa na cotação do par no momento do fill, e em % do notional
+      const qty = trade.qty || trade.quantity || '0';
+      const feeQuote = await feeInQuote(
+        Number(trade.commission) || 0,
+        trade.commissionAsset,
+        assetsBySymbol.get(trade.symbol)!,
+        Number(trade.price),
+        new Date(trade.time)
+      ).catch(error => {
+        console.warn(`Taxa de ${trade.symbol} em ${trade.commissionAsset} sem conversão:`, error);
+        return null;
+      });
+      const feePct = getFeePct(feeQuote, Number(qty), Number(trade.price));
       
-      if (side === 'SELL' && qty > 0 && price > 0) {
-        // Buscar compras anteriores (FIFO - First In, First Out)
-        let remainingQty = qty;
-        let totalPnL = 0;
-        
-        // Processar do início ao fim (primeira compra primeiro)
-        for (let i = 0; i < symbolPositions.length && remainingQty > 0; i++) {
-          const pos = symbolPositions[i];
-          if (pos.isBuyer && pos.qty > 0) {
-            const qtyToUse = Math.min(pos.qty, remainingQty);
-            const pnl = (price - pos.price) * qtyToUse;
-            totalPnL += pnl;
-            
-            pos.qty -= qtyToUse;
-            remainingQty -= qtyToUse;
-            
-            if (pos.qty <= 0) {
-              symbolPositions.splice(i, 1);
-              i--; // Ajustar índice após remover elemento
-            }
-          }
-        }
-        
-        realizedPnl = totalPnL.toString();
-      } else if (side === 'BUY') {
-        // Adicionar compra às posições
-        symbolPositions.push({
-          qty,
-          price,
-          isBuyer: true,
-          time: trade.time
-        });
-      }
+      const realizedPnl = isFutures ? (trade.realizedPnl || '0') : '0';
+      const exchangeRealizedPnl = isFutures ? (trade.realizedPnl ?? null) : null;
+      const positionSide = isFutures ? (trade.positionSide || 'BOTH') : null;
       
       console.log('Trade:', { 
         symbol: trade.symbol, 
@@ -354,22 +397,28 @@ export async function syncAccount(
         console.log('Tentando salvar trade com accountId:', acc.id);
         
         // Verificar se o trade já existe
-        const existingTrade = await prisma.trade.findUnique({
-          where: { id: `${acc.id}_${tradeId}` }
-        });
+        const existingTrade = existingTrades.get(`${acc.id}_${tradeId}`);
+
+        // Ordem já sincronizada (allOrders): usar o tipo real em vez do inferido por isMaker
+        const order = ordersByKey.get(`${trade.symbol}_${trade.orderId}`);
         
         if (existingTrade) {
           await prisma.trade.update({
             where: { id: `${acc.id}_${tradeId}` },
             data: {
               side: side,
-              qty: trade.qty || trade.quantity || '0',
+              qty,
               price: trade.price,
               feeValue: trade.commission,
               feeAsset: trade.commissionAsset,
-              feePct: '0',
+              feePct: feePct.toString(),
+              feeQuote: feeQuote !== null ? feeQuote.toString() : null,
+              isMaker,
               realizedPnl: realizedPnl,
-              orderType: orderType,
+              exchangeRealizedPnl,
+              positionSide,
+              orderType: order?.type ?? (existingTrade.orderRefId ? existingTrade.orderType : orderType),
+              orderRefId: order?.id ?? existingTrade.orderRefId,
               executedAt: new Date(trade.time),
             }
           });
@@ -383,26 +432,64 @@ export async function syncAccount(
               market: account.market,
               symbol: trade.symbol,
               side: side,
-              qty: trade.qty || trade.quantity || '0',
+              qty,
               price: trade.price,
               feeValue: trade.commission,
               feeAsset: trade.commissionAsset,
-              feePct: '0', // TODO: Calcular percentual de fee
-              realizedPnl: realizedPnl, // Usar o PnL calculado, não o da API
+              feePct: feePct.toString(),
+              feeQuote: feeQuote !== null ? feeQuote.toString() : null,
+              isMaker,
+              realizedPnl: realizedPnl, // SPOT: recalculado abaixo; FUTURES: PnL da API
+              exchangeRealizedPnl,
+              positionSide,
               orderId: trade.orderId.toString(),
               tradeId: String(tradeId),
-              orderType: orderType,
+              orderType: order?.type ?? orderType,
+              orderRefId: order?.id ?? null,
               executedAt: new Date(trade.time),
             }
           });
+          // O mesmo id pode voltar no lote (ex.: janelas de tempo sobrepostas)
+          existingTrades.set(`${acc.id}_${tradeId}`, { orderRefId: order?.id ?? null, orderType: order?.type ?? orderType });
           inserted++;
         }
       } catch (error) {
         console.error('Error upserting trade:', error);
+        failedSymbols.add(trade.symbol);
       }
     }
 
-    const result = { inserted, updated };
+    // Recalcular PnL a partir do primeiro trade novo (mesmo cálculo do job de recálculo)
+    if (allTrades.length > 0) {
+      if (jobId && userId) {
+        await setProgress(jobId, {
+          jobId,
+          userId,
+          status: 'running',
+          message: 'Calculando PnL realizado...'
+        });
+      }
+      await recalculateAccountPnl(acc.id, { from: new Date(firstNewTradeTime) });
+    }
+
+    // Avançar cursores dos símbolos sincronizados
+    for (const [symbol, update] of cursorUpdates.entries()) {
+      if (failedSymbols.has(symbol)) continue;
+      const cursorData = {
+        ...(update.lastTrade && update.lastTrade.id !== undefined ? {
+          lastTradeId: String(update.lastTrade.id),
+          lastTradeTime: new Date(update.lastTrade.time),
+        } : {}),
+        backfilledFrom: update.backfilledFrom,
+      };
+      await prisma.syncCursor.upsert({
+        where: { accountId_symbol: { accountId: acc.id, symbol } },
+        update: cursorData,
+        create: { accountId: acc.id, symbol, ...cursorData },
+      });
+    }
+
+    const result: SyncResult = { inserted, updated, errors: symbolErrors, pagesBySymbol };
     
     if (jobId && userId) {
       await setProgress(jobId, {
@@ -411,7 +498,9 @@ export async function syncAccount(
         totalSteps,
         currentStep: totalSteps,
         status: 'completed',
-        message: `Sincronização concluída! ${inserted} inseridos, ${updated} atualizados`,
+        message: symbolErrors.length > 0
+          ? `Sincronização concluída com ${symbolErrors.length} erro(s) (${symbolErrors.map(e => e.symbol).join(', ')}): ${inserted} inseridos, ${updated} atualizados`
+          : `Sincronização concluída! ${inserted} inseridos, ${updated} atualizados`,
         result
       });
     }
@@ -0,0 +1,56 @@
+// Taxa na cotação do par (feeQuote) e em % do notional (feePct) dos trades que não a têm:
+// importados por CSV ou sincronizados antes desses campos existirem.
+// Roda no recálculo de PnL (pnl/costBasis.ts), antes da conversão para a moeda de relatório.
+
+import { prisma } from '@/lib/prisma';
+import { createFeeConverter, getFeePct } from '@/lib/prices';
+import { resolveAssets } from '@/lib/symbolInfo';
+
+// Updates por transação
+const WRITE_BATCH_SIZE = 500;
+
+/**
+ * Completa feeQuote/feePct dos trades da conta sem taxa na cotação (no intervalo, se informado).
+ * Taxas sem preço disponível ficam null e são tentadas de novo no próximo recálculo.
+ */
+export async function backfillTradeFees(
+  accountId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<{ updated: number; missing: number }> {
+  const range = options.from || options.to
+    ? { ...(options.from ? { gte: options.from } : {}), ...(options.to ? { lte: options.to } : {}) }
+    : undefined;
+
+  const trades = await prisma.trade.findMany({
+    where: { accountId, feeQuote: null, ...(range ? { executedAt: range } : {}) },
+    select: { id: true, market: true, symbol: true, qty: true, price: true, feeValue: true, feeAsset: true, executedAt: true },
+  });
+  if (trades.length === 0) return { updated: 0, missing: 0 };
+
+  const spotAssets = await resolveAssets(trades.filter(t => t.market !== 'FUTURES').map(t => t.symbol), 'SPOT');
+  const futuresAssets = await resolveAssets(trades.filter(t => t.market === 'FUTURES').map(t => t.symbol), 'FUTURES');
+  const feeInQuote = createFeeConverter();
+
+  const updates: { id: string; feeQuote: number; feePct: number }[] = [];
+  let missing = 0;
+  for (const t of trades) {
+    const assets = (t.market === 'FUTURES' ? futuresAssets : spotAssets).get(t.symbol)!;
+    const price = Number(t.price);
+    const feeQuote = await feeInQuote(Number(t.feeValue), t.feeAsset, assets, price, t.executedAt);
+    if (feeQuote === null) {
+      missing++;
+      continue;
+    }
+    updates.push({ id: t.id, feeQuote, feePct: getFeePct(feeQuote, Number(t.qty), price) });
+  }
+
+  for (let i = 0; i < updates.length; i += WRITE_BATCH_SIZE) {
+    await prisma.$transaction(updates.slice(i, i + WRITE_BATCH_SIZE).map(u => prisma.trade.update({
+      where: { id: u.id },
+      data: { feeQuote: u.feeQuote.toString(), feePct: u.feePct.toString() },
+    })));
+  }
+
+  console.log(`[FEES] Conta ${accountId}: ${updates.length} taxas completadas na cotação, ${missing} sem preço`);
+  return { updated: updates.length, missing };
+}
@@ -1,8 +1,8 @@
 import { prisma } from '@/lib/prisma';
 import { decrypt } from '@/lib/encryption';
-import { getProxyUrl, proxyGet } from '@/lib/binanceProxyClient';
+import { binanceGet, BinanceCredentials, isRateLimitError } from '@/lib/binanceClient';
 import { setProgress } from './progress';
-import crypto from 'crypto';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
 
 export interface FiatSyncResult {
   inserted: number;
@@ -50,357 +50,89 @@ interface BinanceCryptoWithdrawal {
   confirmNo: number;
 }
 
-async function createSignature(queryString: string, secret: string): Promise<string> {
-  return crypto.createHmac('sha256', secret).update(queryString).digest('hex');
-}
+// Binance limita crypto deposits/withdrawals a 90 dias por requisição
+const MAX_HISTORY_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
 
 async function fetchBinanceFiatOrders(
-  apiKey: string,
-  apiSecret: string,
+  credentials: BinanceCredentials,
   transactionType: '0' | '1', // 0 = deposit, 1 = withdrawal
   beginTime?: number,
   endTime?: number,
   authHeader?: string,
   accountId?: string
 ): Promise<BinanceFiatOrder[]> {
-  const proxyBase = getProxyUrl();
-  
-  if (proxyBase && authHeader && accountId) {
-    // Usar proxy
-    const params = new URLSearchParams();
-    params.set('transactionType', transactionType);
-    params.set('accountId', accountId);
-    if (beginTime) params.set('beginTime', beginTime.toString());
-    if (endTime) params.set('endTime', endTime.toString());
-    
-    try {
-      const data = await proxyGet<{ code: string; message: string; data: BinanceFiatOrder[] }>(
-        `/fiat/orders?${params.toString()}`,
-        authHeader
-      );
-      
-      if (data.code !== '000000') {
-        throw new Error(`Binance API error: ${data.message || 'Unknown error'}`);
-      }
-      
-      return data.data || [];
-    } catch (error) {
-      console.error('Proxy error fetching fiat orders:', error);
-      throw error;
-    }
-  } else {
-    // Chamada direta (desenvolvimento local)
-    const baseUrl = 'https://api.binance.com';
-    const endpoint = '/sapi/v1/fiat/orders';
-    
-    const params: Record<string, string> = {
-      transactionType,
-      recvWindow: '5000',
-      timestamp: Date.now().toString(),
-    };
-    
-    if (beginTime) params.beginTime = beginTime.toString();
-    if (endTime) params.endTime = endTime.toString();
-    
-    const queryString = new URLSearchParams(params).toString();
-    const signature = await createSignature(queryString, apiSecret);
-    const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-    
-    const response = await fetch(fullUrl, {
-      headers: {
-        'X-MBX-APIKEY': apiKey,
-      },
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Binance API error:', response.status, errorText);
-      throw new Error(`Binance API error: ${response.status} - ${errorText}`);
-    }
-    
-    const data = await response.json();
-    
-    if (data.code !== '000000') {
-      throw new Error(`Binance API error: ${data.message || 'Unknown error'}`);
-    }
-    
-    return data.data || [];
-  }
-}
+  const data = await binanceGet<{ code: string; message: string; data: BinanceFiatOrder[] }>({
+    market: 'SPOT',
+    path: '/sapi/v1/fiat/orders',
+    params: { transactionType, beginTime, endTime },
+    credentials,
+    weight: 1,
+    proxy: accountId ? {
+      path: '/fiat/orders',
+      params: { transactionType, accountId, beginTime, endTime },
+      authHeader,
+    } : undefined,
+  });
 
-async function fetchBinanceCryptoDeposits(
-  apiKey: string,
-  apiSecret: string,
-  startTime?: number,
-  endTime?: number,
-  authHeader?: string,
-  accountId?: string
-): Promise<BinanceCryptoDeposit[]> {
-  if (!startTime || !endTime) {
-    return [];
+  if (data.code !== '000000') {
+    throw new Error(`Binance API error: ${data.message || 'Unknown error'}`);
   }
 
-  // Binance limita crypto deposits/withdrawals a 90 dias por requisição
-  const MAX_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
-  const allResults: BinanceCryptoDeposit[] = [];
-  const totalDays = Math.ceil((endTime - startTime) / (24 * 60 * 60 * 1000));
-  
-  // Se o período for <= 90 dias, fazer uma única chamada
-  if (totalDays <= 90) {
-    const proxyBase = getProxyUrl();
-    
-    if (proxyBase && authHeader && accountId) {
-      const params = new URLSearchParams();
-      params.set('accountId', accountId);
-      params.set('status', '1');
-      params.set('startTime', startTime.toString());
-      params.set('endTime', endTime.toString());
-      
-      try {
-        const response = await proxyGet<{ ok: boolean; data: BinanceCryptoDeposit[] }>(
-          `/crypto/deposits?${params.toString()}`,
-          authHeader
-        );
-        return Array.isArray(response.data) ? response.data : [];
-      } catch (error) {
-        console.error('Proxy error fetching crypto deposits:', error);
-        throw error;
-      }
-    } else {
-      const baseUrl = 'https://api.binance.com';
-      const endpoint = '/sapi/v1/capital/deposit/hisrec';
-      
-      const params: Record<string, string> = {
-        status: '1',
-        recvWindow: '5000',
-        timestamp: Date.now().toString(),
-        startTime: startTime.toString(),
-        endTime: endTime.toString(),
-      };
-      
-      const queryString = new URLSearchParams(params).toString();
-      const signature = await createSignature(queryString, apiSecret);
-      const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-      
-      const response = await fetch(fullUrl, {
-        headers: {
-          'X-MBX-APIKEY': apiKey,
-        },
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Binance API error:', response.status, errorText);
-        throw new Error(`Binance API error: ${response.status} - ${errorText}`);
-      }
-      
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
-    }
-  }
-  
-  // Dividir em chunks de 90 dias
-  for (let currentStart = startTime; currentStart < endTime; currentStart += MAX_DAYS_MS) {
-    const currentEnd = Math.min(currentStart + MAX_DAYS_MS - 1, endTime);
-    
-    const proxyBase = getProxyUrl();
-    
-    if (proxyBase && authHeader && accountId) {
-      const params = new URLSearchParams();
-      params.set('accountId', accountId);
-      params.set('status', '1');
-      params.set('startTime', currentStart.toString());
-      params.set('endTime', currentEnd.toString());
-      
-      try {
-        const response = await proxyGet<{ ok: boolean; data: BinanceCryptoDeposit[] }>(
-          `/crypto/deposits?${params.toString()}`,
-          authHeader
-        );
-        if (Array.isArray(response.data)) {
-          allResults.push(...response.data);
-        }
-      } catch (error) {
-        console.error(`Proxy error fetching crypto deposits for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, error);
-        // Continuar com próximo chunk mesmo se houver erro
-      }
-    } else {
-      const baseUrl = 'https://api.binance.com';
-      const endpoint = '/sapi/v1/capital/deposit/hisrec';
-      
-      const params: Record<string, string> = {
-        status: '1',
-        recvWindow: '5000',
-        timestamp: Date.now().toString(),
-        startTime: currentStart.toString(),
-        endTime: currentEnd.toString(),
-      };
-      
-      const queryString = new URLSearchParams(params).toString();
-      const signature = await createSignature(queryString, apiSecret);
-      const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-      
-      try {
-        const response = await fetch(fullUrl, {
-          headers: {
-            'X-MBX-APIKEY': apiKey,
-          },
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Binance API error for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, response.status, errorText);
-          continue;
-        }
-        
-        const data = await response.json();
-        if (Array.isArray(data)) {
-          allResults.push(...data);
-        }
-      } catch (error) {
-        console.error(`Error fetching crypto deposits for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, error);
-      }
-    }
-  }
-  
-  return allResults;
+  return data.data || [];
 }
 
-async function fetchBinanceCryptoWithdrawals(
-  apiKey: string,
-  apiSecret: string,
+/**
+ * Busca o histórico de depósitos/saques crypto em janelas de até 90 dias.
+ * Com uma única janela, erros são propagados; com várias, uma janela com erro
+ * é registrada e as demais continuam (exceto rate limit/ban, que interrompe).
+ */
+async function fetchCryptoHistory<T>(
+  credentials: BinanceCredentials,
+  kind: 'deposits' | 'withdrawals',
   startTime?: number,
   endTime?: number,
   authHeader?: string,
   accountId?: string
-): Promise<BinanceCryptoWithdrawal[]> {
+): Promise<T[]> {
   if (!startTime || !endTime) {
     return [];
   }
 
-  // Binance limita crypto deposits/withdrawals a 90 dias por requisição
-  const MAX_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
-  const allResults: BinanceCryptoWithdrawal[] = [];
-  const totalDays = Math.ceil((endTime - startTime) / (24 * 60 * 60 * 1000));
-  
-  // Se o período for <= 90 dias, fazer uma única chamada
-  if (totalDays <= 90) {
-    const proxyBase = getProxyUrl();
-    
-    if (proxyBase && authHeader && accountId) {
-      const params = new URLSearchParams();
-      params.set('accountId', accountId);
-      params.set('status', '6');
-      params.set('startTime', startTime.toString());
-      params.set('endTime', endTime.toString());
-      
-      try {
-        const response = await proxyGet<{ ok: boolean; data: BinanceCryptoWithdrawal[] }>(
-          `/crypto/withdrawals?${params.toString()}`,
-          authHeader
-        );
-        return Array.isArray(response.data) ? response.data : [];
-      } catch (error) {
-        console.error('Proxy error fetching crypto withdrawals:', error);
-        throw error;
-      }
-    } else {
-      const baseUrl = 'https://api.binance.com';
-      const endpoint = '/sapi/v1/capital/withdraw/history';
-      
-      const params: Record<string, string> = {
-        status: '6',
-        recvWindow: '5000',
-        timestamp: Date.now().toString(),
-        startTime: startTime.toString(),
-        endTime: endTime.toString(),
-      };
-      
-      const queryString = new URLSearchParams(params).toString();
-      const signature = await createSignature(queryString, apiSecret);
-      const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-      
-      const response = await fetch(fullUrl, {
-        headers: {
-          'X-MBX-APIKEY': apiKey,
-        },
+  const path = kind === 'deposits' ? '/sapi/v1/capital/deposit/hisrec' : '/sapi/v1/capital/withdraw/history';
+  // 1 = success (depósitos), 6 = completed (saques)
+  const status = kind === 'deposits' ? '1' : '6';
+  const singleWindow = endTime - startTime <= MAX_HISTORY_WINDOW_MS;
+  const allResults: T[] = [];
+
+  for (let currentStart = startTime; currentStart < endTime; currentStart += MAX_HISTORY_WINDOW_MS) {
+    const currentEnd = Math.min(currentStart + MAX_HISTORY_WINDOW_MS - 1, endTime);
+
+    try {
+      const data = await binanceGet<T[]>({
+        market: 'SPOT',
+        path,
+        params: { status, startTime: currentStart, endTime: currentEnd },
+        credentials,
+        weight: 1,
+        proxy: accountId ? {
+          path: `/crypto/${kind}`,
+          params: { accountId, status, startTime: currentStart, endTime: currentEnd },
+          authHeader,
+          unwrap: true,
+        } : undefined,
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Binance API error:', response.status, errorText);
-        throw new Error(`Binance API error: ${response.status} - ${errorText}`);
+      if (Array.isArray(data)) {
+        allResults.push(...data);
       }
-      
-      const data = await response.json();
-      return Array.isArray(data) ? data : [];
-    }
-  }
-  
-  // Dividir em chunks de 90 dias
-  for (let currentStart = startTime; currentStart < endTime; currentStart += MAX_DAYS_MS) {
-    const currentEnd = Math.min(currentStart + MAX_DAYS_MS - 1, endTime);
-    
-    const proxyBase = getProxyUrl();
-    
-    if (proxyBase && authHeader && accountId) {
-      const params = new URLSearchParams();
-      params.set('accountId', accountId);
-      params.set('status', '6');
-      params.set('startTime', currentStart.toString());
-      params.set('endTime', currentEnd.toString());
-      
-      try {
-        const response = await proxyGet<{ ok: boolean; data: BinanceCryptoWithdrawal[] }>(
-          `/crypto/withdrawals?${params.toString()}`,
-          authHeader
-        );
-        if (Array.isArray(response.data)) {
-          allResults.push(...response.data);
-        }
-      } catch (error) {
-        console.error(`Proxy error fetching crypto withdrawals for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, error);
-        // Continuar com próximo chunk mesmo se houver erro
-      }
-    } else {
-      const baseUrl = 'https://api.binance.com';
-      const endpoint = '/sapi/v1/capital/withdraw/history';
-      
-      const params: Record<string, string> = {
-        status: '6',
-        recvWindow: '5000',
-        timestamp: Date.now().toString(),
-        startTime: currentStart.toString(),
-        endTime: currentEnd.toString(),
-      };
-      
-      const queryString = new URLSearchParams(params).toString();
-      const signature = await createSignature(queryString, apiSecret);
-      const fullUrl = `${baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-      
-      try {
-        const response = await fetch(fullUrl, {
-          headers: {
-            'X-MBX-APIKEY': apiKey,
-          },
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`Binance API error for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, response.status, errorText);
-          continue;
-        }
-        
-        const data = await response.json();
-        if (Array.isArray(data)) {
-          allResults.push(...data);
-        }
-      } catch (error) {
-        console.error(`Error fetching crypto withdrawals for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, error);
+    } catch (error) {
+      if (singleWindow || isRateLimitError(error)) {
+        throw error;
       }
+      // Continuar com próximo chunk mesmo se houver erro
+      console.error(`Error fetching crypto ${kind} for period ${new Date(currentStart).toISOString()} to ${new Date(currentEnd).toISOString()}:`, error);
     }
   }
-  
+
   return allResults;
 }
 
@@ -424,8 +156,10 @@ export async function syncFiatCashflow(
 
     console.log(`[FIAT SYNC] Found account: ${acc.id} for sync`);
 
-    const apiKey = await decrypt(acc.apiKeyEnc);
-    const apiSecret = await decrypt(acc.apiSecretEnc);
+    const credentials: BinanceCredentials = {
+      apiKey: await decrypt(acc.apiKeyEnc),
+      apiSecret: await decrypt(acc.apiSecretEnc),
+    };
 
     const startTimestamp = new Date(startDate + 'T00:00:00.000Z').getTime();
     const endTimestamp = new Date(endDate + 'T23:59:59.999Z').getTime();
@@ -446,8 +180,7 @@ export async function syncFiatCashflow(
     }
 
     const fiatDeposits = await fetchBinanceFiatOrders(
-      apiKey,
-      apiSecret,
+      credentials,
       '0',
       startTimestamp,
       endTimestamp,
@@ -468,8 +201,7 @@ export async function syncFiatCashflow(
     }
 
     const fiatWithdrawals = await fetchBinanceFiatOrders(
-      apiKey,
-      apiSecret,
+      credentials,
       '1',
       startTimestamp,
       endTimestamp,
@@ -489,9 +221,9 @@ export async function syncFiatCashflow(
       });
     }
 
-    const cryptoDeposits = await fetchBinanceCryptoDeposits(
-      apiKey,
-      apiSecret,
+    const cryptoDeposits = await fetchCryptoHistory<BinanceCryptoDeposit>(
+      credentials,
+      'deposits',
       startTimestamp,
       endTimestamp,
       authHeader,
@@ -510,9 +242,9 @@ export async function syncFiatCashflow(
       });
     }
 
-    const cryptoWithdrawals = await fetchBinanceCryptoWithdrawals(
-      apiKey,
-      apiSecret,
+    const cryptoWithdrawals = await fetchCryptoHistory<BinanceCryptoWithdrawal>(
+      credentials,
+      'withdrawals',
       startTimestamp,
       endTimestamp,
       authHeader,
@@ -547,6 +279,7 @@ export async function syncFiatCashflow(
       createTime: dep.insertTime,
       updateTime: dep.insertTime,
       _isDeposit: true, // Marcação para identificar tipo
+      _network: dep.network,
     }));
     
     const allCryptoWithdrawals = successfulCryptoWithdrawals.map(wd => ({
@@ -559,6 +292,7 @@ export async function syncFiatCashflow(
       createTime: wd.applyTime,
       updateTime: wd.applyTime,
       _isDeposit: false, // Marcação para identificar tipo
+      _network: wd.network,
     }));
     
     // Marcar FIAT também
@@ -585,7 +319,7 @@ export async function syncFiatCashflow(
 
     // Processar cada transação
     for (let i = 0; i < allOrders.length; i++) {
-      const order = allOrders[i] as BinanceFiatOrder & { _isDeposit?: boolean };
+      const order = allOrders[i] as BinanceFiatOrder & { _isDeposit?: boolean; _network?: string };
       // Determinar se é depósito ou saque usando a marcação
       const transactionType = order._isDeposit ? 'DEPOSIT' : 'WITHDRAWAL';
       
@@ -617,6 +351,8 @@ export async function syncFiatCashflow(
         type: transactionType,
         asset: order.fiatCurrency,
         amount: netAmount.toString(),
+        fee: fee.toString(),
+        network: order._network ?? null,
         at: new Date(order.createTime),
         note: `OrderNo: ${order.orderNo} | ${order.method} - ${order.status}`,
       };
@@ -649,6 +385,11 @@ export async function syncFiatCashflow(
       }
     }
 
+    // Depósitos/saques mudam o saldo inicial dos meses seguintes
+    if (inserted > 0 || updated > 0) {
+      await invalidateMonthlyBalances(acc.id, new Date(startTimestamp));
+    }
+
     const result = { inserted, updated };
 
     if (jobId && userId) {
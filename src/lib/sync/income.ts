@@ -0,0 +1,168 @@
+// Sincronização do histórico de income de futuros USDⓈ-M (/fapi/v1/income)
+// Funding fees, comissões, PnL realizado, insurance clear e rebates não aparecem em userTrades
+
+import { prisma } from '@/lib/prisma';
+import { decrypt } from '@/lib/encryption';
+import { binanceGet, BinanceCredentials } from '@/lib/binanceClient';
+import { setProgress } from './progress';
+import { invalidateMonthlyBalances } from '@/lib/monthlyBalance';
+
+export interface IncomeSyncResult {
+  inserted: number;
+  updated: number;
+}
+
+interface BinanceIncome {
+  symbol: string;
+  incomeType: string;
+  income: string;
+  asset: string;
+  info: string;
+  time: number;
+  tranId: number | string;
+  tradeId: string;
+}
+
+// Tipos que já estão nos trades (realizedPnl e comissão dos fills)
+// Os demais (funding, insurance clear, rebates...) só existem no income
+export const INCOME_TYPES_IN_TRADES = ['REALIZED_PNL', 'COMMISSION'];
+// Transferências entre carteiras são movimentação de dinheiro, não resultado
+export const INCOME_TYPES_NOT_PNL = ['TRANSFER', 'INTERNAL_TRANSFER', 'CROSS_COLLATERAL_TRANSFER'];
+
+const INCOME_PAGE_LIMIT = 1000;
+// A Binance aceita no máximo 200 dias entre startTime e endTime; usar janelas menores
+const INCOME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+async function fetchBinanceIncome(
+  credentials: BinanceCredentials,
+  startTime: number,
+  endTime: number
+): Promise<BinanceIncome[]> {
+  const income = await binanceGet<BinanceIncome[]>({
+    market: 'FUTURES',
+    path: '/fapi/v1/income',
+    params: { startTime, endTime, limit: INCOME_PAGE_LIMIT },
+    credentials,
+    weight: 30,
+  });
+  return income || [];
+}
+
+/**
+ * Busca todo o income do período, em janelas de 30 dias e paginando por tempo
+ * quando uma página vem cheia.
+ */
+async function fetchIncomeHistory(
+  credentials: BinanceCredentials,
+  startTime: number,
+  endTime: number
+): Promise<BinanceIncome[]> {
+  const all: BinanceIncome[] = [];
+
+  for (let windowStart = startTime; windowStart <= endTime; windowStart += INCOME_WINDOW_MS) {
+    const windowEnd = Math.min(windowStart + INCOME_WINDOW_MS - 1, endTime);
+    let pageStart = windowStart;
+
+    while (true) {
+      const page = await fetchBinanceIncome(credentials, pageStart, windowEnd);
+      all.push(...page);
+      if (page.length < INCOME_PAGE_LIMIT) break;
+
+      // Página cheia: continuar do último registro (duplicados são resolvidos no upsert)
+      const lastTime = page[page.length - 1].time;
+      if (lastTime === pageStart) {
+        throw new Error(`Mais de ${INCOME_PAGE_LIMIT} registros de income em ${new Date(lastTime).toISOString()}, paginação incompleta`);
+      }
+      pageStart = lastTime;
+    }
+  }
+
+  return all;
+}
+
+export async function syncFuturesIncome(
+  account: { id: string },
+  startDate: string = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  endDate: string = new Date().toISOString().split('T')[0],
+  jobId?: string,
+  userId?: string
+): Promise<IncomeSyncResult> {
+  const acc = await prisma.binanceAccount.findUnique({
+    where: { id: account.id },
+    select: { id: true, market: true, apiKeyEnc: true, apiSecretEnc: true },
+  });
+
+  if (!acc) {
+    throw new Error(`Account ${account.id} not found in database`);
+  }
+
+  if (acc.market !== 'FUTURES') {
+    return { inserted: 0, updated: 0 };
+  }
+
+  const credentials: BinanceCredentials = {
+    apiKey: await decrypt(acc.apiKeyEnc),
+    apiSecret: await decrypt(acc.apiSecretEnc),
+  };
+
+  const startTimestamp = new Date(startDate + 'T00:00:00.000Z').getTime();
+  const endTimestamp = Math.min(new Date(endDate + 'T23:59:59.999Z').getTime(), Date.now());
+
+  if (jobId && userId) {
+    await setProgress(jobId, {
+      jobId,
+      userId,
+      status: 'running',
+      message: 'Buscando funding e income de futuros...',
+    });
+  }
+
+  const incomes = await fetchIncomeHistory(credentials, startTimestamp, endTimestamp);
+  console.log(`[INCOME SYNC] Conta ${acc.id}: ${incomes.length} registros de income`);
+
+  let inserted = 0;
+  let updated = 0;
+
+  for (const item of incomes) {
+    const tranId = String(item.tranId);
+    const where = {
+      accountId_tranId_incomeType_asset: {
+        accountId: acc.id,
+        tranId,
+        incomeType: item.incomeType,
+        asset: item.asset,
+      },
+    };
+    const data = {
+      symbol: item.symbol || null,
+      income: item.income,
+      info: item.info || null,
+      tradeId: item.tradeId || null,
+      time: new Date(item.time),
+    };
+
+    const existing = await prisma.futuresIncome.findUnique({ where, select: { id: true } });
+    if (existing) {
+      await prisma.futuresIncome.update({ where: { id: existing.id }, data });
+      updated++;
+    } else {
+      await prisma.futuresIncome.create({
+        data: {
+          accountId: acc.id,
+          tranId,
+          incomeType: item.incomeType,
+          asset: item.asset,
+          ...data,
+        },
+      });
+      inserted++;
+    }
+  }
+
+  // Income compõe a carteira de futuros: saldo inicial dos meses seguintes muda
+  if (inserted > 0 || updated > 0) {
+    await invalidateMonthlyBalances(acc.id, new Date(startTimestamp));
+  }
+
+  return { inserted, updated };
+}
@@ -0,0 +1,275 @@
+// Sincronização de ordens (allOrders) de spot e futuros
+// Traz o tipo real da ordem (STOP_LOSS, TAKE_PROFIT...), stop price, time-in-force,
+// reduce-only e ordens canceladas/não executadas, e vincula os trades às suas ordens
+
+import { prisma } from '@/lib/prisma';
+import { decrypt } from '@/lib/encryption';
+import { binanceGet, BinanceCredentials, isRateLimitError } from '@/lib/binanceClient';
+import { setProgress } from './progress';
+
+export interface OrderSyncResult {
+  inserted: number;
+  updated: number;
+  linkedTrades: number;
+  errors?: { symbol: string; message: string }[];
+}
+
+interface BinanceOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId?: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  status: string;
+  timeInForce?: string;
+  type: string;
+  origType?: string; // FUTURES: tipo original (ex.: STOP_MARKET que virou MARKET ao disparar)
+  side: string;
+  positionSide?: string;
+  stopPrice?: string;
+  reduceOnly?: boolean;
+  time: number;
+  updateTime?: number;
+}
+
+const ORDERS_PAGE_LIMIT = 1000;
+// Futuros não paginam por orderId: janelas de no máximo 7 dias entre startTime e endTime
+const FUTURES_ORDERS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+// Futuros só retornam ordens dos últimos 90 dias
+const FUTURES_ORDERS_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+// Ordens que ainda podem mudar de status: o cursor do spot não passa delas
+const OPEN_ORDER_STATUSES = ['NEW', 'PARTIALLY_FILLED', 'PENDING_NEW'];
+
+// Posição da paginação: por orderId (spot) ou por intervalo de tempo (futuros)
+type OrdersPageQuery = { orderId: number } | { startTime: number; endTime: number };
+
+async function fetchBinanceOrders(
+  credentials: BinanceCredentials,
+  market: string,
+  symbol: string,
+  query: OrdersPageQuery
+): Promise<BinanceOrder[]> {
+  const orders = await binanceGet<BinanceOrder[]>({
+    market,
+    path: market === 'FUTURES' ? '/fapi/v1/allOrders' : '/api/v3/allOrders',
+    params: { symbol, ...query, limit: ORDERS_PAGE_LIMIT },
+    credentials,
+    weight: market === 'FUTURES' ? 5 : 20,
+  });
+  return orders || [];
+}
+
+/**
+ * Spot: ordens do símbolo com orderId >= `fromOrderId` (0 = desde a primeira), página a
+ * página até passar de `endTime`. Sem janelas de tempo, um símbolo sem ordens novas
+ * custa uma única requisição. Retorna também o próximo orderId a buscar: a menor ordem
+ * ainda aberta (para atualizar seu status depois) ou a seguinte à última vista.
+ */
+async function fetchSpotOrders(
+  credentials: BinanceCredentials,
+  symbol: string,
+  fromOrderId: number,
+  endTime: number
+): Promise<{ orders: BinanceOrder[]; nextOrderId: number }> {
+  const orders: BinanceOrder[] = [];
+  let orderId = fromOrderId;
+  let nextOrderId = fromOrderId;
+  let firstOpen: number | null = null;
+
+  while (true) {
+    const page = await fetchBinanceOrders(credentials, 'SPOT', symbol, { orderId });
+    let reachedEnd = false;
+    for (const order of page) {
+      if (order.time > endTime) {
+        reachedEnd = true;
+        break;
+      }
+      orders.push(order);
+      nextOrderId = order.orderId + 1;
+      if (firstOpen === null && OPEN_ORDER_STATUSES.includes(order.status)) firstOpen = order.orderId;
+    }
+    if (reachedEnd || page.length < ORDERS_PAGE_LIMIT) break;
+    orderId = page[page.length - 1].orderId + 1;
+  }
+
+  return { orders, nextOrderId: firstOpen ?? nextOrderId };
+}
+
+/**
+ * Futuros: ordens do símbolo no período, em janelas de 7 dias
+ * e paginando por tempo quando uma página vem cheia.
+ */
+async function fetchFuturesOrders(
+  credentials: BinanceCredentials,
+  symbol: string,
+  startTime: number,
+  endTime: number
+): Promise<BinanceOrder[]> {
+  const orders = new Map<number, BinanceOrder>();
+
+  for (let windowStart = startTime; windowStart <= endTime; windowStart += FUTURES_ORDERS_WINDOW_MS) {
+    const windowEnd = Math.min(windowStart + FUTURES_ORDERS_WINDOW_MS - 1, endTime);
+    let pageStart = windowStart;
+
+    while (true) {
+      const page = await fetchBinanceOrders(credentials, 'FUTURES', symbol, { startTime: pageStart, endTime: windowEnd });
+      for (const order of page) orders.set(order.orderId, order);
+      if (page.length < ORDERS_PAGE_LIMIT) break;
+
+      const lastTime = page[page.length - 1].time;
+      if (lastTime === pageStart) {
+        throw new Error(`Mais de ${ORDERS_PAGE_LIMIT} ordens de ${symbol} em ${new Date(lastTime).toISOString()}, paginação incompleta`);
+      }
+      pageStart = lastTime;
+    }
+  }
+
+  return Array.from(orders.values());
+}
+
+export async function syncOrders(
+  account: { id: string; market: string },
+  symbols: string[],
+  startDate: string = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  endDate: string = new Date().toISOString().split('T')[0],
+  jobId?: string,
+  userId?: string
+): Promise<OrderSyncResult> {
+  const acc = await prisma.binanceAccount.findUnique({
+    where: { id: account.id },
+    select: { id: true, apiKeyEnc: true, apiSecretEnc: true },
+  });
+
+  if (!acc) {
+    throw new Error(`Account ${account.id} not found in database`);
+  }
+
+  const credentials: BinanceCredentials = {
+    apiKey: await decrypt(acc.apiKeyEnc),
+    apiSecret: await decrypt(acc.apiSecretEnc),
+  };
+
+  let startTimestamp = new Date(startDate + 'T00:00:00.000Z').getTime();
+  const endTimestamp = Math.min(new Date(endDate + 'T23:59:59.999Z').getTime(), Date.now());
+  if (account.market === 'FUTURES') {
+    startTimestamp = Math.max(startTimestamp, Date.now() - FUTURES_ORDERS_HISTORY_MS);
+  }
+
+  let inserted = 0;
+  let updated = 0;
+  let linkedTrades = 0;
+  const errors: { symbol: string; message: string }[] = [];
+
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i];
+
+    if (jobId && userId) {
+      await setProgress(jobId, {
+        jobId,
+        userId,
+        currentSymbol: symbol,
+        status: 'running',
+        message: `Buscando ordens de ${symbol} (${i + 1}/${symbols.length})...`,
+      });
+    }
+
+    let orders: BinanceOrder[];
+    // Spot: cursor por orderId em SyncCursor, gravado depois que as ordens forem salvas
+    let spotCursor: { nextOrderId: number; backfilledFrom: Date | null } | null = null;
+    try {
+      if (account.market === 'FUTURES') {
+        orders = await fetchFuturesOrders(credentials, symbol, startTimestamp, endTimestamp);
+      } else {
+        const cursor = await prisma.syncCursor.findUnique({
+          where: { accountId_symbol: { accountId: acc.id, symbol } },
+          select: { nextOrderId: true, ordersBackfilledFrom: true },
+        });
+        // Sem cursor, ou período anterior ao já coberto: refazer desde a primeira ordem
+        const needsBackfill = !cursor?.nextOrderId ||
+          (cursor.ordersBackfilledFrom !== null && startTimestamp < cursor.ordersBackfilledFrom.getTime());
+        const fetched = await fetchSpotOrders(credentials, symbol, needsBackfill ? 0 : Number(cursor!.nextOrderId), endTimestamp);
+        // No backfill, ignorar ordens anteriores ao início pedido
+        orders = needsBackfill ? fetched.orders.filter(o => o.time >= startTimestamp) : fetched.orders;
+        const previousBackfill = cursor?.ordersBackfilledFrom ?? null;
+        spotCursor = {
+          nextOrderId: fetched.nextOrderId,
+          backfilledFrom: needsBackfill
+            ? new Date(Math.min(startTimestamp, previousBackfill?.getTime() ?? startTimestamp))
+            : previousBackfill,
+        };
+      }
+    } catch (error) {
+      console.error(`[ORDERS SYNC] Erro ao buscar ordens de ${symbol}:`, error);
+      errors.push({ symbol, message: error instanceof Error ? error.message : 'Unknown error' });
+      // Rate limit/ban: parar de consultar os demais símbolos
+      if (isRateLimitError(error)) break;
+      continue;
+    }
+
+    for (const o of orders) {
+      const where = {
+        accountId_market_symbol_orderId: {
+          accountId: acc.id,
+          market: account.market,
+          symbol: o.symbol,
+          orderId: String(o.orderId),
+        },
+      };
+      const stopPrice = Number(o.stopPrice || 0) > 0 ? o.stopPrice! : null;
+      const data = {
+        clientOrderId: o.clientOrderId || null,
+        side: o.side,
+        positionSide: o.positionSide || null,
+        type: o.origType || o.type,
+        status: o.status,
+        timeInForce: o.timeInForce || null,
+        price: o.price,
+        origQty: o.origQty,
+        executedQty: o.executedQty,
+        stopPrice,
+        reduceOnly: o.reduceOnly === true,
+        placedAt: new Date(o.time),
+        exchangeUpdatedAt: o.updateTime ? new Date(o.updateTime) : null,
+      };
+
+      const existing = await prisma.order.findUnique({ where, select: { id: true } });
+      const saved = existing
+        ? await prisma.order.update({ where: { id: existing.id }, data })
+        : await prisma.order.create({
+            data: {
+              accountId: acc.id,
+              market: account.market,
+              symbol: o.symbol,
+              orderId: String(o.orderId),
+              ...data,
+            },
+          });
+      if (existing) updated++; else inserted++;
+
+      // Vincular os fills da ordem e substituir o tipo inferido por isMaker pelo tipo real
+      if (Number(o.executedQty) > 0) {
+        const linked = await prisma.trade.updateMany({
+          where: { accountId: acc.id, market: account.market, symbol: o.symbol, orderId: String(o.orderId) },
+          data: { orderRefId: saved.id, orderType: data.type },
+        });
+        linkedTrades += linked.count;
+      }
+    }
+
+    if (spotCursor) {
+      const cursorData = {
+        nextOrderId: String(spotCursor.nextOrderId),
+        ordersBackfilledFrom: spotCursor.backfilledFrom,
+      };
+      await prisma.syncCursor.upsert({
+        where: { accountId_symbol: { accountId: acc.id, symbol } },
+        update: cursorData,
+        create: { accountId: acc.id, symbol, ...cursorData },
+      });
+    }
+  }
+
+  console.log(`[ORDERS SYNC] Conta ${acc.id}: ${inserted} inseridas, ${updated} atualizadas, ${linkedTrades} trades vinculados`);
+  return { inserted, updated, linkedTrades, errors };
+}
@@ -17,6 +17,19 @@ interface SyncProgress {
     updated: number;
   };
   error?: string;
+  pagesBySymbol?: Record<string, number>;
+}
+
+// Soma as páginas por símbolo ao que já foi registrado no job (várias contas podem compartilhar o job)
+function mergePagesBySymbol(
+  existing: unknown,
+  pages: Record<string, number>
+): Record<string, number> {
+  const merged: Record<string, number> = { ...((existing as Record<string, number> | null) ?? {}) };
+  for (const [symbol, count] of Object.entries(pages)) {
+    merged[symbol] = (merged[symbol] ?? 0) + count;
+  }
+  return merged;
 }
 
 export function createJobId(userId: string): string {
@@ -42,6 +55,9 @@ export async function setProgress(jobId: string, progress: Partial<SyncProgress>
           resultInserted: progress.result?.inserted ?? existing.resultInserted,
           resultUpdated: progress.result?.updated ?? existing.resultUpdated,
           error: progress.error ?? existing.error,
+          pagesBySymbol: progress.pagesBySymbol
+            ? mergePagesBySymbol(existing.pagesBySymbol, progress.pagesBySymbol)
+            : undefined,
         }
       });
     } else {
@@ -58,6 +74,7 @@ export async function setProgress(jobId: string, progress: Partial<SyncProgress>
           resultInserted: progress.result?.inserted ?? 0,
           resultUpdated: progress.result?.updated ?? 0,
           error: progress.error,
+          pagesBySymbol: progress.pagesBySymbol,
         }
       });
     }
@@ -91,6 +108,7 @@ export async function getProgress(jobId: string): Promise<SyncProgress | null> {
         updated: job.resultUpdated
       } : undefined,
       error: job.error ?? undefined,
+      pagesBySymbol: (job.pagesBySymbol as Record<string, number> | null) ?? undefined,
     };
   } catch (error) {
     console.error('Error getting progress:', error);
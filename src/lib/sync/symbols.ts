@@ -0,0 +1,246 @@
+// Descoberta automática dos pares negociados por conta
+// Monta candidatos a partir de saldos atuais, ativos de depósitos/saques,
+// trades já importados e da lista de símbolos da Binance (exchangeInfo).
+// A descoberta é cara (um myTrades por par candidato no spot), então roda no primeiro
+// sync da conta, de novo quando a última passada completa tem mais de um dia (o cron
+// diário acha pares negociados depois) ou quando pedida explicitamente (backfill /
+// busca de símbolos). Só testa pares ainda não salvos.
+
+import { prisma } from '@/lib/prisma';
+import { decrypt } from '@/lib/encryption';
+import { binanceGet, BinanceCredentials, isRateLimitError } from '@/lib/binanceClient';
+import { refreshSymbolInfo } from '@/lib/symbolInfo';
+
+// Idade máxima da última descoberta completa antes de refazer
+const DISCOVERY_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type SymbolSource = 'balance' | 'cashflow' | 'trades' | 'position' | 'income';
+
+interface SpotBalance {
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+interface FuturesPosition {
+  symbol: string;
+  positionAmt: string;
+}
+
+interface FuturesIncome {
+  symbol: string;
+  incomeType: string;
+  time: number;
+}
+
+async function fetchSpotBalanceAssets(
+  credentials: BinanceCredentials,
+  market: string,
+  accountId: string,
+  authHeader?: string
+): Promise<string[]> {
+  const data = await binanceGet<{ balances?: SpotBalance[] }>({
+    market: 'SPOT',
+    path: '/api/v3/account',
+    credentials,
+    weight: 20,
+    proxy: { path: '/account', params: { market, accountId }, authHeader, unwrap: true },
+  });
+  return (data?.balances || [])
+    .filter(b => Number(b.free) > 0 || Number(b.locked) > 0)
+    .map(b => b.asset);
+}
+
+async function fetchFuturesOpenPositions(credentials: BinanceCredentials): Promise<string[]> {
+  const data = await binanceGet<{ positions?: FuturesPosition[] }>({
+    market: 'FUTURES',
+    path: '/fapi/v2/account',
+    credentials,
+    weight: 5,
+  });
+  return (data.positions || [])
+    .filter(p => Number(p.positionAmt) !== 0)
+    .map(p => p.symbol);
+}
+
+// Confere com um myTrades de 1 item se a conta já negociou o par (sem fromId vem o trade mais recente)
+async function hasSpotTrades(
+  credentials: BinanceCredentials,
+  market: string,
+  symbol: string,
+  authHeader?: string
+): Promise<boolean> {
+  const trades = await binanceGet<unknown[]>({
+    market: 'SPOT',
+    path: '/api/v3/myTrades',
+    params: { symbol, limit: 1 },
+    credentials,
+    weight: 20,
+    proxy: { path: '/trades', params: { market, symbol, limit: 1 }, authHeader, unwrap: true },
+  });
+  return (trades || []).length > 0;
+}
+
+// Símbolos com comissão nos últimos 90 dias (histórico disponível na API)
+async function fetchFuturesIncomeSymbols(credentials: BinanceCredentials): Promise<string[]> {
+  const symbols = new Set<string>();
+  const endTime = Date.now();
+  let startTime = endTime - 90 * 24 * 60 * 60 * 1000;
+
+  while (startTime < endTime) {
+    const page = await binanceGet<FuturesIncome[]>({
+      market: 'FUTURES',
+      path: '/fapi/v1/income',
+      params: { incomeType: 'COMMISSION', startTime, endTime, limit: 1000 },
+      credentials,
+      weight: 30,
+    });
+    for (const item of page) {
+      if (item.symbol) symbols.add(item.symbol);
+    }
+    if (page.length < 1000) break;
+    startTime = page[page.length - 1].time + 1;
+  }
+
+  return Array.from(symbols);
+}
+
+/**
+ * Descobre os pares candidatos de uma conta e grava em AccountSymbol.
+ * Retorna a lista completa de símbolos conhecidos da conta (novos + já salvos).
+ * Se a conta passou por uma descoberta completa há menos de DISCOVERY_MAX_AGE_MS,
+ * retorna os pares salvos sem chamar a API, a menos que `force` seja passado.
+ * Uma passada interrompida por limite de requisições não conta como completa.
+ */
+export async function discoverAccountSymbols(
+  accountId: string,
+  authHeader?: string,
+  options: { force?: boolean } = {}
+): Promise<string[]> {
+  const acc = await prisma.binanceAccount.findUnique({ where: { id: accountId } });
+  if (!acc) {
+    throw new Error('Account not found');
+  }
+
+  const discoveredAt = acc.symbolsDiscoveredAt;
+  if (discoveredAt && Date.now() - discoveredAt.getTime() < DISCOVERY_MAX_AGE_MS && !options.force) {
+    console.log(`[SYMBOLS] Conta ${accountId}: usando pares descobertos em ${discoveredAt.toISOString()}`);
+    return getAccountSymbols(accountId);
+  }
+
+  const found = new Map<string, SymbolSource>();
+  let aborted = false;
+  const addSymbol = (symbol: string, source: SymbolSource) => {
+    if (!found.has(symbol)) found.set(symbol, source);
+  };
+
+  // Trades já importados sempre continuam candidatos
+  const tradedSymbols = await prisma.trade.findMany({
+    where: { accountId },
+    select: { symbol: true },
+    distinct: ['symbol'],
+  });
+  for (const t of tradedSymbols) addSymbol(t.symbol, 'trades');
+
+  const credentials: BinanceCredentials = {
+    apiKey: await decrypt(acc.apiKeyEnc),
+    apiSecret: await decrypt(acc.apiSecretEnc),
+  };
+
+  if (acc.market === 'FUTURES') {
+    // Em FUTURES os saldos são só margem: usar posições abertas e histórico de comissões
+    try {
+      for (const symbol of await fetchFuturesOpenPositions(credentials)) addSymbol(symbol, 'position');
+    } catch (error) {
+      console.error(`[SYMBOLS] Erro ao buscar posições da conta ${accountId}:`, error);
+    }
+    try {
+      for (const symbol of await fetchFuturesIncomeSymbols(credentials)) addSymbol(symbol, 'income');
+    } catch (error) {
+      console.error(`[SYMBOLS] Erro ao buscar income da conta ${accountId}:`, error);
+    }
+  } else {
+    // Ativos em saldo e ativos movimentados em depósitos/saques
+    const balanceAssets = new Set<string>();
+    try {
+      for (const asset of await fetchSpotBalanceAssets(credentials, acc.market, acc.id, authHeader)) {
+        balanceAssets.add(asset);
+      }
+    } catch (error) {
+      console.error(`[SYMBOLS] Erro ao buscar saldos da conta ${accountId}:`, error);
+    }
+
+    const cashflowAssets = await prisma.cashflow.findMany({
+      where: { accountId },
+      select: { asset: true },
+      distinct: ['asset'],
+    });
+    const movedAssets = new Set(cashflowAssets.map(c => c.asset.toUpperCase()));
+
+    // Aproveita a chamada ao exchangeInfo para atualizar o registro de pares
+    const exchangeSymbols = await refreshSymbolInfo(acc.market);
+    const knownAssets = new Set<string>([...balanceAssets, ...movedAssets]);
+    const saved = new Set(await getAccountSymbols(accountId));
+
+    // Basta um dos ativos ser conhecido (o base pode ter sido vendido por inteiro), mas a
+    // cotação precisa ser um ativo que o usuário tem ou movimentou: é com ela que ele compra
+    const candidates: { symbol: string; source: SymbolSource }[] = [];
+    for (const s of exchangeSymbols) {
+      if (s.baseAsset === s.quoteAsset) continue;
+      if (!knownAssets.has(s.quoteAsset)) continue;
+      // Pares encerrados só entram se já tiverem trades importados (adicionados acima)
+      if (s.status !== 'TRADING') continue;
+      if (found.has(s.symbol) || saved.has(s.symbol)) continue;
+      const source: SymbolSource = balanceAssets.has(s.baseAsset) || balanceAssets.has(s.quoteAsset) ? 'balance' : 'cashflow';
+      candidates.push({ symbol: s.symbol, source });
+    }
+
+    // Só grava os candidatos que a conta de fato negociou
+    console.log(`[SYMBOLS] Conta ${accountId}: testando ${candidates.length} pares candidatos`);
+    for (const { symbol, source } of candidates) {
+      try {
+        if (await hasSpotTrades(credentials, acc.market, symbol, authHeader)) {
+          addSymbol(symbol, source);
+        }
+      } catch (error) {
+        console.error(`[SYMBOLS] Erro ao testar ${symbol} na conta ${accountId}:`, error);
+        // Sem limite de requisições não adianta continuar; a próxima descoberta refaz os testes
+        if (isRateLimitError(error)) {
+          aborted = true;
+          break;
+        }
+      }
+    }
+  }
+
+  for (const [symbol, source] of found.entries()) {
+    await prisma.accountSymbol.upsert({
+      where: { accountId_symbol: { accountId, symbol } },
+      update: {},
+      create: { accountId, symbol, source },
+    });
+  }
+
+  // Passada interrompida fica sem data: o próximo sync testa de novo os pares que faltaram
+  if (aborted) {
+    console.warn(`[SYMBOLS] Conta ${accountId}: descoberta interrompida por limite de requisições`);
+  } else {
+    await prisma.binanceAccount.update({
+      where: { id: accountId },
+      data: { symbolsDiscoveredAt: new Date() },
+    });
+  }
+
+  console.log(`[SYMBOLS] Conta ${accountId}: ${found.size} símbolos candidatos descobertos`);
+  return getAccountSymbols(accountId);
+}
+
+// Símbolos já descobertos/salvos para a conta
+export async function getAccountSymbols(accountId: string): Promise<string[]> {
+  const rows = await prisma.accountSymbol.findMany({
+    where: { accountId },
+    select: { symbol: true },
+    orderBy: { symbol: 'asc' },
+  });
+  return rows.map(r => r.symbol);
+}
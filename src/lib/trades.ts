@@ -1,6 +1,10 @@
 import { prisma } from './prisma';
-import { monthRange } from './format';
+import { isValidTimeZone, monthRange, startOfDayInTimeZone } from './format';
 import { PaginatedResult, TradesQuery } from './types';
+import { INCOME_TYPES_IN_TRADES, INCOME_TYPES_NOT_PNL } from './sync/income';
+import { getReportingCurrency } from './fx';
+import { ensureMonthlyBalance } from './monthlyBalance';
+import { getTradeFilterForTags } from './journal';
 // Avoid Prisma.Decimal dependency in node runtime
 
 export type TradeRow = {
@@ -41,66 +45,49 @@ function decToString(d: unknown): string {
   return toNumber(d).toString();
 }
 
-export async function getTrades(
-  query: TradesQuery
-): Promise<PaginatedResult<TradeRow>> {
-  let start: Date;
-  let end: Date;
-  
-  if (query.startDate && query.endDate) {
-    start = new Date(query.startDate + 'T00:00:00.000Z');
-    end = new Date(query.endDate + 'T23:59:59.999Z');
-  } else if (!query.month) {
-    throw new Error('month or startDate/endDate is required');
-  } else {
-    const range = monthRange(query.month);
-    start = range.start;
-    end = range.end;
-    console.log('[getTrades] monthRange:', query.month, '-> start:', start.toISOString(), 'end:', end.toISOString());
-  }
-
-  const where = {
-    executedAt: { gte: start, lte: end },
-    ...(query.accountIds && query.accountIds.length > 0 ? { accountId: { in: query.accountIds } } : {}),
-    ...(query.market ? { market: query.market } : {}),
-    ...(query.symbol ? { symbol: query.symbol } : {}),
-  };
-
-  const page = Math.max(1, Number(query.page ?? 1));
-  const pageSize = Math.min(200, Math.max(1, Number(query.pageSize ?? 20)));
-
-  const total = await prisma.trade.count({ where });
-  
-  type DbTrade = {
-    id: string;
-    accountId: string;
-    exchange: string;
-    market: string;
-    symbol: string;
-    side: string;
-    qty: unknown;
-    price: unknown;
-    feeValue: unknown;
-    feeAsset: string;
-    feePct: unknown;
-    realizedPnl: unknown;
-    orderId?: string | null;
-    tradeId?: string | null;
-    orderType?: string | null;
-    executedAt: Date;
-  };
-
-  // Buscar TODOS os trades filtrados para calcular o summary (sem paginação)
-  const allFilteredTrades: DbTrade[] = (await prisma.trade.findMany({
-    where,
-    orderBy: { executedAt: 'asc' }, // Ordenar por data para calcular drawdown corretamente
-  })) as unknown as DbTrade[];
+// Campos de Trade usados nas métricas (PnL/taxa na moeda de relatório quando convertidos)
+export type SummaryTrade = {
+  id: string;
+  accountId: string;
+  orderId?: string | null;
+  qty: unknown;
+  price: unknown;
+  feeValue: unknown;
+  feePct: unknown;
+  realizedPnl: unknown;
+  realizedPnlReporting?: unknown | null;
+  feeReporting?: unknown | null;
+};
 
-  // Cashflows removidos do cálculo de PnL
-  // Cashflows são movimentações de dinheiro (depósitos/saques), não lucro
-  // O PnL deve representar apenas o lucro/prejuízo das operações de trading
+export interface TradeMetrics {
+  pnl: number;
+  fees: number;
+  avgFeePct: number;
+  tradesCount: number; // ordens únicas, não execuções
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number; // 0..1, sobre ordens com PnL != 0
+  bestTrade: number;
+  worstTrade: number;
+  totalVolume: number;
+  maxDrawdown: number;
+  currentDrawdown: number;
+  grossProfit: number; // soma das ordens vencedoras
+  grossLoss: number; // soma das ordens perdedoras (positivo)
+  profitFactor: number | null; // lucro bruto / perda bruta (null sem perdas)
+  expectancy: number; // PnL médio por ordem
+  avgWin: number;
+  avgLoss: number; // negativo
+  payoffRatio: number | null; // ganho médio / |perda média|
+  longestWinStreak: number; // ordens vencedoras seguidas (PnL = 0 não interrompe)
+  longestLossStreak: number;
+}
 
-  // Calcular summary com TODOS os trades filtrados
+/**
+ * Métricas de um conjunto de trades (em ordem cronológica, para o drawdown).
+ * Usado pelo summary de getTrades e pelos agrupamentos por tag/estratégia.
+ */
+export function summarizeTrades(trades: SummaryTrade[]): TradeMetrics {
   let pnl = 0;
   let fees = 0;
   let feePctSum = 0;
@@ -117,13 +104,15 @@ export async function getTrades(
   // Trades sem Order ID são contados individualmente
   const ordersMap = new Map<string, { pnl: number; realized: number }>();
   
-  for (const t of allFilteredTrades) {
-    const realized = toNumber(t.realizedPnl);
+  // PnL e taxas na moeda de relatório (convertidos no câmbio da execução);
+  // trades ainda sem conversão caem no valor original da moeda do par
+  for (const t of trades) {
+    const realized = toNumber(t.realizedPnlReporting ?? t.realizedPnl);
     const qty = toNumber(t.qty);
     const price = toNumber(t.price);
     
     pnl += realized;
-    const feeVal = toNumber(t.feeValue);
+    const feeVal = toNumber(t.feeReporting ?? t.feeValue);
     fees += feeVal;
     feePctSum += toNumber(t.feePct);
     
@@ -161,14 +150,29 @@ export async function getTrades(
   }
   
   // Contar wins/loses baseado no PnL total de cada ordem
+  // (o Map mantém a ordem da primeira execução, então as sequências seguem o tempo)
   let losingTrades = 0;
+  let grossProfit = 0;
+  let grossLoss = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
   for (const order of ordersMap.values()) {
     if (order.pnl > 0) {
       wins += 1;
+      grossProfit += order.pnl;
+      winStreak += 1;
+      lossStreak = 0;
     } else if (order.pnl < 0) {
       // Apenas contar como perdedor se PnL for negativo (PnL = 0 não conta)
       losingTrades += 1;
+      grossLoss -= order.pnl;
+      lossStreak += 1;
+      winStreak = 0;
     }
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
     
     // Calcular melhor e pior trade (usar o PnL total da ordem)
     if (order.pnl > bestTrade) bestTrade = order.pnl;
@@ -177,6 +181,225 @@ export async function getTrades(
   
   // Número de trades = número de ordens únicas (não execuções individuais)
   const uniqueOrdersCount = ordersMap.size;
+  const avgWin = wins > 0 ? grossProfit / wins : 0;
+  const avgLoss = losingTrades > 0 ? -grossLoss / losingTrades : 0;
+
+  return {
+    pnl,
+    fees,
+    avgFeePct: trades.length > 0 ? feePctSum / trades.length : 0,
+    tradesCount: uniqueOrdersCount,
+    winningTrades: wins,
+    losingTrades,
+    winRate: wins + losingTrades > 0 ? wins / (wins + losingTrades) : 0,
+    bestTrade,
+    worstTrade,
+    totalVolume,
+    maxDrawdown,
+    currentDrawdown,
+    grossProfit,
+    grossLoss,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    expectancy: uniqueOrdersCount > 0 ? pnl / uniqueOrdersCount : 0,
+    avgWin,
+    avgLoss,
+    payoffRatio: wins > 0 && losingTrades > 0 ? avgWin / -avgLoss : null,
+    longestWinStreak,
+    longestLossStreak,
+  };
+}
+
+// Parâmetros de filtro inválidos (as rotas respondem 400; outros erros são 500)
+export class TradesQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TradesQueryError';
+  }
+}
+
+/**
+ * Filtros de /api/trades e das rotas de analytics a partir da URL: período (month ou
+ * startDate/endDate, em dias do fuso ?tz=), market, symbol, tags (?tag=a&tag=b ou
+ * ?tags=a,b) e ?accountIds=a,b.
+ * As contas ficam restritas às do usuário; accountIds vazio = nenhuma conta encontrada.
+ */
+export async function parseTradesQuery(
+  req: Request,
+  userId: string
+): Promise<TradesQuery & { userId: string; accountIds: string[] }> {
+  const { searchParams } = new URL(req.url);
+  const requestedAccounts = searchParams.get('accountIds')?.split(',').filter(Boolean);
+
+  const userAccounts = await prisma.binanceAccount.findMany({
+    where: {
+      userId,
+      ...(requestedAccounts && requestedAccounts.length > 0 ? { id: { in: requestedAccounts } } : {}),
+    },
+    select: { id: true }
+  });
+
+  const tags = [...searchParams.getAll('tag'), ...(searchParams.get('tags')?.split(',') ?? [])]
+    .map(t => t.trim())
+    .filter(Boolean);
+
+  const query = {
+    month: searchParams.get('month') || '',
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    market: searchParams.get('market') || undefined,
+    symbol: searchParams.get('symbol') || undefined,
+    accountIds: userAccounts.map(acc => acc.id),
+    userId,
+    tags: tags.length > 0 ? tags : undefined,
+    timeZone: searchParams.get('tz') || undefined,
+  };
+  if (!query.month && !(query.startDate && query.endDate)) {
+    throw new TradesQueryError('month or startDate/endDate is required');
+  }
+  if (query.timeZone && !isValidTimeZone(query.timeZone)) {
+    throw new TradesQueryError('Invalid tz');
+  }
+  return query;
+}
+
+/**
+ * Período e filtro (where do Prisma) de trades a partir dos parâmetros de /api/trades.
+ * Compartilhado por getTrades e pelas estatísticas, para que filtrem igual.
+ */
+export async function getTradesWhere(query: TradesQuery) {
+  let start: Date;
+  let end: Date;
+  
+  if (query.startDate && query.endDate) {
+    start = new Date(query.startDate + 'T00:00:00.000Z');
+    end = new Date(query.endDate + 'T23:59:59.999Z');
+  } else if (!query.month) {
+    throw new TradesQueryError('month or startDate/endDate is required');
+  } else {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(query.month)) {
+      throw new TradesQueryError('month must be YYYY-MM');
+    }
+    const range = monthRange(query.month);
+    start = range.start;
+    end = range.end;
+    console.log('[getTrades] monthRange:', query.month, '-> start:', start.toISOString(), 'end:', end.toISOString());
+  }
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new TradesQueryError('startDate and endDate must be YYYY-MM-DD');
+  }
+
+  // Mesmos dias, com a virada à meia-noite do fuso do usuário
+  if (query.timeZone && query.timeZone !== 'UTC') {
+    start = startOfDayInTimeZone(start.toISOString().slice(0, 10), query.timeZone);
+    const nextDay = new Date(end.getTime() + 1).toISOString().slice(0, 10);
+    end = new Date(startOfDayInTimeZone(nextDay, query.timeZone).getTime() - 1);
+  }
+
+  // Filtro por tags do diário: só ordens/posições anotadas com alguma das tags
+  const tagFilter = query.tags && query.tags.length > 0
+    ? (query.userId ? await getTradeFilterForTags(query.userId, query.tags) : null) ?? { id: { in: [] as string[] } }
+    : {};
+
+  const where = {
+    ...tagFilter,
+    executedAt: { gte: start, lte: end },
+    ...(query.accountIds && query.accountIds.length > 0 ? { accountId: { in: query.accountIds } } : {}),
+    ...(query.market ? { market: query.market } : {}),
+    ...(query.symbol ? { symbol: query.symbol } : {}),
+  };
+
+  return { start, end, where };
+}
+
+export async function getTrades(
+  query: TradesQuery
+): Promise<PaginatedResult<TradeRow>> {
+  const { start, end, where } = await getTradesWhere(query);
+
+  const page = Math.max(1, Number(query.page ?? 1));
+  const pageSize = Math.min(200, Math.max(1, Number(query.pageSize ?? 20)));
+
+  const total = await prisma.trade.count({ where });
+  
+  type DbTrade = {
+    id: string;
+    accountId: string;
+    exchange: string;
+    market: string;
+    symbol: string;
+    side: string;
+    qty: unknown;
+    price: unknown;
+    feeValue: unknown;
+    feeAsset: string;
+    feePct: unknown;
+    realizedPnl: unknown;
+    realizedPnlReporting: unknown | null;
+    feeReporting: unknown | null;
+    orderId?: string | null;
+    tradeId?: string | null;
+    orderType?: string | null;
+    executedAt: Date;
+  };
+
+  // Buscar TODOS os trades filtrados para calcular o summary (sem paginação)
+  const allFilteredTrades: DbTrade[] = (await prisma.trade.findMany({
+    where,
+    orderBy: { executedAt: 'asc' }, // Ordenar por data para calcular drawdown corretamente
+  })) as unknown as DbTrade[];
+
+  // Cashflows removidos do cálculo de PnL
+  // Cashflows são movimentações de dinheiro (depósitos/saques), não lucro
+  // O PnL deve representar apenas o lucro/prejuízo das operações de trading
+
+  // Calcular summary com TODOS os trades filtrados
+  const {
+    pnl,
+    fees,
+    avgFeePct,
+    tradesCount: uniqueOrdersCount,
+    winningTrades: wins,
+    losingTrades,
+    winRate,
+    bestTrade,
+    worstTrade,
+    totalVolume,
+    maxDrawdown,
+    currentDrawdown,
+    profitFactor,
+    expectancy,
+    avgWin,
+    avgLoss,
+    payoffRatio,
+    longestWinStreak,
+    longestLossStreak,
+  } = summarizeTrades(allFilteredTrades);
+
+  // Income de futuros (funding, insurance clear, rebates...) que não aparece nos fills
+  // REALIZED_PNL e COMMISSION já estão nos trades e não são somados de novo
+  let fundingTotal = 0;
+  let otherIncomeTotal = 0;
+  // Com filtro de tags o funding não é somado: ele não pertence a uma ordem anotada
+  if (query.market !== 'SPOT' && !(query.tags && query.tags.length > 0)) {
+    const incomes = await prisma.futuresIncome.findMany({
+      where: {
+        time: { gte: start, lte: end },
+        incomeType: { notIn: [...INCOME_TYPES_IN_TRADES, ...INCOME_TYPES_NOT_PNL] },
+        ...(query.accountIds && query.accountIds.length > 0 ? { accountId: { in: query.accountIds } } : {}),
+        ...(query.symbol ? { symbol: query.symbol } : {}),
+      },
+      select: { incomeType: true, income: true, incomeReporting: true },
+    });
+    for (const row of incomes) {
+      const value = toNumber(row.incomeReporting ?? row.income);
+      if (row.incomeType === 'FUNDING_FEE') {
+        fundingTotal += value;
+      } else {
+        otherIncomeTotal += value;
+      }
+    }
+  }
 
   // Buscar apenas os trades da página atual para exibir na tabela
   const trades: DbTrade[] = (await prisma.trade.findMany({
@@ -229,18 +452,10 @@ export async function getTrades(
     }
     
     // Buscar saldo do mês FILTRADO POR USUÁRIO
+    // Sem saldo salvo, reconstrói a partir do patrimônio no fechamento do mês anterior
     if (query.userId) {
-      const monthlyBalance = await prisma.monthlyBalance.findUnique({
-        where: { userId_month: { userId: query.userId, month: monthToSearch } }
-      });
-      
-      if (monthlyBalance) {
-        balanceBRL = monthlyBalance.initialBalance;
-      } else {
-        // Se não há saldo salvo, retornar 0 (deve ser preenchido manualmente)
-        // A API da Binance não fornece saldo histórico, então não podemos calcular automaticamente
-        balanceBRL = '0';
-      }
+      const monthlyBalance = await ensureMonthlyBalance(query.userId, monthToSearch);
+      balanceBRL = monthlyBalance?.value ?? '0';
     } else {
       // Se não há userId, não buscar saldo salvo (segurança)
       console.warn('[getTrades] userId não fornecido, não buscando saldo inicial salvo');
@@ -260,15 +475,14 @@ export async function getTrades(
   const initialBalanceNum = Number(balanceBRL);
   const roiTotal = initialBalanceNum > 0 ? (totalPnL / initialBalanceNum) * 100 : null;
   
-  // Win rate baseado em ordens únicas (não execuções)
-  const totalOrders = wins + losingTrades; // Apenas ordens com PnL != 0
-  const winRate = totalOrders > 0 ? wins / totalOrders : 0;
-  
+  const currency = query.userId ? await getReportingCurrency(query.userId) : 'BRL';
+
   const summary = {
+    currency,
     pnlMonth: totalPnL.toString(), // Apenas PnL dos trades
     roiTotal: roiTotal !== null ? roiTotal.toString() : null, // ROI total sobre saldo inicial (null se não houver saldo)
     feesTotal: fees.toString(),
-    avgFeePct: (allFilteredTrades.length > 0 ? (feePctSum / allFilteredTrades.length) : 0).toString(),
+    avgFeePct: avgFeePct.toString(),
     tradesCount: uniqueOrdersCount, // Número de ordens únicas, não execuções
     winRate: winRate,
     initialBalance: balanceBRL,
@@ -279,6 +493,16 @@ export async function getTrades(
     currentDrawdown: currentDrawdown.toString(),
     winningTrades: wins,
     losingTrades: losingTrades,
+    profitFactor: profitFactor !== null ? profitFactor.toString() : null,
+    expectancy: expectancy.toString(),
+    avgWin: avgWin.toString(),
+    avgLoss: avgLoss.toString(),
+    payoffRatio: payoffRatio !== null ? payoffRatio.toString() : null,
+    longestWinStreak,
+    longestLossStreak,
+    fundingTotal: fundingTotal.toString(),
+    otherIncomeTotal: otherIncomeTotal.toString(),
+    netPnl: (totalPnL + fundingTotal + otherIncomeTotal).toString(), // PnL após funding e demais income
   };
 
   return { rows, total, summary };
@@ -10,10 +10,14 @@ export interface TradesQuery {
   pageSize?: number;
   accountIds?: string[]; // IDs das contas do usuário para filtrar trades
   userId?: string; // ID do usuário para filtrar saldo inicial
+  tags?: string[]; // nomes de tags do diário (ordens/posições anotadas com qualquer uma delas)
+  timeZone?: string; // fuso IANA em que month/startDate/endDate viram dias (padrão UTC)
 }
 
 export interface TradesSummary {
+  currency: string; // moeda de relatório de PnL/taxas/income (BRL, USD ou USDT)
   pnlMonth: string; // decimal as string to avoid fp issues
+  roiTotal: string | null; // PnL / saldo inicial, em %
   feesTotal: string;
   avgFeePct: string;
   tradesCount: number;
@@ -26,6 +30,16 @@ export interface TradesSummary {
   currentDrawdown: string; // drawdown atual
   winningTrades: number; // número de trades vencedores
   losingTrades: number; // número de trades perdedores
+  profitFactor: string | null; // lucro bruto / perda bruta (null sem perdas)
+  expectancy: string; // PnL médio por ordem
+  avgWin: string; // ganho médio das ordens vencedoras
+  avgLoss: string; // perda média das ordens perdedoras (negativo)
+  payoffRatio: string | null; // ganho médio / |perda média|
+  longestWinStreak: number; // maior sequência de ordens vencedoras
+  longestLossStreak: number; // maior sequência de ordens perdedoras
+  fundingTotal: string; // funding fees pagos/recebidos em futuros (negativo = pago)
+  otherIncomeTotal: string; // insurance clear, rebates e outros income de futuros
+  netPnl: string; // PnL dos trades + funding + outros income
 }
 
 export interface PaginatedResult<Row> {